@@ -0,0 +1,92 @@
+import { createServer } from 'node:http';
+import { Server } from 'socket.io';
+
+/**
+ * Minimal Socket.IO relay for Cipher Chat.
+ *
+ * The relay only forwards opaque, already-encrypted frames between the two
+ * members of a room. Room IDs are hashes derived from the pairing code on
+ * the client, so the relay never learns the code or any plaintext.
+ */
+
+const PORT = Number(process.env.RELAY_PORT || 3001);
+const CORS_ORIGIN = process.env.RELAY_CORS_ORIGIN || '*';
+const MAX_ROOM_SIZE = 2;
+const MAX_FRAME_SIZE = 2 * 1024 * 1024;
+const ROOM_ID_PATTERN = /^[0-9a-f]{64}$/;
+
+interface JoinAck {
+  ok: boolean;
+  peers: number;
+  error?: string;
+}
+
+const httpServer = createServer((_req, res) => {
+  res.writeHead(200, { 'Content-Type': 'text/plain' });
+  res.end('cipher-relay ok');
+});
+
+const io = new Server(httpServer, {
+  cors: { origin: CORS_ORIGIN },
+  maxHttpBufferSize: MAX_FRAME_SIZE
+});
+
+// Socket IDs in each room. Checked and updated without awaiting in
+// between, so concurrent joins can never overfill a room.
+const rooms = new Map<string, Set<string>>();
+
+io.on('connection', (socket) => {
+  let currentRoom: string | null = null;
+
+  const leaveRoom = () => {
+    if (currentRoom) {
+      const members = rooms.get(currentRoom);
+      members?.delete(socket.id);
+      if (members?.size === 0) {
+        rooms.delete(currentRoom);
+      }
+      socket.to(currentRoom).emit('peer-left');
+      socket.leave(currentRoom);
+      currentRoom = null;
+    }
+  };
+
+  socket.on('join', async (roomId: unknown, ack?: (result: JoinAck) => void) => {
+    const reply = typeof ack === 'function' ? ack : () => {};
+
+    if (typeof roomId !== 'string' || !ROOM_ID_PATTERN.test(roomId)) {
+      reply({ ok: false, peers: 0, error: 'invalid-room' });
+      return;
+    }
+
+    const taken = rooms.get(roomId)?.size ?? 0;
+    if (taken >= MAX_ROOM_SIZE) {
+      reply({ ok: false, peers: taken, error: 'room-full' });
+      return;
+    }
+
+    leaveRoom();
+    const members = rooms.get(roomId) ?? new Set<string>();
+    const peers = members.size;
+    rooms.set(roomId, members.add(socket.id));
+    currentRoom = roomId;
+    await socket.join(roomId);
+
+    socket.to(roomId).emit('peer-joined');
+    reply({ ok: true, peers });
+  });
+
+  socket.on('frame', (payload: unknown) => {
+    if (!currentRoom || typeof payload !== 'string' || payload.length > MAX_FRAME_SIZE) {
+      return;
+    }
+    socket.to(currentRoom).emit('frame', payload);
+  });
+
+  socket.on('leave', leaveRoom);
+  socket.on('disconnect', leaveRoom);
+});
+
+httpServer.listen(PORT, () => {
+  console.log(`Cipher relay listening on port ${PORT}`);
+});
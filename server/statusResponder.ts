@@ -0,0 +1,114 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { StatusRegistration, StatusResponderService, StatusResponderStorage } from '../src/status/responderService';
+
+/**
+ * Certificate status responder server for Cipher Chat.
+ *
+ * CAs register a certificate delegating status signing to this server's
+ * key, along with their signed revocation list, and publish newer lists
+ * as they revoke. Clients ask for the signed status of one certificate at
+ * a time instead of fetching whole lists. Everything stored is public;
+ * the only secret is the response signing key.
+ */
+
+const PORT = Number(process.env.STATUS_RESPONDER_PORT || 3003);
+const CORS_ORIGIN = process.env.STATUS_RESPONDER_CORS_ORIGIN || '*';
+const DATA_FILE = process.env.STATUS_RESPONDER_FILE; // Kept in memory only when unset
+const MAX_BODY_SIZE = 256 * 1024; // Revocation lists grow with every revocation
+
+interface StoredResponder {
+  key: JsonWebKey | null;
+  registrations: Record<string, StatusRegistration>;
+}
+
+const stored: StoredResponder = DATA_FILE && existsSync(DATA_FILE)
+  ? JSON.parse(readFileSync(DATA_FILE, 'utf8'))
+  : { key: null, registrations: {} };
+
+// Written to a temporary file first, so a crash never leaves half a file
+const persist = () => {
+  if (!DATA_FILE) return;
+  writeFileSync(`${DATA_FILE}.tmp`, JSON.stringify(stored));
+  renameSync(`${DATA_FILE}.tmp`, DATA_FILE);
+};
+
+const storage: StatusResponderStorage = {
+  loadRegistrations: () => ({ ...stored.registrations }),
+  saveRegistrations: registrations => {
+    stored.registrations = registrations;
+    persist();
+  },
+  loadKey: () => stored.key,
+  saveKey: key => {
+    stored.key = key;
+    persist();
+  }
+};
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => {
+      body += chunk;
+      if (body.length > MAX_BODY_SIZE) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const responder = await StatusResponderService.open(storage);
+
+const httpServer = createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', CORS_ORIGIN);
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const url = new URL(req.url || '/', 'http://localhost');
+  const route = `${req.method} ${url.pathname}`;
+  try {
+    switch (route) {
+      case 'GET /key':
+        send(res, 200, { publicKey: await responder.publicKey() });
+        return;
+      case 'POST /register': {
+        const { ca, delegation, crl } = JSON.parse(await readBody(req));
+        await responder.register(ca, delegation, crl);
+        send(res, 200, { registered: true });
+        return;
+      }
+      case 'POST /crl':
+        await responder.publishRevocationList(JSON.parse(await readBody(req)));
+        send(res, 200, { published: true });
+        return;
+      case 'GET /status':
+        send(res, 200, await responder.status(
+          url.searchParams.get('issuer') ?? '',
+          url.searchParams.get('certificateId') ?? '',
+          url.searchParams.get('fingerprint') ?? ''
+        ));
+        return;
+      default:
+        send(res, 404, { error: 'not-found' });
+    }
+  } catch (error) {
+    send(res, 400, { error: error instanceof Error ? error.message : 'bad-request' });
+  }
+});
+
+httpServer.listen(PORT, () => {
+  console.log(`Cipher status responder listening on port ${PORT}`);
+});
@@ -0,0 +1,134 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { TransparencyLogService, TransparencyLogStorage } from '../src/transparency/logService';
+import type { TransparencyLogEntry } from '../src/types';
+
+/**
+ * Key transparency log server for Cipher Chat.
+ *
+ * Clients publish the certificates their CA issues and fetch signed tree
+ * heads with inclusion and consistency proofs. Only certificates issued by
+ * the CAs in TRANSPARENCY_LOG_CA_FILE are logged. Entries are public by
+ * design; the log holds no secrets besides its tree head signing key.
+ */
+
+const PORT = Number(process.env.TRANSPARENCY_LOG_PORT || 3002);
+const CORS_ORIGIN = process.env.TRANSPARENCY_LOG_CORS_ORIGIN || '*';
+const DATA_FILE = process.env.TRANSPARENCY_LOG_FILE; // Kept in memory only when unset
+const CA_FILE = process.env.TRANSPARENCY_LOG_CA_FILE; // PEM certificates of the accepted CAs
+const MAX_BODY_SIZE = 64 * 1024;
+
+interface StoredLog {
+  key: JsonWebKey | null;
+  entries: TransparencyLogEntry[];
+}
+
+const stored: StoredLog = DATA_FILE && existsSync(DATA_FILE)
+  ? JSON.parse(readFileSync(DATA_FILE, 'utf8'))
+  : { key: null, entries: [] };
+
+// Written to a temporary file first, so a crash never leaves half a log
+const persist = () => {
+  if (!DATA_FILE) return;
+  writeFileSync(`${DATA_FILE}.tmp`, JSON.stringify(stored));
+  renameSync(`${DATA_FILE}.tmp`, DATA_FILE);
+};
+
+const storage: TransparencyLogStorage = {
+  loadEntries: () => stored.entries,
+  saveEntries: entries => {
+    stored.entries = entries;
+    persist();
+  },
+  loadKey: () => stored.key,
+  saveKey: key => {
+    stored.key = key;
+    persist();
+  }
+};
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => {
+      body += chunk;
+      if (body.length > MAX_BODY_SIZE) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const parseSize = (value: string | null): number => {
+  const size = Number(value);
+  if (!Number.isInteger(size) || size < 0) {
+    throw new RangeError(`Invalid tree size: ${value}`);
+  }
+  return size;
+};
+
+if (!CA_FILE) {
+  console.error('Set TRANSPARENCY_LOG_CA_FILE to a PEM file of the CA certificates whose certificates this log accepts');
+  process.exit(1);
+}
+const issuers = await TransparencyLogService.issuersFromPem(readFileSync(CA_FILE, 'utf8'));
+const log = await TransparencyLogService.open(storage, issuers);
+
+const httpServer = createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', CORS_ORIGIN);
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const url = new URL(req.url || '/', 'http://localhost');
+  const route = `${req.method} ${url.pathname}`;
+  try {
+    switch (route) {
+      case 'GET /key':
+        send(res, 200, { publicKey: await log.publicKey() });
+        return;
+      case 'GET /sth':
+        send(res, 200, await log.treeHead());
+        return;
+      case 'POST /entries':
+        send(res, 200, await log.publish(JSON.parse(await readBody(req))));
+        return;
+      case 'GET /entries':
+        send(res, 200, await log.entriesFor(url.searchParams.get('subject') ?? ''));
+        return;
+      case 'GET /proof/inclusion': {
+        const proof = await log.proveInclusion(
+          url.searchParams.get('leafHash') ?? '',
+          parseSize(url.searchParams.get('treeSize'))
+        );
+        send(res, proof ? 200 : 404, proof ?? { error: 'not-found' });
+        return;
+      }
+      case 'GET /proof/consistency':
+        send(res, 200, await log.proveConsistency(
+          parseSize(url.searchParams.get('first')),
+          parseSize(url.searchParams.get('second'))
+        ));
+        return;
+      default:
+        send(res, 404, { error: 'not-found' });
+    }
+  } catch (error) {
+    send(res, 400, { error: error instanceof Error ? error.message : 'bad-request' });
+  }
+});
+
+httpServer.listen(PORT, () => {
+  console.log(`Cipher transparency log listening on port ${PORT}, accepting ${issuers.map(ca => ca.id).join(', ')}`);
+});
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { Split } from 'lucide-react';
+import Button from './ui/Button';
+import { CaKeyShares } from '../utils/caKeyShares';
+import { useCrypto } from '../context/CryptoContext';
+
+const CaKeyCeremonyForm: React.FC = () => {
+  const { startCAKeyCeremony } = useCrypto();
+  const [threshold, setThreshold] = useState(2);
+  const [total, setTotal] = useState(3);
+  const [isRunning, setIsRunning] = useState(false);
+  const [status, setStatus] = useState('');
+
+  const handleCeremony = async () => {
+    if (threshold < 2 || threshold > total) {
+      setStatus('Need at least 2 shares, and no more than were created');
+      return;
+    }
+
+    setIsRunning(true);
+    try {
+      const shares = await startCAKeyCeremony(threshold, total);
+      for (const share of shares) {
+        const blob = new Blob([CaKeyShares.serialize(share)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = CaKeyShares.fileName(share);
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+      }
+      setStatus(`${total} share files downloaded. Give each to a different custodian; any ${threshold} rebuild the CA key.`);
+    } catch (error) {
+      console.error('CA key ceremony failed:', error);
+      setStatus(error instanceof Error ? error.message : 'CA key ceremony failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm">
+        <input
+          type="number"
+          min={2}
+          max={total}
+          value={threshold}
+          onChange={(e) => setThreshold(Number(e.target.value))}
+          className="w-16 p-2 bg-gray-900/50 rounded-lg border border-gray-600 text-white text-sm focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+        />
+        <span className="text-gray-400">of</span>
+        <input
+          type="number"
+          min={2}
+          max={CaKeyShares.maxShares}
+          value={total}
+          onChange={(e) => setTotal(Number(e.target.value))}
+          className="w-16 p-2 bg-gray-900/50 rounded-lg border border-gray-600 text-white text-sm focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+        />
+        <span className="text-gray-400">shares rebuild the key</span>
+      </div>
+      <Button onClick={handleCeremony} isLoading={isRunning} variant="secondary" size="sm" className="w-full">
+        <Split className="w-4 h-4 mr-2" />
+        Create CA with split key
+      </Button>
+      {status && <p className="text-xs text-gray-400 text-center">{status}</p>}
+    </div>
+  );
+};
+
+export default CaKeyCeremonyForm;
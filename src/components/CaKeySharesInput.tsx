@@ -0,0 +1,40 @@
+import React, { useRef } from 'react';
+import { KeyRound } from 'lucide-react';
+import Button from './ui/Button';
+
+interface CaKeySharesInputProps {
+  shares: string[];
+  onChange: (shares: string[]) => void;
+}
+
+// Picks the share files needed to rebuild an offline CA key
+const CaKeySharesInput: React.FC<CaKeySharesInputProps> = ({ shares, onChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    onChange(await Promise.all(files.map(file => file.text())));
+    e.target.value = '';
+  };
+
+  return (
+    <>
+      <input
+        type="file"
+        accept=".json"
+        multiple
+        ref={fileInputRef}
+        onChange={handleChange}
+        className="hidden"
+      />
+      <Button onClick={() => fileInputRef.current?.click()} variant="secondary" size="sm" className="w-full">
+        <KeyRound className="w-4 h-4 mr-2" />
+        {shares.length > 0
+          ? `${shares.length} CA key share${shares.length === 1 ? '' : 's'} chosen`
+          : 'Choose CA key share files'}
+      </Button>
+    </>
+  );
+};
+
+export default CaKeySharesInput;
@@ -0,0 +1,18 @@
+import React from 'react';
+import { Certificate } from '../types';
+
+interface CertificateAttributesProps {
+  certificate: Certificate;
+  className?: string;
+}
+
+// Display name, role and organization from a certificate's signed extensions
+const CertificateAttributes: React.FC<CertificateAttributesProps> = ({ certificate, className = '' }) => {
+  const { displayName, role, organization } = certificate.extensions ?? {};
+  const parts = [displayName, role, organization].filter(Boolean);
+  if (parts.length === 0) return null;
+
+  return <span className={className}>{parts.join(' · ')}</span>;
+};
+
+export default CertificateAttributes;
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { BadgeCheck } from 'lucide-react';
+import Button from './ui/Button';
+import CaKeySharesInput from './CaKeySharesInput';
+import { CertificateManager } from '../utils/certificates';
+import { useCrypto } from '../context/CryptoContext';
+
+const CertificateExtensionsForm: React.FC = () => {
+  const { certificate, caKeyOffline, updateCertificateExtensions } = useCrypto();
+  const extensions = certificate?.extensions;
+  const [displayName, setDisplayName] = useState(extensions?.displayName ?? '');
+  const [organization, setOrganization] = useState(extensions?.organization ?? '');
+  const [role, setRole] = useState(extensions?.role ?? '');
+  const [allowDocuments, setAllowDocuments] = useState(
+    !certificate || CertificateManager.allowsKeyUsage(certificate, 'document-signing')
+  );
+  const [shares, setShares] = useState<string[]>([]);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [status, setStatus] = useState('');
+
+  const handleUpdate = async () => {
+    setIsUpdating(true);
+    try {
+      await updateCertificateExtensions(
+        {
+          // The identity key always signs the chat; documents are optional
+          keyUsage: allowDocuments ? ['chat-signing', 'document-signing'] : ['chat-signing'],
+          displayName,
+          organization,
+          role
+        },
+        caKeyOffline ? shares : undefined
+      );
+      setStatus('Certificate reissued with these details. Peers see them with your next message.');
+      setShares([]);
+    } catch (error) {
+      console.error('Failed to update certificate details:', error);
+      setStatus(error instanceof Error ? error.message : 'Failed to update certificate details');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const inputClassName = 'w-full p-3 bg-gray-900/50 rounded-lg border border-gray-600 text-white text-sm placeholder-gray-400 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500';
+
+  return (
+    <div className="space-y-3">
+      <input
+        type="text"
+        value={displayName}
+        onChange={(e) => setDisplayName(e.target.value)}
+        placeholder="Display name (optional)"
+        className={inputClassName}
+      />
+      <input
+        type="text"
+        value={organization}
+        onChange={(e) => setOrganization(e.target.value)}
+        placeholder="Organization (optional)"
+        className={inputClassName}
+      />
+      <input
+        type="text"
+        value={role}
+        onChange={(e) => setRole(e.target.value)}
+        placeholder="Role, e.g. admin (optional)"
+        className={inputClassName}
+      />
+      <label className="flex items-center text-sm text-gray-300">
+        <input
+          type="checkbox"
+          checked={allowDocuments}
+          onChange={(e) => setAllowDocuments(e.target.checked)}
+          className="mr-2"
+        />
+        Also allow this key to sign documents
+      </label>
+      {caKeyOffline && <CaKeySharesInput shares={shares} onChange={setShares} />}
+      <Button
+        onClick={handleUpdate}
+        isLoading={isUpdating}
+        disabled={caKeyOffline && shares.length === 0}
+        variant="secondary"
+        size="sm"
+        className="w-full"
+      >
+        <BadgeCheck className="w-4 h-4 mr-2" />
+        Reissue certificate
+      </Button>
+      {status && <p className="text-xs text-gray-400 text-center">{status}</p>}
+    </div>
+  );
+};
+
+export default CertificateExtensionsForm;
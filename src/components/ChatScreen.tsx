@@ -1,18 +1,30 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { SendHorizontal, X, Image, Mic, Shield, Key, FileText, Settings } from 'lucide-react';
+import { SendHorizontal, X, Image, Mic, Shield, Key, FileText, Settings, Fingerprint, Download, RefreshCw, History } from 'lucide-react';
 import { useChat } from '../context/ChatContext';
 import { useCrypto } from '../context/CryptoContext';
 import MessageList from './MessageList';
 import DocumentSigner from './DocumentSigner';
+import SafetyNumberScreen from './SafetyNumberScreen';
+import KeyTransparencyAudit from './KeyTransparencyAudit';
+import ShortAuthStringCheck from './ShortAuthStringCheck';
+import CaKeySharesInput from './CaKeySharesInput';
 import Button from './ui/Button';
+import { KeyRotations } from '../utils/keyRotation';
+import { PADDING_POLICY_LABELS } from '../utils/padding';
+import { MESSAGE_AUTH_MODE_LABELS } from '../utils/messageAuth';
+import { CRYPTO_SUITE_LABELS, DEFAULT_CRYPTO_SUITE } from '../utils/cryptoSuites';
+import { KEY_USAGE_LABELS } from '../utils/certificates';
+import { CERTIFICATE_STATUS_LABELS } from '../utils/certificateStatus';
+import CertificateAttributes from './CertificateAttributes';
+import { MessageAuthMode, PaddingPolicy } from '../types';
 
 interface ChatScreenProps {
   onLeave: () => void;
 }
 
 const ChatScreen: React.FC<ChatScreenProps> = ({ onLeave }) => {
-  const { messages, sendMessage, leaveChat, pairingCode, isPaired } = useChat();
-  const { certificate } = useCrypto();
+  const { messages, rejectedMessages, sendMessage, leaveChat, pairingCode, pairingError, isPaired, peerCertificate, peerVerification, peerRevocation, peerTransparency, peerCertificateStatus, shortAuthString, paddingPolicy, setPaddingPolicy, messageAuthMode, setMessageAuthMode } = useChat();
+  const { certificate, exportCertificatePem, renewCertificate, identityProtected, caKeyOffline, sessionSuite } = useCrypto();
   const [messageInput, setMessageInput] = useState('');
   const [isRecording, setIsRecording] = useState(false);
   const [recordingTime, setRecordingTime] = useState(0);
@@ -21,6 +33,13 @@ const ChatScreen: React.FC<ChatScreenProps> = ({ onLeave }) => {
   const [showCode, setShowCode] = useState(false);
   const [showDocumentSigner, setShowDocumentSigner] = useState(false);
   const [showCertInfo, setShowCertInfo] = useState(false);
+  const [showSafetyNumber, setShowSafetyNumber] = useState(false);
+  const [showKeyHistory, setShowKeyHistory] = useState(false);
+  const [showRoomSettings, setShowRoomSettings] = useState(false);
+  const [renewPassphrase, setRenewPassphrase] = useState('');
+  const [isRenewing, setIsRenewing] = useState(false);
+  const [renewStatus, setRenewStatus] = useState<string | null>(null);
+  const [renewShares, setRenewShares] = useState<string[]>([]);
   const mediaRecorder = useRef<MediaRecorder | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const messageEndRef = useRef<HTMLDivElement>(null);
@@ -48,10 +67,52 @@ const ChatScreen: React.FC<ChatScreenProps> = ({ onLeave }) => {
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
+  const downloadCertificatePem = async () => {
+    if (!certificate) return;
+
+    try {
+      const blob = new Blob([await exportCertificatePem(certificate)], { type: 'application/x-pem-file' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${certificate.subject}.pem`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export certificate:', error);
+    }
+  };
+
   const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleString();
   };
 
+  const formatDaysLeft = (timestamp: number) => {
+    const days = Math.floor((timestamp - Date.now()) / (24 * 60 * 60 * 1000));
+    if (days < 0) return 'expired';
+    if (days === 0) return 'today';
+    return days === 1 ? 'in 1 day' : `in ${days} days`;
+  };
+
+  const handleRenew = async () => {
+    setIsRenewing(true);
+    try {
+      await renewCertificate(renewPassphrase || undefined, caKeyOffline ? renewShares : undefined);
+      setRenewStatus(isPaired
+        ? 'Certificate renewed. Your peer was sent the new key, signed by the old one.'
+        : 'Certificate renewed. Peers are sent the new key when you pair.');
+      setRenewPassphrase('');
+      setRenewShares([]);
+    } catch (error) {
+      console.error('Failed to renew certificate:', error);
+      setRenewStatus(error instanceof Error ? error.message : 'Failed to renew certificate');
+    } finally {
+      setIsRenewing(false);
+    }
+  };
+
   const handleSendMessage = async () => {
     if (!messageInput.trim() || !isPaired) return;
     try {
@@ -182,6 +243,44 @@ const ChatScreen: React.FC<ChatScreenProps> = ({ onLeave }) => {
     );
   }
 
+  if (showSafetyNumber) {
+    return (
+      <div className="min-h-screen bg-gray-900">
+        <div className="max-w-4xl mx-auto">
+          <div className="bg-gray-800 p-4 flex items-center justify-between">
+            <h1 className="text-xl font-semibold">Safety Number</h1>
+            <button
+              onClick={() => setShowSafetyNumber(false)}
+              className="p-2 hover:bg-gray-700 rounded-full transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+          <SafetyNumberScreen />
+        </div>
+      </div>
+    );
+  }
+
+  if (showKeyHistory) {
+    return (
+      <div className="min-h-screen bg-gray-900">
+        <div className="max-w-4xl mx-auto">
+          <div className="bg-gray-800 p-4 flex items-center justify-between">
+            <h1 className="text-xl font-semibold">Key Transparency</h1>
+            <button
+              onClick={() => setShowKeyHistory(false)}
+              className="p-2 hover:bg-gray-700 rounded-full transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+          <KeyTransparencyAudit />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="max-w-4xl mx-auto h-screen flex flex-col">
       {/* Header */}
@@ -197,7 +296,7 @@ const ChatScreen: React.FC<ChatScreenProps> = ({ onLeave }) => {
               className="flex items-center space-x-2 px-3 py-1 bg-gray-700 rounded-full text-sm hover:bg-gray-600 transition-colors"
             >
               <Key className="w-4 h-4" />
-              <span>{showCode ? pairingCode : '••••••'}</span>
+              <span>{showCode ? pairingCode : '••••-••••-••••'}</span>
             </button>
           )}
           {certificate && (
@@ -211,6 +310,43 @@ const ChatScreen: React.FC<ChatScreenProps> = ({ onLeave }) => {
           )}
         </div>
         <div className="flex items-center space-x-2">
+          {peerCertificate && (
+            <button
+              onClick={() => setShowSafetyNumber(true)}
+              className="p-2 hover:bg-gray-700 rounded-full transition-colors"
+              title="Verify safety number"
+            >
+              <Fingerprint
+                className={`w-5 h-5 ${
+                  peerVerification === 'verified'
+                    ? 'text-green-400'
+                    : peerVerification === 'changed'
+                      ? 'text-red-500 animate-pulse'
+                      : 'text-gray-400'
+                }`}
+              />
+            </button>
+          )}
+          <button
+            onClick={() => setShowKeyHistory(true)}
+            className="p-2 hover:bg-gray-700 rounded-full transition-colors"
+            title="Key history"
+          >
+            <History
+              className={`w-5 h-5 ${
+                peerTransparency === 'not-logged' || peerTransparency === 'inconsistent'
+                  ? 'text-amber-400'
+                  : 'text-gray-400'
+              }`}
+            />
+          </button>
+          <button
+            onClick={() => setShowRoomSettings(!showRoomSettings)}
+            className="p-2 hover:bg-gray-700 rounded-full transition-colors"
+            title="Room settings"
+          >
+            <Settings className="w-5 h-5 text-gray-400" />
+          </button>
           <button
             onClick={() => setShowDocumentSigner(true)}
             className="p-2 hover:bg-gray-700 rounded-full transition-colors"
@@ -255,22 +391,148 @@ const ChatScreen: React.FC<ChatScreenProps> = ({ onLeave }) => {
             <div>
               <span className="text-gray-400">Expires:</span>
               <span className="ml-2">{formatDate(certificate.expiresAt)}</span>
+              <span className={`ml-2 text-xs ${KeyRotations.needsRenewal(certificate) ? 'text-amber-400' : 'text-gray-500'}`}>
+                ({formatDaysLeft(certificate.expiresAt)})
+              </span>
             </div>
+            <div className="text-xs text-gray-400">
+              {identityProtected
+                ? `Your identity is passphrase-protected, so renew it by hand from ${formatDate(KeyRotations.renewalDate(certificate))}.`
+                : caKeyOffline
+                ? `Your CA key is split into shares, so renew by hand with them from ${formatDate(KeyRotations.renewalDate(certificate))}.`
+                : `Renews automatically with a new key from ${formatDate(KeyRotations.renewalDate(certificate))}.`}
+            </div>
+            {certificate.extensions && (
+              <div>
+                <span className="text-gray-400">Holder:</span>
+                <CertificateAttributes certificate={certificate} className="ml-2" />
+              </div>
+            )}
+            <div>
+              <span className="text-gray-400">Key usage:</span>
+              <span className="ml-2">
+                {certificate.extensions?.keyUsage?.map(usage => KEY_USAGE_LABELS[usage]).join(', ') ?? 'Unrestricted'}
+              </span>
+            </div>
+            <div>
+              <span className="text-gray-400">Algorithms:</span>
+              <span className="ml-2">{CRYPTO_SUITE_LABELS[certificate.suite ?? DEFAULT_CRYPTO_SUITE]}</span>
+            </div>
+            {sessionSuite && (
+              <div>
+                <span className="text-gray-400">Session:</span>
+                <span className="ml-2">{CRYPTO_SUITE_LABELS[sessionSuite]} + ML-KEM-768</span>
+              </div>
+            )}
+            {peerCertificate && peerCertificateStatus && (
+              <div>
+                <span className="text-gray-400">Peer status:</span>
+                <span className={`ml-2 ${peerCertificateStatus === 'revoked' ? 'text-red-400' : ''}`}>
+                  {CERTIFICATE_STATUS_LABELS[peerCertificateStatus]}
+                </span>
+              </div>
+            )}
             <div>
               <span className="text-gray-400">ID:</span>
               <span className="ml-2 font-mono text-xs break-all">{certificate.id}</span>
             </div>
           </div>
+          <button
+            onClick={downloadCertificatePem}
+            className="mt-3 flex items-center text-sm text-indigo-300 hover:text-indigo-200"
+          >
+            <Download className="w-4 h-4 mr-1" />
+            Download as X.509 (PEM)
+          </button>
+          <div className="mt-3 pt-3 border-t border-gray-700 space-y-2">
+            {caKeyOffline && <CaKeySharesInput shares={renewShares} onChange={setRenewShares} />}
+            {identityProtected && (
+              <input
+                type="password"
+                value={renewPassphrase}
+                onChange={(e) => setRenewPassphrase(e.target.value)}
+                placeholder="Current identity passphrase"
+                className="w-full p-2 bg-gray-900/50 rounded-lg border border-gray-600 text-white text-sm placeholder-gray-400 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+              />
+            )}
+            <Button
+              onClick={handleRenew}
+              isLoading={isRenewing}
+              disabled={(identityProtected && !renewPassphrase) || (caKeyOffline && renewShares.length === 0)}
+              variant="secondary"
+              size="sm"
+            >
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Renew now
+            </Button>
+            {renewStatus && <p className="text-xs text-gray-400">{renewStatus}</p>}
+          </div>
+        </div>
+      )}
+
+      {/* Room Settings */}
+      {showRoomSettings && (
+        <div className="absolute top-16 right-4 z-10 w-80 bg-gray-800 border border-gray-700 rounded-lg p-4 shadow-xl">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-semibold flex items-center">
+              <Settings className="w-4 h-4 mr-2" />
+              Room Settings
+            </h3>
+            <button
+              onClick={() => setShowRoomSettings(false)}
+              className="text-gray-400 hover:text-white"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <label className="block text-sm text-gray-400 mb-1">Message padding</label>
+          <select
+            value={paddingPolicy}
+            onChange={(e) => setPaddingPolicy(e.target.value as PaddingPolicy)}
+            className="w-full p-2 bg-gray-900/50 rounded-lg border border-gray-600 text-white text-sm focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+          >
+            {(Object.keys(PADDING_POLICY_LABELS) as PaddingPolicy[]).map(policy => (
+              <option key={policy} value={policy}>
+                {PADDING_POLICY_LABELS[policy]}
+              </option>
+            ))}
+          </select>
+          <p className="mt-2 text-xs text-gray-500">
+            Pads what you send before encryption, so its size only reveals a bucket.
+          </p>
+          <label className="block text-sm text-gray-400 mt-4 mb-1">Message authentication</label>
+          <select
+            value={messageAuthMode}
+            onChange={(e) => setMessageAuthMode(e.target.value as MessageAuthMode)}
+            disabled={isPaired || !!shortAuthString}
+            className="w-full p-2 bg-gray-900/50 rounded-lg border border-gray-600 text-white text-sm focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            {(Object.keys(MESSAGE_AUTH_MODE_LABELS) as MessageAuthMode[]).map(mode => (
+              <option key={mode} value={mode}>
+                {MESSAGE_AUTH_MODE_LABELS[mode]}
+              </option>
+            ))}
+          </select>
+          <p className="mt-2 text-xs text-gray-500">
+            Deniable messages carry a MAC from the session key instead of a signature, so your
+            peer cannot prove to anyone else that you wrote them. The room creator's choice
+            is agreed at pairing and applies to both of you until you leave.
+          </p>
         </div>
       )}
 
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 bg-gray-900">
-        {!isPaired ? (
+        {!isPaired && shortAuthString ? (
+          <ShortAuthStringCheck />
+        ) : !isPaired ? (
           <div className="flex flex-col items-center justify-center h-full text-gray-400">
             <Shield className="w-12 h-12 mb-4 text-gray-500" />
             <p className="text-lg mb-2">Waiting for connection...</p>
             <p className="text-sm">Share your code with someone to start chatting</p>
+            {pairingError && (
+              <p className="mt-4 text-sm text-red-400">{pairingError}</p>
+            )}
             {certificate && (
               <div className="mt-4 text-center">
                 <p className="text-xs text-gray-500">Your digital identity is ready</p>
@@ -279,7 +541,16 @@ const ChatScreen: React.FC<ChatScreenProps> = ({ onLeave }) => {
             )}
           </div>
         ) : (
-          <MessageList messages={messages} />
+          <MessageList
+            messages={messages}
+            rejections={rejectedMessages}
+            peerVerification={peerVerification}
+            peerRevocation={peerRevocation}
+            peerTransparency={peerTransparency}
+            authMode={messageAuthMode}
+            onVerifyPeer={() => setShowSafetyNumber(true)}
+            onAuditPeer={() => setShowKeyHistory(true)}
+          />
         )}
         <div ref={messageEndRef} />
       </div>
@@ -4,6 +4,9 @@ import Button from './ui/Button';
 import { useCrypto } from '../context/CryptoContext';
 import { DigitalSigner } from '../utils/signing';
 import { DocumentSignature } from '../types';
+import { REVOCATION_REASON_LABELS } from '../utils/revocationStore';
+import { CertificateManager, PATH_FAILURE_LABELS } from '../utils/certificates';
+import CertificateAttributes from './CertificateAttributes';
 
 const DocumentSigner: React.FC = () => {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
@@ -91,17 +94,29 @@ const DocumentSigner: React.FC = () => {
         return;
       }
 
-      // Verify certificate
-      const isCertValid = await crypto.verifyCertificate(parsedSignature.certificate);
-      if (!isCertValid) {
-        setError('Invalid or expired certificate');
+      // Verify the certificate chain up to a trust anchor
+      const path = await crypto.validateCertificatePath(parsedSignature.certificate);
+      if (!path.valid) {
+        setError(path.revocation
+          ? `Certificate revoked on ${new Date(path.revocation.revokedAt).toLocaleString()} ` +
+            `(${REVOCATION_REASON_LABELS[path.revocation.reason] ?? path.revocation.reason})`
+          : `Certificate rejected: ${PATH_FAILURE_LABELS[path.reason]}`);
+        setVerificationResult(false);
+        setIsProcessing(false);
+        return;
+      }
+      if (!CertificateManager.allowsKeyUsage(parsedSignature.certificate, 'document-signing')) {
+        setError('Certificate rejected: its key is not for signing documents');
         setVerificationResult(false);
         setIsProcessing(false);
         return;
       }
 
       // Import signer's public key
-      const signerPublicKey = await crypto.importPublicKey(parsedSignature.certificate.publicKey);
+      const signerPublicKey = await crypto.importSigningPublicKey(
+        parsedSignature.certificate.publicKey,
+        parsedSignature.certificate.suite
+      );
 
       // Verify document signature
       const isValid = await DigitalSigner.verifyDocumentSignature(
@@ -122,6 +137,8 @@ const DocumentSigner: React.FC = () => {
     }
   };
 
+  const canSignDocuments = !!crypto.certificate && CertificateManager.allowsKeyUsage(crypto.certificate, 'document-signing');
+
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -166,7 +183,7 @@ const DocumentSigner: React.FC = () => {
               <h3 className="font-semibold text-white mb-2">🔐 Signing Process:</h3>
               <ol className="list-decimal list-inside space-y-2 text-sm">
                 <li><strong>Document Hashing:</strong> SHA-256 hash is computed from the entire document</li>
-                <li><strong>Digital Signing:</strong> Hash is signed with your ECDSA private key (P-256 curve)</li>
+                <li><strong>Digital Signing:</strong> Hash is signed with your Ed25519 or ECDSA (P-256) private key</li>
                 <li><strong>Certificate Attachment:</strong> Your digital certificate is included for identity verification</li>
                 <li><strong>Signature File:</strong> A detached .sig file is created containing the signature and certificate</li>
               </ol>
@@ -178,7 +195,7 @@ const DocumentSigner: React.FC = () => {
                 <li><strong>Certificate Validation:</strong> Verifies the signer's certificate is valid and not expired</li>
                 <li><strong>Document Integrity:</strong> Computes SHA-256 hash of the current document</li>
                 <li><strong>Hash Comparison:</strong> Compares current hash with the signed hash</li>
-                <li><strong>Signature Verification:</strong> Uses signer's public key to verify the ECDSA signature</li>
+                <li><strong>Signature Verification:</strong> Uses signer's public key to verify the signature</li>
               </ol>
             </div>
             
@@ -256,10 +273,16 @@ const DocumentSigner: React.FC = () => {
                 <Key className="w-5 h-5 text-green-400" />
                 <div>
                   <p className="font-medium text-white">Certificate: {crypto.certificate.subject}</p>
+                  <CertificateAttributes certificate={crypto.certificate} className="block text-sm text-gray-300" />
                   <p className="text-sm text-gray-400">
                     Issued: {formatDate(crypto.certificate.issuedAt)} • 
                     Expires: {formatDate(crypto.certificate.expiresAt)}
                   </p>
+                  {!canSignDocuments && (
+                    <p className="text-sm text-amber-400">
+                      This certificate is not for signing documents. Allow it in the identity panel.
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
@@ -267,7 +290,7 @@ const DocumentSigner: React.FC = () => {
 
           <Button
             onClick={signDocument}
-            disabled={!selectedFile || !crypto.certificate || isProcessing}
+            disabled={!selectedFile || !crypto.certificate || !canSignDocuments || isProcessing}
             isLoading={isProcessing}
             className="w-full"
           >
@@ -367,6 +390,7 @@ const DocumentSigner: React.FC = () => {
                 <div className="mt-3 space-y-2 text-sm">
                   <p className="text-gray-300">
                     <strong>Signer:</strong> {documentSignature.certificate.subject}
+                    <CertificateAttributes certificate={documentSignature.certificate} className="ml-2 text-gray-400" />
                   </p>
                   <p className="text-gray-300">
                     <strong>Signed:</strong> {formatDate(documentSignature.timestamp)}
@@ -0,0 +1,49 @@
+import React from 'react';
+
+interface IdenticonProps {
+  seed: Uint8Array; // At least 16 bytes, e.g. a SHA-256 digest
+  size?: number;
+}
+
+const GRID = 5;
+
+/**
+ * Symmetric 5x5 identicon derived from a hash, so two people can compare
+ * a picture instead of reading out digits
+ */
+const Identicon: React.FC<IdenticonProps> = ({ seed, size = 96 }) => {
+  const hue = ((seed[0] << 8) | seed[1]) % 360;
+  const color = `hsl(${hue}, 65%, 55%)`;
+  const cell = size / GRID;
+
+  // Left three columns come from the hash; the right two mirror them
+  const cells: { x: number; y: number }[] = [];
+  for (let y = 0; y < GRID; y++) {
+    for (let x = 0; x < Math.ceil(GRID / 2); x++) {
+      const bit = seed[2 + y * 3 + x] & 1;
+      if (bit) {
+        cells.push({ x, y });
+        if (x !== GRID - 1 - x) {
+          cells.push({ x: GRID - 1 - x, y });
+        }
+      }
+    }
+  }
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${size} ${size}`}
+      className="rounded-lg bg-gray-900"
+      role="img"
+      aria-label="Safety number identicon"
+    >
+      {cells.map(({ x, y }) => (
+        <rect key={`${x}-${y}`} x={x * cell} y={y * cell} width={cell} height={cell} fill={color} />
+      ))}
+    </svg>
+  );
+};
+
+export default Identicon;
@@ -0,0 +1,307 @@
+import React, { useState } from 'react';
+import { HardDrive, EyeOff, ChevronDown, ChevronUp, Trash2, Download, ShieldOff } from 'lucide-react';
+import Button from './ui/Button';
+import RestoreBackupForm from './RestoreBackupForm';
+import CaKeyCeremonyForm from './CaKeyCeremonyForm';
+import CaKeySharesInput from './CaKeySharesInput';
+import CertificateExtensionsForm from './CertificateExtensionsForm';
+import { IdentityBackup } from '../utils/identityBackup';
+import { REVOCATION_REASON_LABELS } from '../utils/revocationStore';
+import { useCrypto } from '../context/CryptoContext';
+import { RevocationReason } from '../types';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const IdentityPanel: React.FC = () => {
+  const {
+    certificate,
+    identityMode,
+    identityProtected,
+    saveIdentity,
+    forgetIdentity,
+    exportIdentityBackup,
+    revokeCertificate,
+    caKeyOffline
+  } = useCrypto();
+  const [isOpen, setIsOpen] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState('');
+  const [backupPassword, setBackupPassword] = useState('');
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [backupStatus, setBackupStatus] = useState('');
+  const [revocationReason, setRevocationReason] = useState<RevocationReason>('superseded');
+  const [revokePassphrase, setRevokePassphrase] = useState('');
+  const [isRevoking, setIsRevoking] = useState(false);
+  const [revokeStatus, setRevokeStatus] = useState('');
+  const [revokeShares, setRevokeShares] = useState<string[]>([]);
+
+  const handleSave = async () => {
+    if (passphrase && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setStatus(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setStatus('Passphrases do not match');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveIdentity(passphrase || undefined);
+      setStatus(passphrase ? 'Identity saved and protected by your passphrase' : 'Identity saved on this device');
+      setPassphrase('');
+      setConfirmPassphrase('');
+    } catch (error) {
+      console.error('Failed to save identity:', error);
+      setStatus('Failed to save identity');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleForget = async () => {
+    try {
+      await forgetIdentity();
+      setStatus('Stored identity deleted. You will get a new identity next time.');
+    } catch (error) {
+      console.error('Failed to forget identity:', error);
+      setStatus('Failed to delete stored identity');
+    }
+  };
+
+  const handleExportBackup = async () => {
+    if (backupPassword.length < MIN_PASSPHRASE_LENGTH) {
+      setBackupStatus(`Backup password must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const backup = await exportIdentityBackup(backupPassword, currentPassphrase || undefined);
+      const blob = new Blob([backup], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = IdentityBackup.fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      setBackupStatus('Backup downloaded. Keep the file and its password safe.');
+      setBackupPassword('');
+      setCurrentPassphrase('');
+    } catch (error) {
+      console.error('Failed to export identity backup:', error);
+      setBackupStatus(error instanceof Error ? error.message : 'Failed to export backup');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    setIsRevoking(true);
+    try {
+      await revokeCertificate(revocationReason, revokePassphrase || undefined, caKeyOffline ? revokeShares : undefined);
+      setRevokeStatus('Certificate revoked and replaced with a new key. Peers learn of it when you pair.');
+      setRevokePassphrase('');
+      setRevokeShares([]);
+    } catch (error) {
+      console.error('Failed to revoke certificate:', error);
+      setRevokeStatus(error instanceof Error ? error.message : 'Failed to revoke certificate');
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
+  const isPersistent = identityMode === 'persistent';
+  // Keys saved without a passphrase are non-extractable and cannot be backed up
+  const canExportBackup = !isPersistent || identityProtected;
+
+  return (
+    <div className="bg-gray-800/30 backdrop-blur-sm rounded-xl p-6 border border-gray-700">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-lg font-semibold"
+      >
+        <span className="flex items-center">
+          {isPersistent ? (
+            <HardDrive className="w-5 h-5 mr-2 text-green-400" />
+          ) : (
+            <EyeOff className="w-5 h-5 mr-2 text-gray-400" />
+          )}
+          {isPersistent ? 'Saved Identity' : 'Anonymous Mode'}
+        </span>
+        {isOpen ? <ChevronUp className="w-5 h-5" /> : <ChevronDown className="w-5 h-5" />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-3">
+          {isPersistent ? (
+            <>
+              <p className="text-sm text-gray-400">
+                Your keys and certificate are stored on this device, so peers recognize you
+                across sessions.
+              </p>
+              <Button onClick={handleForget} variant="danger" size="sm" className="w-full">
+                <Trash2 className="w-4 h-4 mr-2" />
+                Forget identity on this device
+              </Button>
+            </>
+          ) : (
+            <>
+              <p className="text-sm text-gray-400">
+                Your identity is discarded when you leave or reload. Save it to keep the same keys
+                and certificate on this device.
+              </p>
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder="Passphrase (optional)"
+                className="w-full p-3 bg-gray-900/50 rounded-lg border border-gray-600 text-white text-sm placeholder-gray-400 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+              />
+              {passphrase && (
+                <input
+                  type="password"
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  placeholder="Confirm passphrase"
+                  className="w-full p-3 bg-gray-900/50 rounded-lg border border-gray-600 text-white text-sm placeholder-gray-400 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+                />
+              )}
+              <Button onClick={handleSave} isLoading={isSaving} size="sm" className="w-full">
+                <HardDrive className="w-4 h-4 mr-2" />
+                Save identity on this device
+              </Button>
+            </>
+          )}
+
+          {status && <p className="text-xs text-gray-400 text-center">{status}</p>}
+
+          <div className="border-t border-gray-700 pt-3 space-y-3">
+            <h4 className="text-sm font-semibold">Backup</h4>
+            {canExportBackup ? (
+              <>
+                {isPersistent && (
+                  <input
+                    type="password"
+                    value={currentPassphrase}
+                    onChange={(e) => setCurrentPassphrase(e.target.value)}
+                    placeholder="Current identity passphrase"
+                    className="w-full p-3 bg-gray-900/50 rounded-lg border border-gray-600 text-white text-sm placeholder-gray-400 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+                  />
+                )}
+                <input
+                  type="password"
+                  value={backupPassword}
+                  onChange={(e) => setBackupPassword(e.target.value)}
+                  placeholder="Backup password"
+                  className="w-full p-3 bg-gray-900/50 rounded-lg border border-gray-600 text-white text-sm placeholder-gray-400 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+                />
+                <Button
+                  onClick={handleExportBackup}
+                  isLoading={isExporting}
+                  disabled={!backupPassword || (isPersistent && !currentPassphrase)}
+                  variant="secondary"
+                  size="sm"
+                  className="w-full"
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  Export encrypted backup
+                </Button>
+              </>
+            ) : (
+              <p className="text-xs text-gray-400">
+                This identity was saved without a passphrase, so its keys cannot leave this browser.
+              </p>
+            )}
+            {backupStatus && <p className="text-xs text-gray-400 text-center">{backupStatus}</p>}
+
+            <h4 className="text-sm font-semibold pt-2">Restore from backup</h4>
+            <RestoreBackupForm />
+          </div>
+
+          {certificate && (
+            <div className="border-t border-gray-700 pt-3 space-y-3">
+              <h4 className="text-sm font-semibold">Certificate details</h4>
+              <p className="text-xs text-gray-400">
+                Your CA signs these into your certificate, so peers can see who you are and
+                what your key may be used for.
+              </p>
+              <CertificateExtensionsForm />
+            </div>
+          )}
+
+          {certificate && !isPersistent && (
+            <div className="border-t border-gray-700 pt-3 space-y-3">
+              <h4 className="text-sm font-semibold">CA key ceremony</h4>
+              {caKeyOffline ? (
+                <p className="text-xs text-gray-400">
+                  Your CA key only exists as share files. Issuing or revoking a certificate
+                  needs enough of them to rebuild it for that one operation.
+                </p>
+              ) : (
+                <>
+                  <p className="text-xs text-gray-400">
+                    Move to a new CA whose key is split into share files for separate custodians
+                    and never kept whole on this device.
+                  </p>
+                  <CaKeyCeremonyForm />
+                </>
+              )}
+            </div>
+          )}
+
+          {certificate && (
+            <div className="border-t border-gray-700 pt-3 space-y-3">
+              <h4 className="text-sm font-semibold">Revoke certificate</h4>
+              <p className="text-xs text-gray-400">
+                Your CA adds the certificate to its signed revocation list and issues a new one
+                with a fresh signing key.
+              </p>
+              <select
+                value={revocationReason}
+                onChange={(e) => setRevocationReason(e.target.value as RevocationReason)}
+                className="w-full p-3 bg-gray-900/50 rounded-lg border border-gray-600 text-white text-sm focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+              >
+                {(Object.keys(REVOCATION_REASON_LABELS) as RevocationReason[]).map(reason => (
+                  <option key={reason} value={reason}>
+                    {REVOCATION_REASON_LABELS[reason]}
+                  </option>
+                ))}
+              </select>
+              {caKeyOffline && <CaKeySharesInput shares={revokeShares} onChange={setRevokeShares} />}
+              {isPersistent && identityProtected && (
+                <input
+                  type="password"
+                  value={revokePassphrase}
+                  onChange={(e) => setRevokePassphrase(e.target.value)}
+                  placeholder="Current identity passphrase"
+                  className="w-full p-3 bg-gray-900/50 rounded-lg border border-gray-600 text-white text-sm placeholder-gray-400 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+                />
+              )}
+              <Button
+                onClick={handleRevoke}
+                isLoading={isRevoking}
+                disabled={(isPersistent && identityProtected && !revokePassphrase) || (caKeyOffline && revokeShares.length === 0)}
+                variant="danger"
+                size="sm"
+                className="w-full"
+              >
+                <ShieldOff className="w-4 h-4 mr-2" />
+                Revoke and replace certificate
+              </Button>
+              {revokeStatus && <p className="text-xs text-gray-400 text-center">{revokeStatus}</p>}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IdentityPanel;
@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { History, Search, AlertTriangle } from 'lucide-react';
+import Button from './ui/Button';
+import { useChat } from '../context/ChatContext';
+import { useCrypto } from '../context/CryptoContext';
+import { KeyTransparency, TRANSPARENCY_STATUS_LABELS } from '../utils/keyTransparency';
+import { TransparencyLogEntry } from '../types';
+
+const KeyTransparencyAudit: React.FC = () => {
+  const { peerCertificate, peerTransparency } = useChat();
+  const { certificate } = useCrypto();
+  const [subjectInput, setSubjectInput] = useState(peerCertificate?.subject ?? certificate?.subject ?? '');
+  const [subject, setSubject] = useState(subjectInput);
+  const [entries, setEntries] = useState<TransparencyLogEntry[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!subject) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError('');
+    KeyTransparency.getInstance().history(subject)
+      .then(result => {
+        if (!cancelled) setEntries(result);
+      })
+      .catch(err => {
+        console.error('Failed to load transparency log history:', err);
+        if (!cancelled) {
+          setEntries(null);
+          setError(err instanceof Error ? err.message : 'Failed to reach the transparency log');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [subject]);
+
+  const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+  const keyLabel = (entry: TransparencyLogEntry): string | null => {
+    if (certificate && entry.certificate.publicKey === certificate.publicKey) return 'Your current key';
+    if (peerCertificate && entry.certificate.publicKey === peerCertificate.publicKey) return "Peer's current key";
+    return null;
+  };
+
+  return (
+    <div className="max-w-xl mx-auto p-6 space-y-6">
+      <div className="text-center">
+        <div className="w-16 h-16 bg-indigo-600 rounded-full flex items-center justify-center mx-auto mb-4">
+          <History className="w-8 h-8 text-white" />
+        </div>
+        <h1 className="text-2xl font-bold text-white mb-2">Key History</h1>
+        <p className="text-gray-400 text-sm">
+          Every certificate published to the transparency log for a name. If a key you did not
+          create appears under your own name, someone may be impersonating you.
+        </p>
+      </div>
+
+      {peerTransparency && peerTransparency !== 'logged' && peerCertificate && (
+        <div className="bg-amber-900/40 border border-amber-600 rounded-lg p-4 flex items-start space-x-3">
+          <AlertTriangle className="w-5 h-5 text-amber-400 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-amber-200">
+            The certificate {peerCertificate.subject} presented is {TRANSPARENCY_STATUS_LABELS[peerTransparency]}.
+          </p>
+        </div>
+      )}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          setSubject(subjectInput.trim());
+        }}
+        className="flex space-x-2"
+      >
+        <input
+          type="text"
+          value={subjectInput}
+          onChange={(e) => setSubjectInput(e.target.value)}
+          placeholder="Username"
+          className="flex-1 p-2 bg-gray-900/50 rounded-lg border border-gray-600 text-white text-sm placeholder-gray-400 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+        />
+        <Button type="submit" isLoading={isLoading} disabled={!subjectInput.trim()} size="sm">
+          <Search className="w-4 h-4 mr-2" />
+          Look up
+        </Button>
+      </form>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {entries && (
+        entries.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center">No certificates logged for {subject}.</p>
+        ) : (
+          <ul className="space-y-3">
+            {entries.map(entry => {
+              const label = keyLabel(entry);
+              return (
+                <li key={entry.index} className="bg-gray-800 rounded-lg p-4 text-sm space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span className="text-gray-400">Entry #{entry.index}</span>
+                    {label && (
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-indigo-700 text-indigo-100">{label}</span>
+                    )}
+                  </div>
+                  <div className="font-mono text-xs text-gray-300 break-all">{entry.certificate.publicKey}</div>
+                  <div className="text-xs text-gray-500">
+                    Issued by {entry.certificate.issuer} on {formatDate(entry.certificate.issuedAt)}, logged {formatDate(entry.loggedAt)}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )
+      )}
+    </div>
+  );
+};
+
+export default KeyTransparencyAudit;
@@ -1,28 +1,60 @@
 import React from 'react';
-import { Message } from '../types';
-import { Lock, AlertTriangle, CheckCircle, XCircle, Shield } from 'lucide-react';
+import { Message, MessageAuthMode, MessageRejection, MessageRejectionReason, PeerVerificationStatus, RevokedCertificate, TransparencyStatus } from '../types';
+import { REVOCATION_REASON_LABELS } from '../utils/revocationStore';
+import { TRANSPARENCY_STATUS_LABELS } from '../utils/keyTransparency';
+import { MESSAGE_AUTH_MODE_LABELS } from '../utils/messageAuth';
+import { Lock, AlertTriangle, CheckCircle, XCircle, Shield, ShieldAlert, PenLine, VenetianMask } from 'lucide-react';
+import CertificateAttributes from './CertificateAttributes';
+
+const REJECTION_LABELS: Record<MessageRejectionReason, string> = {
+  malformed: 'malformed message envelope',
+  'wrong-room': 'signed for a different room',
+  'wrong-sender': 'sender does not match its certificate',
+  'content-mismatch': 'content does not match its signed hash',
+  duplicate: 'duplicate message',
+  replay: 'replayed old message',
+  'clock-skew': "timestamp too far from this device's clock",
+  'wrong-auth-mode': 'not authenticated the way this room agreed'
+};
+
+type TimelineItem =
+  | { kind: 'message'; timestamp: number; message: Message }
+  | { kind: 'rejection'; timestamp: number; rejection: MessageRejection };
 
 interface MessageListProps {
   messages: Message[];
+  rejections?: MessageRejection[];
+  peerVerification?: PeerVerificationStatus;
+  peerRevocation?: RevokedCertificate | null;
+  peerTransparency?: TransparencyStatus | null;
+  authMode?: MessageAuthMode; // How messages in this room are authenticated, both ways
+  onVerifyPeer?: () => void;
+  onAuditPeer?: () => void;
 }
 
-const MessageList: React.FC<MessageListProps> = ({ messages }) => {
+const MessageList: React.FC<MessageListProps> = ({ messages, rejections = [], peerVerification, peerRevocation, peerTransparency, authMode, onVerifyPeer, onAuditPeer }) => {
   // Format timestamp
   const formatTime = (timestamp: number) => {
     const date = new Date(timestamp);
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
   
+  // Rejected messages are shown where they arrived, between the others
+  const timeline: TimelineItem[] = [
+    ...messages.map(message => ({ kind: 'message' as const, timestamp: message.timestamp, message })),
+    ...rejections.map(rejection => ({ kind: 'rejection' as const, timestamp: rejection.timestamp, rejection }))
+  ].sort((a, b) => a.timestamp - b.timestamp);
+
   // Group messages by day
-  const groupedMessages = messages.reduce<{ date: string; messages: Message[] }[]>((groups, message) => {
-    const date = new Date(message.timestamp).toLocaleDateString();
+  const groupedMessages = timeline.reduce<{ date: string; items: TimelineItem[] }[]>((groups, item) => {
+    const date = new Date(item.timestamp).toLocaleDateString();
     
     // Find existing group or create new one
     const group = groups.find(g => g.date === date);
     if (group) {
-      group.messages.push(message);
+      group.items.push(item);
     } else {
-      groups.push({ date, messages: [message] });
+      groups.push({ date, items: [item] });
     }
     
     return groups;
@@ -30,6 +62,77 @@ const MessageList: React.FC<MessageListProps> = ({ messages }) => {
   
   return (
     <div className="space-y-6">
+      {/* Message authentication mode for this room */}
+      {authMode && (
+        <div className="flex items-center justify-center space-x-2 text-xs text-gray-400">
+          {authMode === 'deniable' ? (
+            <VenetianMask className="w-4 h-4 text-indigo-300" />
+          ) : (
+            <PenLine className="w-4 h-4" />
+          )}
+          <span>{MESSAGE_AUTH_MODE_LABELS[authMode]}</span>
+        </div>
+      )}
+
+      {/* Identity key change warning */}
+      {peerVerification === 'changed' && (
+        <div className="bg-red-900/60 border-2 border-red-500 rounded-lg p-4 flex items-start space-x-3">
+          <AlertTriangle className="w-6 h-6 text-red-400 flex-shrink-0" />
+          <div className="flex-1">
+            <p className="font-semibold text-red-200">Safety number changed</p>
+            <p className="text-sm text-red-300">
+              Your peer's identity key is not the one you verified. Someone may be intercepting
+              this conversation. Verify the new safety number before sharing anything sensitive.
+            </p>
+            {onVerifyPeer && (
+              <button
+                onClick={onVerifyPeer}
+                className="mt-2 text-sm font-medium text-white underline hover:text-red-100"
+              >
+                Compare safety numbers
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Peer certificate revoked by its issuer */}
+      {peerRevocation && (
+        <div className="bg-red-900/60 border-2 border-red-500 rounded-lg p-4 flex items-start space-x-3">
+          <ShieldAlert className="w-6 h-6 text-red-400 flex-shrink-0" />
+          <div className="flex-1">
+            <p className="font-semibold text-red-200">Peer certificate revoked</p>
+            <p className="text-sm text-red-300">
+              Its issuer revoked it on {new Date(peerRevocation.revokedAt).toLocaleString()}
+              {' '}({REVOCATION_REASON_LABELS[peerRevocation.reason] ?? peerRevocation.reason}).
+              Messages signed with it can no longer be verified.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Peer certificate missing from the transparency log */}
+      {(peerTransparency === 'not-logged' || peerTransparency === 'inconsistent') && (
+        <div className="bg-amber-900/40 border border-amber-600 rounded-lg p-4 flex items-start space-x-3">
+          <AlertTriangle className="w-6 h-6 text-amber-400 flex-shrink-0" />
+          <div className="flex-1">
+            <p className="font-semibold text-amber-200">Peer certificate not on record</p>
+            <p className="text-sm text-amber-300">
+              Your peer's certificate is {TRANSPARENCY_STATUS_LABELS[peerTransparency]}. It may have
+              been substituted on the way; compare safety numbers before trusting it.
+            </p>
+            {onAuditPeer && (
+              <button
+                onClick={onAuditPeer}
+                className="mt-2 text-sm font-medium text-white underline hover:text-amber-100"
+              >
+                Review key history
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
       {groupedMessages.map((group) => (
         <div key={group.date}>
           <div className="flex justify-center mb-4">
@@ -39,103 +142,133 @@ const MessageList: React.FC<MessageListProps> = ({ messages }) => {
           </div>
           
           <div className="space-y-3">
-            {group.messages.map((message) => (
-              <div
-                key={message.id}
-                className={`flex ${message.sender === 'self' ? 'justify-end' : 'justify-start'}`}
-              >
+            {group.items.map((item) => {
+              if (item.kind === 'rejection') {
+                return (
+                  <div key={item.rejection.id} className="flex justify-center">
+                    <div className="flex items-center space-x-2 bg-red-900/40 border border-red-700 text-red-300 text-xs px-3 py-1.5 rounded-full">
+                      <ShieldAlert className="w-3 h-3 flex-shrink-0" />
+                      <span>
+                        Rejected a message at {formatTime(item.timestamp)}: {REJECTION_LABELS[item.rejection.reason]}
+                      </span>
+                    </div>
+                  </div>
+                );
+              }
+
+              const { message } = item;
+              return (
                 <div
-                  className={`max-w-[80%] rounded-lg p-3 ${
-                    message.sender === 'self'
-                      ? 'bg-indigo-600 text-white rounded-br-none'
-                      : 'bg-gray-700 text-gray-100 rounded-bl-none'
-                  }`}
+                  key={message.id}
+                  className={`flex ${message.sender === 'self' ? 'justify-end' : 'justify-start'}`}
                 >
-                  {/* Message content based on type */}
-                  {message.type === 'text' && <p>{message.content}</p>}
+                  <div
+                    className={`max-w-[80%] rounded-lg p-3 ${
+                      message.sender === 'self'
+                        ? 'bg-indigo-600 text-white rounded-br-none'
+                        : 'bg-gray-700 text-gray-100 rounded-bl-none'
+                    }`}
+                  >
+                    {/* Message content based on type */}
+                    {message.type === 'text' && <p>{message.content}</p>}
                   
-                  {message.type === 'image' && (
-                    <div className="my-1">
-                      <img
-                        src={message.content}
-                        alt="Encrypted image"
-                        className="rounded max-h-60 max-w-full"
-                      />
-                    </div>
-                  )}
+                    {message.type === 'image' && (
+                      <div className="my-1">
+                        <img
+                          src={message.content}
+                          alt="Encrypted image"
+                          className="rounded max-h-60 max-w-full"
+                        />
+                      </div>
+                    )}
                   
-                  {message.type === 'audio' && (
-                    <div className="my-1">
-                      <audio controls className="w-full max-w-[240px]">
-                        <source src={message.content} type="audio/wav" />
-                        Your browser does not support audio playback.
-                      </audio>
-                    </div>
-                  )}
+                    {message.type === 'audio' && (
+                      <div className="my-1">
+                        <audio controls className="w-full max-w-[240px]">
+                          <source src={message.content} type="audio/wav" />
+                          Your browser does not support audio playback.
+                        </audio>
+                      </div>
+                    )}
 
-                  {message.type === 'document' && (
-                    <div className="my-1 p-3 bg-gray-600 rounded-lg">
-                      <div className="flex items-center space-x-2">
-                        <Shield className="w-5 h-5 text-blue-400" />
-                        <div>
-                          <p className="font-medium">Signed Document</p>
-                          <p className="text-sm opacity-75">Click to download</p>
+                    {message.type === 'document' && (
+                      <div className="my-1 p-3 bg-gray-600 rounded-lg">
+                        <div className="flex items-center space-x-2">
+                          <Shield className="w-5 h-5 text-blue-400" />
+                          <div>
+                            <p className="font-medium">Signed Document</p>
+                            <p className="text-sm opacity-75">Click to download</p>
+                          </div>
                         </div>
                       </div>
-                    </div>
-                  )}
+                    )}
                   
-                  {/* Message footer with time, encryption status, and signature verification */}
-                  <div className="flex items-center justify-between mt-2">
-                    <div className="flex items-center space-x-1">
-                      <span className="text-xs opacity-70">
-                        {formatTime(message.timestamp)}
-                      </span>
+                    {/* Message footer with time, encryption status, and signature verification */}
+                    <div className="flex items-center justify-between mt-2">
+                      <div className="flex items-center space-x-1">
+                        <span className="text-xs opacity-70">
+                          {formatTime(message.timestamp)}
+                        </span>
                       
-                      {message.encrypted ? (
-                        <Lock className="w-3 h-3 opacity-70" />
-                      ) : (
-                        <AlertTriangle className="w-3 h-3 text-amber-400" />
-                      )}
-                    </div>
+                        {message.encrypted ? (
+                          <Lock className="w-3 h-3 opacity-70" />
+                        ) : (
+                          <AlertTriangle className="w-3 h-3 text-amber-400" />
+                        )}
+                      </div>
 
-                    {/* Signature verification indicator */}
-                    <div className="flex items-center space-x-1">
-                      {message.signature && (
-                        <>
-                          {message.verified ? (
-                            <CheckCircle className="w-3 h-3 text-green-400" title="Signature verified" />
-                          ) : (
-                            <XCircle className="w-3 h-3 text-red-400" title="Signature verification failed" />
-                          )}
-                        </>
-                      )}
+                      {/* Signature or MAC verification indicator */}
+                      <div className="flex items-center space-x-1">
+                        {message.auth === 'deniable' && (
+                          <span
+                            className="flex items-center space-x-1"
+                            title={message.verified ? 'Deniable: MAC verified' : 'Deniable: MAC verification failed'}
+                          >
+                            <VenetianMask className="w-3 h-3 opacity-70" />
+                            {message.verified ? (
+                              <CheckCircle className="w-3 h-3 text-green-400" />
+                            ) : (
+                              <XCircle className="w-3 h-3 text-red-400" />
+                            )}
+                          </span>
+                        )}
+                        {message.signature && (
+                          <>
+                            {message.verified ? (
+                              <CheckCircle className="w-3 h-3 text-green-400" title="Signature verified" />
+                            ) : (
+                              <XCircle className="w-3 h-3 text-red-400" title="Signature verification failed" />
+                            )}
+                          </>
+                        )}
                       
-                      {message.senderCert && (
-                        <div className="text-xs opacity-70" title={`From: ${message.senderCert.subject}`}>
-                          🏆
-                        </div>
-                      )}
+                        {message.senderCert && (
+                          <div className="text-xs opacity-70" title={`From: ${message.senderCert.subject}`}>
+                            🏆
+                          </div>
+                        )}
+                      </div>
                     </div>
-                  </div>
 
-                  {/* Certificate info for peer messages */}
-                  {message.sender === 'peer' && message.senderCert && (
-                    <div className="mt-2 pt-2 border-t border-gray-600 text-xs opacity-75">
-                      <div className="flex items-center space-x-1">
-                        <Shield className="w-3 h-3" />
-                        <span>Cert: {message.senderCert.subject}</span>
+                    {/* Certificate info for peer messages */}
+                    {message.sender === 'peer' && message.senderCert && (
+                      <div className="mt-2 pt-2 border-t border-gray-600 text-xs opacity-75">
+                        <div className="flex items-center space-x-1">
+                          <Shield className="w-3 h-3" />
+                          <span>Cert: {message.senderCert.subject}</span>
+                        </div>
+                        <CertificateAttributes certificate={message.senderCert} className="block mt-0.5" />
                       </div>
-                    </div>
-                  )}
+                    )}
+                  </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         </div>
       ))}
       
-      {messages.length === 0 && (
+      {timeline.length === 0 && (
         <div className="flex flex-col items-center justify-center h-40 text-gray-500">
           <Lock className="w-8 h-8 mb-2 opacity-50" />
           <p>Your conversation is end-to-end encrypted</p>
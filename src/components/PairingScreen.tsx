@@ -1,16 +1,31 @@
 import React, { useState, useEffect } from 'react';
 import { KeyRound, Copy, ArrowRight, Shield, Award, Key, User } from 'lucide-react';
 import Button from './ui/Button';
+import TrustAnchorsPanel from './TrustAnchorsPanel';
+import IdentityPanel from './IdentityPanel';
+import UnlockIdentityScreen from './UnlockIdentityScreen';
+import RestoreBackupForm from './RestoreBackupForm';
 import { useChat } from '../context/ChatContext';
 import { useCrypto } from '../context/CryptoContext';
+import { JoinResult } from '../types';
+
+const JOIN_ERRORS: Record<Exclude<JoinResult, 'joined'>, string> = {
+  'invalid-code': 'Codes are 12 letters and digits, like 7K2M-QX4T-9PDA.',
+  'not-found': 'Room not found. Make sure someone has created the room first.',
+  'wrong-code': 'Incorrect pairing code. Check the code with the person who created the room and try again.',
+  rejected: 'The room creator is already paired with someone else.',
+  unsupported: "Your app and the room creator's do not both support post-quantum key agreement. Update both and try again.",
+  timeout: 'The room creator did not respond. Please try again.',
+  failed: 'Failed to join chat. Please try again.'
+};
 
 interface PairingScreenProps {
   onPaired: () => void;
 }
 
 const PairingScreen: React.FC<PairingScreenProps> = ({ onPaired }) => {
-  const { generateCode, joinChat, pairingCode } = useChat();
-  const { certificate, isInitializing, generateCertificate } = useCrypto();
+  const { generateCode, joinChat, pairingCode, pairingError, shortAuthString } = useChat();
+  const { certificate, isInitializing, lockedIdentity, generateCertificate } = useCrypto();
   const [inputCode, setInputCode] = useState('');
   const [username, setUsername] = useState('');
   const [showUsernameInput, setShowUsernameInput] = useState(true);
@@ -18,6 +33,7 @@ const PairingScreen: React.FC<PairingScreenProps> = ({ onPaired }) => {
   const [isJoining, setIsJoining] = useState(false);
   const [error, setError] = useState('');
   const [copied, setCopied] = useState(false);
+  const [showRestore, setShowRestore] = useState(false);
 
   // Check if we need to show username input
   useEffect(() => {
@@ -30,6 +46,11 @@ const PairingScreen: React.FC<PairingScreenProps> = ({ onPaired }) => {
     }
   }, [certificate]);
 
+  // A joiner arrived while we were still here; the codes are compared in the chat screen
+  useEffect(() => {
+    if (shortAuthString) onPaired();
+  }, [shortAuthString, onPaired]);
+
   const handleSetUsername = async () => {
     if (!username.trim()) {
       setError('Please enter a valid username');
@@ -96,11 +117,11 @@ const PairingScreen: React.FC<PairingScreenProps> = ({ onPaired }) => {
     setIsJoining(true);
     setError('');
     try {
-      const success = await joinChat(inputCode.trim().toUpperCase());
-      if (success) {
+      const result = await joinChat(inputCode.trim());
+      if (result === 'joined') {
         onPaired();
       } else {
-        setError('Invalid code or room not found. Make sure someone has created the room first.');
+        setError(JOIN_ERRORS[result]);
       }
     } catch (err) {
       setError('Failed to join chat. Please try again.');
@@ -157,6 +178,11 @@ const PairingScreen: React.FC<PairingScreenProps> = ({ onPaired }) => {
     );
   }
 
+  // A saved identity behind a passphrase must be unlocked (or skipped) first
+  if (lockedIdentity) {
+    return <UnlockIdentityScreen />;
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-gray-900 to-indigo-900 flex flex-col items-center justify-center p-8">
       <div className="mb-8 text-center">
@@ -231,6 +257,13 @@ const PairingScreen: React.FC<PairingScreenProps> = ({ onPaired }) => {
                 Create Digital Identity
                 <ArrowRight className="ml-2 w-5 h-5" />
               </Button>
+              <button
+                onClick={() => setShowRestore(!showRestore)}
+                className="w-full text-sm text-gray-400 hover:text-white transition-colors"
+              >
+                {showRestore ? 'Cancel restore' : 'Restore an identity from a backup file'}
+              </button>
+              {showRestore && <RestoreBackupForm onRestored={() => setShowRestore(false)} />}
             </div>
           </div>
         )}
@@ -258,6 +291,9 @@ const PairingScreen: React.FC<PairingScreenProps> = ({ onPaired }) => {
                   <p className="text-sm text-gray-400 mb-4">
                     Share this code with someone to start a secure, signed conversation
                   </p>
+                  {pairingError && (
+                    <p className="text-sm text-red-400 mb-4">{pairingError}</p>
+                  )}
                   <div className="bg-indigo-900/30 border border-indigo-700 rounded-lg p-3 mb-4">
                     <div className="flex items-center space-x-2 text-sm text-indigo-300">
                       <Key className="w-4 h-4" />
@@ -296,9 +332,9 @@ const PairingScreen: React.FC<PairingScreenProps> = ({ onPaired }) => {
                   type="text"
                   value={inputCode}
                   onChange={(e) => setInputCode(e.target.value.toUpperCase())}
-                  placeholder="Enter secure code"
+                  placeholder="XXXX-XXXX-XXXX"
                   className="w-full p-4 bg-gray-900/50 rounded-lg border border-gray-600 text-white text-center text-xl font-mono tracking-wider placeholder-gray-400 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
-                  maxLength={6}
+                  maxLength={16}
                   onKeyDown={(e) => e.key === 'Enter' && handleJoinChat()}
                 />
                 <Button
@@ -339,6 +375,10 @@ const PairingScreen: React.FC<PairingScreenProps> = ({ onPaired }) => {
                 <Award className="w-4 h-4 text-blue-400 flex-shrink-0" />
                 <span>Digital signatures with PKI certificates</span>
               </div>
+              <div className="flex items-center space-x-3">
+                <KeyRound className="w-4 h-4 text-amber-400 flex-shrink-0" />
+                <span>Pairing code authenticates the key exchange (SPAKE2)</span>
+              </div>
               <div className="flex items-center space-x-3">
                 <Key className="w-4 h-4 text-purple-400 flex-shrink-0" />
                 <span>Document signing and verification</span>
@@ -346,6 +386,10 @@ const PairingScreen: React.FC<PairingScreenProps> = ({ onPaired }) => {
             </div>
           </div>
         )}
+
+        {!showUsernameInput && <IdentityPanel />}
+
+        {!showUsernameInput && <TrustAnchorsPanel />}
       </div>
     </div>
   );
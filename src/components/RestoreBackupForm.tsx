@@ -0,0 +1,78 @@
+import React, { useRef, useState } from 'react';
+import { Upload, FileKey } from 'lucide-react';
+import Button from './ui/Button';
+import { useCrypto } from '../context/CryptoContext';
+
+interface RestoreBackupFormProps {
+  onRestored?: () => void;
+}
+
+const RestoreBackupForm: React.FC<RestoreBackupFormProps> = ({ onRestored }) => {
+  const { restoreIdentityBackup } = useCrypto();
+  const [file, setFile] = useState<File | null>(null);
+  const [password, setPassword] = useState('');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [status, setStatus] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleRestore = async () => {
+    if (!file || !password) return;
+
+    setIsRestoring(true);
+    setStatus('');
+    try {
+      await restoreIdentityBackup(await file.text(), password);
+      setStatus('Identity restored for this session. Save it to keep it on this device.');
+      setFile(null);
+      setPassword('');
+      onRestored?.();
+    } catch (error) {
+      console.error('Failed to restore identity backup:', error);
+      setStatus(error instanceof Error ? error.message : 'Failed to restore backup');
+    } finally {
+      setIsRestoring(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <input
+        type="file"
+        accept=".json"
+        ref={fileInputRef}
+        onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+        className="hidden"
+      />
+      <Button onClick={() => fileInputRef.current?.click()} variant="secondary" size="sm" className="w-full">
+        <FileKey className="w-4 h-4 mr-2" />
+        {file ? file.name : 'Choose backup file'}
+      </Button>
+      {file && (
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Backup password"
+          className="w-full p-3 bg-gray-900/50 rounded-lg border border-gray-600 text-white text-sm placeholder-gray-400 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+          onKeyDown={(e) => e.key === 'Enter' && handleRestore()}
+        />
+      )}
+      <Button
+        onClick={handleRestore}
+        isLoading={isRestoring}
+        disabled={!file || !password}
+        size="sm"
+        className="w-full"
+      >
+        <Upload className="w-4 h-4 mr-2" />
+        Restore identity
+      </Button>
+      {status && <p className="text-xs text-gray-400 text-center">{status}</p>}
+    </div>
+  );
+};
+
+export default RestoreBackupForm;
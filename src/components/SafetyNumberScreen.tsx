@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { Fingerprint, CheckCircle, AlertTriangle, ShieldOff } from 'lucide-react';
+import Button from './ui/Button';
+import Identicon from './Identicon';
+import { useChat } from '../context/ChatContext';
+import { useCrypto } from '../context/CryptoContext';
+import { computeSafetyNumber, SafetyNumber } from '../utils/safetyNumber';
+
+const SafetyNumberScreen: React.FC = () => {
+  const { peerCertificate, peerVerification, markPeerVerified, clearPeerVerification } = useChat();
+  const { certificate } = useCrypto();
+  const [safetyNumber, setSafetyNumber] = useState<SafetyNumber | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!certificate || !peerCertificate) return;
+
+    let cancelled = false;
+    computeSafetyNumber(certificate.publicKey, peerCertificate.publicKey)
+      .then(result => {
+        if (!cancelled) setSafetyNumber(result);
+      })
+      .catch(err => {
+        console.error('Failed to compute safety number:', err);
+        if (!cancelled) setError('Failed to compute safety number');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [certificate, peerCertificate]);
+
+  if (!peerCertificate || !certificate) {
+    return (
+      <div className="flex flex-col items-center justify-center p-12 text-gray-400">
+        <ShieldOff className="w-12 h-12 mb-4 text-gray-500" />
+        <p>Connect to a peer to compare safety numbers</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-xl mx-auto p-6 space-y-6">
+      <div className="text-center">
+        <div className="w-16 h-16 bg-indigo-600 rounded-full flex items-center justify-center mx-auto mb-4">
+          <Fingerprint className="w-8 h-8 text-white" />
+        </div>
+        <h1 className="text-2xl font-bold text-white mb-2">Verify Safety Number</h1>
+        <p className="text-gray-400 text-sm">
+          Compare these numbers or the picture with <strong>{peerCertificate.subject}</strong> in
+          person or over a trusted channel. If they match, nobody is intercepting your conversation.
+        </p>
+      </div>
+
+      {peerVerification === 'changed' && (
+        <div className="bg-red-900/40 border border-red-600 rounded-lg p-4 flex items-start space-x-3">
+          <AlertTriangle className="w-5 h-5 text-red-400 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-200">
+            This peer's identity key is different from the one you verified before. Compare the
+            safety number again before trusting this conversation.
+          </p>
+        </div>
+      )}
+
+      <div className="bg-gray-800 rounded-xl p-6 flex flex-col items-center space-y-6">
+        {safetyNumber ? (
+          <>
+            <Identicon seed={safetyNumber.visual} size={120} />
+            <div className="grid grid-cols-4 gap-x-6 gap-y-3 font-mono text-xl tracking-wider text-green-400">
+              {safetyNumber.digits.map((group, index) => (
+                <span key={index}>{group}</span>
+              ))}
+            </div>
+          </>
+        ) : (
+          <p className="text-gray-400 text-sm">{error || 'Computing safety number...'}</p>
+        )}
+      </div>
+
+      {peerVerification === 'verified' ? (
+        <div className="space-y-3">
+          <div className="flex items-center justify-center space-x-2 text-green-400">
+            <CheckCircle className="w-5 h-5" />
+            <span className="font-medium">Verified</span>
+          </div>
+          <Button onClick={clearPeerVerification} variant="secondary" className="w-full">
+            Clear verification
+          </Button>
+        </div>
+      ) : (
+        <Button onClick={markPeerVerified} disabled={!safetyNumber} className="w-full">
+          <CheckCircle className="w-4 h-4 mr-2" />
+          Mark as verified
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default SafetyNumberScreen;
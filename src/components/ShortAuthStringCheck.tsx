@@ -0,0 +1,56 @@
+import React from 'react';
+import { ShieldQuestion, CheckCircle, XCircle } from 'lucide-react';
+import Button from './ui/Button';
+import { useChat } from '../context/ChatContext';
+
+const ShortAuthStringCheck: React.FC = () => {
+  const { shortAuthString, shortAuthStringConfirmed, confirmShortAuthString } = useChat();
+
+  if (!shortAuthString) return null;
+
+  return (
+    <div className="max-w-md mx-auto p-6 space-y-6">
+      <div className="text-center">
+        <div className="w-16 h-16 bg-indigo-600 rounded-full flex items-center justify-center mx-auto mb-4">
+          <ShieldQuestion className="w-8 h-8 text-white" />
+        </div>
+        <h2 className="text-xl font-bold text-white mb-2">Compare security codes</h2>
+        <p className="text-gray-400 text-sm">
+          Check that your peer sees the same symbols and number, over a call or in person.
+          The chat opens once you both confirm.
+        </p>
+      </div>
+
+      <div className="bg-gray-800 rounded-xl p-6 space-y-4">
+        <div className="grid grid-cols-4 gap-3 text-center">
+          {shortAuthString.emoji.map((emoji, index) => (
+            <div key={index}>
+              <div className="text-4xl" aria-hidden="true">{emoji.symbol}</div>
+              <div className="text-xs text-gray-400 mt-1">{emoji.name}</div>
+            </div>
+          ))}
+        </div>
+        <p className="text-center font-mono text-2xl tracking-widest text-green-400">
+          {shortAuthString.digits.slice(0, 3)} {shortAuthString.digits.slice(3)}
+        </p>
+      </div>
+
+      {shortAuthStringConfirmed ? (
+        <p className="text-center text-sm text-gray-400">Waiting for your peer to confirm...</p>
+      ) : (
+        <div className="grid grid-cols-2 gap-3">
+          <Button onClick={() => confirmShortAuthString(false)} variant="danger">
+            <XCircle className="w-4 h-4 mr-2" />
+            They differ
+          </Button>
+          <Button onClick={() => confirmShortAuthString(true)}>
+            <CheckCircle className="w-4 h-4 mr-2" />
+            They match
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShortAuthStringCheck;
@@ -0,0 +1,181 @@
+import React, { useRef, useState } from 'react';
+import { ShieldCheck, Download, Upload, Pin, Trash2, ChevronDown, ChevronUp, FileBadge } from 'lucide-react';
+import Button from './ui/Button';
+import { useCrypto } from '../context/CryptoContext';
+import { TrustSource } from '../types';
+import { PATH_FAILURE_LABELS } from '../utils/certificates';
+
+const sourceLabels: Record<TrustSource, { label: string; className: string }> = {
+  self: { label: 'Your CA', className: 'bg-indigo-700 text-indigo-100' },
+  pinned: { label: 'Pinned', className: 'bg-green-700 text-green-100' },
+  imported: { label: 'Imported', className: 'bg-blue-700 text-blue-100' },
+  tofu: { label: 'First use', className: 'bg-amber-700 text-amber-100' }
+};
+
+const TrustAnchorsPanel: React.FC = () => {
+  const {
+    trustAnchors,
+    pinTrustAnchor,
+    removeTrustAnchor,
+    exportTrustAnchors,
+    importTrustAnchors,
+    exportCAPem,
+    importTrustAnchorPem,
+    importCertificatePem,
+    validateCertificatePath
+  } = useCrypto();
+  const [isOpen, setIsOpen] = useState(false);
+  const [status, setStatus] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const download = (contents: string, type: string, fileName: string) => {
+    const blob = new Blob([contents], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExport = () => {
+    download(exportTrustAnchors(), 'application/json', 'cipher-trust-anchors.json');
+  };
+
+  const handleExportPem = async () => {
+    try {
+      download(await exportCAPem(), 'application/x-pem-file', 'cipher-ca.pem');
+    } catch (error) {
+      console.error('Failed to export CA certificate:', error);
+      setStatus('Your CA is not ready yet');
+    }
+  };
+
+  // A self-signed CA certificate is trusted; any other certificate is checked
+  const importPem = async (pem: string) => {
+    try {
+      const certificate = importCertificatePem(pem);
+      if (certificate.ca && certificate.issuer === certificate.subject) {
+        const ca = await importTrustAnchorPem(pem);
+        setStatus(`Now trusting ${ca.name}`);
+        return;
+      }
+
+      const result = await validateCertificatePath(certificate);
+      setStatus(result.valid
+        ? `Certificate for ${certificate.subject} is valid, issued under ${result.anchor.name}`
+        : `Certificate for ${certificate.subject} is not valid: ${PATH_FAILURE_LABELS[result.reason]}`);
+    } catch (error) {
+      console.error('Failed to import PEM certificate:', error);
+      setStatus(error instanceof Error ? error.message : 'Invalid certificate file');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const contents = await file.text();
+      if (contents.includes('-----BEGIN CERTIFICATE-----')) {
+        await importPem(contents);
+        return;
+      }
+
+      const imported = importTrustAnchors(contents);
+      setStatus(`Imported ${imported} trusted ${imported === 1 ? 'authority' : 'authorities'}`);
+    } catch (error) {
+      console.error('Failed to import trust anchors:', error);
+      setStatus('Invalid trust anchor file');
+    } finally {
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  return (
+    <div className="bg-gray-800/30 backdrop-blur-sm rounded-xl p-6 border border-gray-700">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-lg font-semibold"
+      >
+        <span className="flex items-center">
+          <ShieldCheck className="w-5 h-5 mr-2 text-green-400" />
+          Trusted Authorities ({trustAnchors.length})
+        </span>
+        {isOpen ? <ChevronUp className="w-5 h-5" /> : <ChevronDown className="w-5 h-5" />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-3">
+          {trustAnchors.length === 0 && (
+            <p className="text-sm text-gray-400">No trusted certificate authorities yet.</p>
+          )}
+
+          {trustAnchors.map((anchor) => (
+            <div key={anchor.id} className="bg-gray-900/50 rounded-lg p-3 flex items-center justify-between">
+              <div className="min-w-0">
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium text-sm truncate">{anchor.name}</span>
+                  <span className={`text-xs px-2 py-0.5 rounded-full ${sourceLabels[anchor.source].className}`}>
+                    {sourceLabels[anchor.source].label}
+                  </span>
+                </div>
+                <p className="text-xs font-mono text-gray-500 truncate">{anchor.id}</p>
+              </div>
+              {anchor.source !== 'self' && (
+                <div className="flex items-center space-x-1 ml-2">
+                  {anchor.source !== 'pinned' && (
+                    <button
+                      onClick={() => pinTrustAnchor(anchor)}
+                      className="p-1.5 text-gray-400 hover:text-green-400 transition-colors"
+                      title="Pin this authority"
+                    >
+                      <Pin className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => removeTrustAnchor(anchor.id)}
+                    className="p-1.5 text-gray-400 hover:text-red-400 transition-colors"
+                    title="Stop trusting this authority"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+
+          <div className="flex space-x-2 pt-2">
+            <Button onClick={handleExport} variant="secondary" size="sm" className="flex-1">
+              <Download className="w-4 h-4 mr-2" />
+              Export
+            </Button>
+            <input
+              type="file"
+              accept=".json,.pem,.crt"
+              ref={fileInputRef}
+              onChange={handleImport}
+              className="hidden"
+            />
+            <Button onClick={() => fileInputRef.current?.click()} variant="secondary" size="sm" className="flex-1">
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+            </Button>
+          </div>
+          <Button onClick={handleExportPem} variant="secondary" size="sm" className="w-full">
+            <FileBadge className="w-4 h-4 mr-2" />
+            Export your CA as X.509 (PEM)
+          </Button>
+
+          {status && <p className="text-xs text-gray-400 text-center">{status}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrustAnchorsPanel;
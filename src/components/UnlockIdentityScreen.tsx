@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Lock, ArrowRight, EyeOff, Trash2 } from 'lucide-react';
+import Button from './ui/Button';
+import { useCrypto } from '../context/CryptoContext';
+
+const UnlockIdentityScreen: React.FC = () => {
+  const { lockedIdentity, unlockIdentity, continueAnonymously, forgetIdentity } = useCrypto();
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState('');
+
+  if (!lockedIdentity) return null;
+
+  const handleUnlock = async () => {
+    if (!passphrase) return;
+
+    setIsUnlocking(true);
+    setError('');
+    const unlocked = await unlockIdentity(passphrase);
+    setIsUnlocking(false);
+    if (!unlocked) {
+      setError('Incorrect passphrase. Please try again.');
+    }
+    setPassphrase('');
+  };
+
+  const handleForget = async () => {
+    try {
+      await forgetIdentity();
+    } catch (error) {
+      console.error('Failed to forget identity:', error);
+      setError('Failed to delete stored identity');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-900 to-indigo-900 flex flex-col items-center justify-center p-8">
+      <div className="w-full max-w-md space-y-6">
+        <div className="text-center">
+          <div className="w-20 h-20 bg-indigo-600 rounded-full flex items-center justify-center mx-auto mb-6">
+            <Lock className="w-10 h-10 text-white" />
+          </div>
+          <h1 className="text-3xl font-bold mb-2 text-white">Unlock Your Identity</h1>
+          <p className="text-gray-400">
+            Welcome back, <strong className="text-white">{lockedIdentity.username}</strong>
+          </p>
+        </div>
+
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-6 shadow-xl border border-gray-700 space-y-4">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Passphrase"
+            autoFocus
+            className="w-full p-4 bg-gray-900/50 rounded-lg border border-gray-600 text-white placeholder-gray-400 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+            onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+          />
+          <Button onClick={handleUnlock} isLoading={isUnlocking} disabled={!passphrase} className="w-full">
+            Unlock
+            <ArrowRight className="ml-2 w-5 h-5" />
+          </Button>
+          <p className="text-xs text-gray-500 text-center">
+            Saved {new Date(lockedIdentity.createdAt).toLocaleDateString()} as {lockedIdentity.subject}
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-900/50 backdrop-blur-sm border border-red-700 text-red-200 p-4 rounded-xl text-center">
+            {error}
+          </div>
+        )}
+
+        <div className="flex space-x-2">
+          <Button onClick={continueAnonymously} variant="secondary" size="sm" className="flex-1">
+            <EyeOff className="w-4 h-4 mr-2" />
+            Anonymous mode
+          </Button>
+          <Button onClick={handleForget} variant="danger" size="sm" className="flex-1">
+            <Trash2 className="w-4 h-4 mr-2" />
+            Forget identity
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UnlockIdentityScreen;
@@ -1,29 +1,107 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useRef, useEffect, ReactNode } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { Message } from '../types';
+import { Message, WireMessage, ChatMessage, ChatPayload, PairingRequest, PairingResponse, PairingConfirm, SasConfirmMessage, ShortAuthString, CertificateAuthority, CryptoSuite, CertificateRevocationList, RevokedCertificate, Certificate, KeyRotation, PaddingPolicy, MessageAuthMode, Transport, TransportIdentity, PeerVerificationStatus, JoinResult, MessageRejection, MessageRejectionReason, TransparencyStatus, CertificateStatusResponse, CertificateStatusResult } from '../types';
 import { useCrypto } from './CryptoContext';
+import { arrayBufferToBase64, base64ToArrayBuffer, stringToArrayBuffer } from '../utils/encoding';
+import { createTransport } from '../transport';
+import { VerifiedPeers } from '../utils/verifiedPeers';
+import { PairingCode } from '../utils/pairingCode';
+import { Spake2, Spake2Result } from '../utils/spake2';
+import { DEFAULT_MAX_CLOCK_SKEW_MS, MessageEnvelopes, ReplayGuard } from '../utils/messageEnvelope';
+import { SasExchange, deriveShortAuthString } from '../utils/shortAuthString';
+import { DEFAULT_PADDING_POLICY, MessagePadding } from '../utils/padding';
+import { DEFAULT_MESSAGE_AUTH_MODE, MESSAGE_AUTH_MODE_LABELS } from '../utils/messageAuth';
+import { MlKem768, MlKemEncapsulation } from '../utils/mlKem';
+import { CryptoSuites, DEFAULT_CRYPTO_SUITE } from '../utils/cryptoSuites';
+import { CanonicalJson } from '../utils/canonicalJson';
+import { KeyTransparency } from '../utils/keyTransparency';
+import { CertificateStatus } from '../utils/certificateStatus';
 
-// Use localStorage for room storage
-const getRooms = () => {
-  const rooms = localStorage.getItem('chatRooms');
-  return rooms ? JSON.parse(rooms) : {};
-};
+// How long either side waits for the next handshake step
+const PAIRING_TIMEOUT_MS = 10000;
+// Failed pairing attempts a creator tolerates before discarding the code
+const MAX_FAILED_PAIRINGS = 3;
 
-const saveRooms = (rooms: any) => {
-  localStorage.setItem('chatRooms', JSON.stringify(rooms));
-};
+// A pairing the creator has answered but the joiner has not yet confirmed
+interface PendingPairing {
+  request: PairingRequest;
+  pake: Spake2Result;
+  context: Uint8Array;
+  suite: CryptoSuite;
+  kemSecret: Uint8Array;
+  authMode: MessageAuthMode; // Offered in our response, so it holds for the session
+  timeout: number;
+}
+
+// Keys are agreed; waiting for both users to compare the short authenticated string
+interface PendingSasCheck {
+  exchange: SasExchange;
+  peerCertificate: Certificate;
+  peerIssuer?: CertificateAuthority;
+  peerStatus?: CertificateStatusResponse; // Stapled to the peer's certificate
+  confirmed: boolean;
+  peerConfirmed: boolean;
+}
+
+// The joiner's handshake key for each suite it offered, P-256 included
+function offeredKeyShares(request: PairingRequest): Partial<Record<CryptoSuite, string>> {
+  return { ...request.keyShares, [DEFAULT_CRYPTO_SUITE]: request.publicKey };
+}
 
-// Setup BroadcastChannel for cross-tab communication
-const broadcastChannel = new BroadcastChannel('chat_channel');
+/**
+ * Everything exchanged next to the PAKE messages, bound into its key
+ * confirmation so a relay cannot substitute handshake keys or certificates,
+ * strip the ML-KEM exchange, remove suites from the joiner's offer or
+ * change the room's message authentication mode
+ */
+function pairingContext(
+  request: PairingRequest,
+  suite: CryptoSuite,
+  creatorKey: string,
+  creatorCert: Certificate,
+  kemCiphertext: string,
+  authMode: MessageAuthMode
+): Uint8Array {
+  const offered = offeredKeyShares(request);
+  return stringToArrayBuffer(JSON.stringify([
+    offered[suite],
+    creatorKey,
+    request.certificate.id,
+    request.certificate.publicKey,
+    creatorCert.id,
+    creatorCert.publicKey,
+    request.kem,
+    kemCiphertext,
+    suite,
+    CanonicalJson.stringify(offered),
+    authMode
+  ]));
+}
 
 interface ChatContextType {
   messages: Message[];
+  rejectedMessages: MessageRejection[];
   isConnected: boolean;
   isPaired: boolean;
   pairingCode: string | null;
+  pairingError: string | null;
+  peerCertificate: Certificate | null;
+  peerVerification: PeerVerificationStatus;
+  peerRevocation: RevokedCertificate | null;
+  peerTransparency: TransparencyStatus | null; // Null until the log has been checked
+  peerCertificateStatus: CertificateStatusResult | null; // Null until the status has been checked
+  shortAuthString: ShortAuthString | null; // Set while the users compare it
+  shortAuthStringConfirmed: boolean; // We confirmed and wait for the peer
+  confirmShortAuthString: (matches: boolean) => Promise<void>;
+  paddingPolicy: PaddingPolicy; // Applies to what we send in this room
+  setPaddingPolicy: (policy: PaddingPolicy) => void;
+  messageAuthMode: MessageAuthMode; // How messages in this room are authenticated, both ways
+  setMessageAuthMode: (mode: MessageAuthMode) => void; // Only before pairing; the creator's choice is agreed
+  markPeerVerified: () => void;
+  clearPeerVerification: () => void;
   sendMessage: (content: string, type: 'text' | 'image' | 'audio' | 'document') => Promise<void>;
   generateCode: () => Promise<string>;
-  joinChat: (code: string) => Promise<boolean>;
+  joinChat: (code: string) => Promise<JoinResult>;
   leaveChat: () => void;
 }
 
@@ -37,52 +115,554 @@ export const useChat = () => {
   return context;
 };
 
-export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+interface ChatProviderProps {
+  children: ReactNode;
+  transportFactory?: (identity: TransportIdentity) => Transport; // Defaults to the transport selected at startup
+  maxClockSkewMs?: number; // How far a message's timestamp may be from our clock
+}
+
+export const ChatProvider: React.FC<ChatProviderProps> = ({
+  children,
+  transportFactory = createTransport,
+  maxClockSkewMs = DEFAULT_MAX_CLOCK_SKEW_MS
+}) => {
   const [messages, setMessages] = useState<Message[]>([]);
+  const [rejectedMessages, setRejectedMessages] = useState<MessageRejection[]>([]);
   const [isConnected, setIsConnected] = useState(true);
   const [isPaired, setIsPaired] = useState(false);
   const [pairingCode, setPairingCode] = useState<string | null>(null);
-  const [userId] = useState(() => uuidv4());
+  const [pairingError, setPairingError] = useState<string | null>(null);
+  const [peerCertificate, setPeerCertificate] = useState<Certificate | null>(null);
+  const [peerVerification, setPeerVerification] = useState<PeerVerificationStatus>('unverified');
+  const [peerRevocation, setPeerRevocation] = useState<RevokedCertificate | null>(null);
+  const [peerTransparency, setPeerTransparency] = useState<TransparencyStatus | null>(null);
+  const [peerCertificateStatus, setPeerCertificateStatus] = useState<CertificateStatusResult | null>(null);
+  const [shortAuthString, setShortAuthString] = useState<ShortAuthString | null>(null);
+  const [shortAuthStringConfirmed, setShortAuthStringConfirmed] = useState(false);
+  const [paddingPolicy, setPaddingPolicy] = useState<PaddingPolicy>(DEFAULT_PADDING_POLICY);
+  const [messageAuthMode, setMessageAuthMode] = useState<MessageAuthMode>(DEFAULT_MESSAGE_AUTH_MODE);
+  const [verifiedPeers] = useState(() => VerifiedPeers.getInstance());
+  const [keyTransparency] = useState(() => KeyTransparency.getInstance());
+  const [replayGuard] = useState(() => new ReplayGuard(maxClockSkewMs));
   const [messageIndex, setMessageIndex] = useState(0);
   const crypto = useCrypto();
 
-  useEffect(() => {
-    // Listen for messages from other tabs
-    broadcastChannel.onmessage = async (event) => {
-      if (event.data.type === 'message' && event.data.roomCode === pairingCode) {
-        try {
-          // Verify message signature
-          const isVerified = await crypto.verifyMessage(
-            event.data.content,
-            event.data.signature,
-            event.data.certificate
-          );
-
-          const newMessage: Message = {
-            id: uuidv4(),
-            content: event.data.content,
-            type: event.data.messageType,
-            timestamp: Date.now(),
-            sender: 'peer',
-            encrypted: true,
-            verified: isVerified,
-            signature: event.data.signature,
-            senderCert: event.data.certificate
-          };
-
-          setMessages(prev => [...prev, newMessage]);
-        } catch (error) {
-          console.error('Failed to process received message:', error);
-        }
-      } else if (event.data.type === 'room_closed' && event.data.roomCode === pairingCode) {
-        leaveChat();
+  // Frames can arrive before React re-renders, so handlers read from refs
+  const pairingCodeRef = useRef<string | null>(null);
+  const isPairedRef = useRef(false);
+  const isCreatorRef = useRef(false);
+  const messageAuthModeRef = useRef<MessageAuthMode>(DEFAULT_MESSAGE_AUTH_MODE);
+  const peerCertificateRef = useRef<Certificate | null>(null);
+  const transportRef = useRef<Transport | null>(null);
+  const pendingJoinRef = useRef<((response: PairingResponse) => void) | null>(null);
+  const pendingPairingRef = useRef<PendingPairing | null>(null);
+  const pendingSasRef = useRef<PendingSasCheck | null>(null);
+  const frameQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const failedPairingsRef = useRef(0);
+  const sendSeqRef = useRef(0);
+
+  const updatePairingCode = (code: string | null) => {
+    pairingCodeRef.current = code;
+    setPairingCode(code);
+  };
+
+  // The room locator that envelopes are bound to
+  const currentRoom = (): string | null => {
+    return pairingCodeRef.current ? PairingCode.parse(pairingCodeRef.current)?.locator ?? null : null;
+  };
+
+  const updatePaired = (paired: boolean) => {
+    isPairedRef.current = paired;
+    setIsPaired(paired);
+  };
+
+  const updateMessageAuthMode = (mode: MessageAuthMode) => {
+    messageAuthModeRef.current = mode;
+    setMessageAuthMode(mode);
+  };
+
+  // The mode is agreed at pairing and holds for the whole session
+  const chooseMessageAuthMode = (mode: MessageAuthMode) => {
+    if (isPairedRef.current || pendingSasRef.current) return;
+    updateMessageAuthMode(mode);
+  };
+
+  const updatePeerCertificate = (cert: Certificate | null) => {
+    peerCertificateRef.current = cert;
+    setPeerCertificate(cert);
+    setPeerVerification(cert ? verifiedPeers.getStatus(cert) : 'unverified');
+  };
+
+  const markPeerVerified = () => {
+    if (!peerCertificate) return;
+    verifiedPeers.markVerified(peerCertificate);
+    setPeerVerification('verified');
+  };
+
+  const clearPeerVerification = () => {
+    if (!peerCertificate) return;
+    verifiedPeers.clear(peerCertificate.subject);
+    setPeerVerification('unverified');
+  };
+
+  const postFrame = (message: WireMessage) => {
+    if (!transportRef.current) {
+      console.error('Cannot send frame: transport not connected');
+      return;
+    }
+    transportRef.current.send(message).catch(error => {
+      console.error('Failed to send frame:', error);
+    });
+  };
+
+  const closeTransport = () => {
+    transportRef.current?.close();
+    transportRef.current = null;
+  };
+
+  // Open a transport for a room; resolves with the peers already present
+  const connectTransport = async (code: string, create: boolean): Promise<number> => {
+    closeTransport();
+
+    if (!crypto.certificate) {
+      throw new Error('Certificate not ready');
+    }
+
+    const transport = transportFactory({
+      certificate: crypto.certificate,
+      sign: crypto.signMessage
+    });
+    // One frame at a time, so a frame never overtakes the one sent before it
+    transport.onMessage(message => {
+      frameQueueRef.current = frameQueueRef.current.then(() => handleFrameRef.current(message));
+    });
+    transport.onPeerLeave(() => {
+      if (isPairedRef.current || pendingSasRef.current) {
+        resetSession();
       }
+    });
+
+    transportRef.current = transport;
+    try {
+      return await transport.connect(code, { create });
+    } catch (error) {
+      closeTransport();
+      throw error;
+    }
+  };
+
+  const clearPendingPairing = () => {
+    if (pendingPairingRef.current) {
+      window.clearTimeout(pendingPairingRef.current.timeout);
+      pendingPairingRef.current = null;
+    }
+  };
+
+  // Every answered attempt that does not end in a confirmed pairing could
+  // have been someone guessing the code, so the creator only allows a few
+  const recordFailedPairing = () => {
+    clearPendingPairing();
+    failedPairingsRef.current += 1;
+
+    if (failedPairingsRef.current >= MAX_FAILED_PAIRINGS) {
+      console.warn('Too many failed pairing attempts, discarding the code');
+      resetSession();
+      setPairingError('Too many failed attempts to join with your code. Generate a new code to try again.');
+    } else {
+      setPairingError('Someone tried to join with an incorrect code.');
+    }
+  };
+
+  // Creator side: answer a joiner's handshake with our ECDH public key and SPAKE2 message
+  const handlePairingRequest = async (request: PairingRequest) => {
+    const code = pairingCodeRef.current && PairingCode.parse(pairingCodeRef.current);
+    if (!isCreatorRef.current || !code || request.room !== code.locator) return;
+
+    if (isPairedRef.current || pendingPairingRef.current || pendingSasRef.current || !crypto.certificate || !request.kem) {
+      postFrame({
+        type: 'pairing-response',
+        publicKey: '',
+        ...(crypto.certificate && { certificate: crypto.certificate }),
+        accepted: false,
+        // Requests without an ML-KEM key come from clients predating the hybrid exchange
+        reason: crypto.certificate && !request.kem ? 'unsupported' : 'busy'
+      });
+      return;
+    }
+
+    // The strongest suite the joiner offered that we support; P-256 is always common
+    const offered = Object.keys(offeredKeyShares(request)) as CryptoSuite[];
+    const suite = CryptoSuites.negotiate(offered, await CryptoSuites.supported()) ?? DEFAULT_CRYPTO_SUITE;
+    const ownKeyPair = crypto.keyPair && CryptoSuites.ofKey(crypto.keyPair.privateKey) === suite
+      ? crypto.keyPair
+      : await crypto.generateKeyPair(suite);
+    const ownPublicKey = await crypto.exportPublicKey(ownKeyPair.publicKey);
+    const status = await crypto.stapleCertificateStatus();
+
+    const spake = await Spake2.start('B', code.secret, code.locator);
+    let kem: MlKemEncapsulation;
+    let pake: Spake2Result;
+    let context: Uint8Array;
+    const authMode = messageAuthModeRef.current;
+    try {
+      kem = MlKem768.encapsulate(base64ToArrayBuffer(request.kem));
+      context = pairingContext(request, suite, ownPublicKey, crypto.certificate, arrayBufferToBase64(kem.ciphertext), authMode);
+      pake = await spake.finish(request.pake, context);
+    } catch (error) {
+      console.warn('Rejecting malformed pairing request:', error);
+      return;
+    }
+
+    // Another request may have been answered while we were deriving keys
+    if (pendingPairingRef.current || pendingSasRef.current || isPairedRef.current) return;
+
+    pendingPairingRef.current = {
+      request,
+      pake,
+      context,
+      suite,
+      kemSecret: kem.sharedSecret,
+      authMode,
+      timeout: window.setTimeout(recordFailedPairing, PAIRING_TIMEOUT_MS)
     };
 
-    return () => {
-      broadcastChannel.onmessage = null;
+    postFrame({
+      type: 'pairing-response',
+      publicKey: ownPublicKey,
+      suite,
+      certificate: crypto.certificate,
+      issuer: crypto.getIssuerInfo() ?? undefined,
+      pake: spake.messageBase64,
+      confirmation: pake.confirmation,
+      kemCiphertext: arrayBufferToBase64(kem.ciphertext),
+      authMode,
+      ...(status && { status }),
+      accepted: true
+    });
+  };
+
+  // Creator side: the joiner proved it knows the code, so start the session
+  // and let both users compare the short authenticated string
+  const handlePairingConfirm = async (confirm: PairingConfirm) => {
+    const pending = pendingPairingRef.current;
+    if (!pending) return;
+    clearPendingPairing();
+
+    const confirmed = confirm.accepted && !!confirm.confirmation &&
+      await pending.pake.verifyPeer(confirm.confirmation);
+    if (!confirmed) {
+      console.warn('Pairing failed: key confirmation did not match');
+      recordFailedPairing();
+      return;
+    }
+
+    const { request, suite } = pending;
+    const exchange = await deriveShortAuthString(pending.pake.sessionKey, pending.context, 'creator');
+    const joinerKey = offeredKeyShares(request)[suite]!;
+    await crypto.establishSession(joinerKey, 'initiator', suite, pending.pake.sessionKey, pending.kemSecret);
+    pending.kemSecret.fill(0);
+    updateMessageAuthMode(pending.authMode);
+    failedPairingsRef.current = 0;
+    setPairingError(null);
+    startSasCheck(exchange, request.certificate, request.issuer, request.status);
+  };
+
+  const startSasCheck = (
+    exchange: SasExchange,
+    peerCert: Certificate,
+    peerIssuer?: CertificateAuthority,
+    peerStatus?: CertificateStatusResponse
+  ) => {
+    pendingSasRef.current = { exchange, peerCertificate: peerCert, peerIssuer, peerStatus, confirmed: false, peerConfirmed: false };
+    setShortAuthString(exchange.sas);
+    setShortAuthStringConfirmed(false);
+  };
+
+  const clearSasCheck = () => {
+    pendingSasRef.current = null;
+    setShortAuthString(null);
+    setShortAuthStringConfirmed(false);
+  };
+
+  // Our user compared the short authenticated string with the peer's screen
+  const confirmShortAuthString = async (matches: boolean) => {
+    const pending = pendingSasRef.current;
+    if (!pending || pending.confirmed) return;
+
+    if (!matches) {
+      closeWithFrame({ type: 'sas-confirm', accepted: false });
+      resetSession();
+      setPairingError('The security codes did not match, so the connection was closed. Someone may have intercepted the pairing; generate a new code.');
+      return;
+    }
+
+    pending.confirmed = true;
+    setShortAuthStringConfirmed(true);
+    postFrame({ type: 'sas-confirm', accepted: true, confirmation: pending.exchange.confirmation });
+    if (pending.peerConfirmed) {
+      await completePairing(pending);
+    }
+  };
+
+  const handleSasConfirm = async (message: SasConfirmMessage) => {
+    const pending = pendingSasRef.current;
+    if (!pending) return;
+
+    if (!message.accepted) {
+      resetSession();
+      setPairingError('Your peer reported that the security codes did not match, so the connection was closed.');
+      return;
+    }
+    if (!message.confirmation || !await pending.exchange.verifyPeer(message.confirmation)) {
+      console.warn('Ignoring short authenticated string confirmation with a bad MAC');
+      return;
+    }
+    // Our user may have rejected the codes in the meantime
+    if (pendingSasRef.current !== pending) return;
+
+    pending.peerConfirmed = true;
+    if (pending.confirmed) {
+      await completePairing(pending);
+    }
+  };
+
+  // Both users confirmed: trust the peer and open the chat
+  const completePairing = async (pending: PendingSasCheck) => {
+    clearSasCheck();
+    if (pending.peerIssuer) {
+      crypto.trustPeerIssuer(pending.peerIssuer, pending.peerCertificate);
+    }
+    // A relay could have answered the WebRTC signaling in the peer's place
+    const transport = transportRef.current;
+    if (transport?.confirmPeer && !await transport.confirmPeer(pending.peerCertificate)) {
+      console.warn('Transport connection was not set up by the paired peer');
+      resetSession();
+      setPairingError('The direct connection was not set up by your peer, so it was closed. Generate a new code and pair again.');
+      return;
+    }
+    updatePeerCertificate(pending.peerCertificate);
+    updatePaired(true);
+    checkPeerTransparency(pending.peerCertificate);
+    await checkPeerRevocation(pending.peerCertificate, pending.peerStatus);
+    await shareRevocationList();
+    shareKeyRotation();
+  };
+
+  // Send our CA's signed revocation list so the peer can check our certificates
+  const shareRevocationList = async () => {
+    const crl = await crypto.getRevocationList();
+    if (crl) {
+      postFrame({ type: 'crl', crl });
+    }
+  };
+
+  // The issuer's revocation list first, then the status responder, which
+  // may know of a revocation whose list we were never sent. A response the
+  // peer stapled saves asking the responder.
+  const checkPeerRevocation = async (cert: Certificate, stapledStatus?: CertificateStatusResponse) => {
+    const revocation = await crypto.getRevocation(cert);
+    if (revocation) {
+      console.warn('Peer certificate has been revoked:', revocation.reason);
+    }
+    setPeerRevocation(revocation);
+
+    const status = await crypto.checkCertificateStatus(cert, stapledStatus);
+    // The peer may have rotated or left while the responder answered
+    if (peerCertificateRef.current !== cert) return;
+    setPeerCertificateStatus(CertificateStatus.resultOf(status));
+    if (!revocation && status?.revocation) {
+      console.warn('Peer certificate has been revoked according to its status responder:', status.revocation.reason);
+      setPeerRevocation(status.revocation);
+    }
+  };
+
+  // A relay that substituted the peer's certificate would have to publish
+  // the substitute, where the real subject's audit view lists it. Checked in
+  // the background; a certificate missing from the log only warns.
+  const checkPeerTransparency = async (cert: Certificate) => {
+    setPeerTransparency(null);
+    const status = await keyTransparency.check(cert);
+    // The peer may have rotated or left while the log answered
+    if (peerCertificateRef.current !== cert) return;
+    if (status !== 'logged') {
+      console.warn('Peer certificate transparency check:', status);
+    }
+    setPeerTransparency(status);
+  };
+
+  // Store a newer revocation list from the peer and re-check its certificate
+  const handleRevocationList = async (crl: CertificateRevocationList) => {
+    const result = await crypto.importRevocationList(crl);
+    if (result === 'invalid' || result === 'untrusted') {
+      console.warn('Ignoring revocation list:', result);
+      return;
+    }
+
+    if (peerCertificateRef.current) {
+      await checkPeerRevocation(peerCertificateRef.current);
+    }
+  };
+
+  // If our certificate was renewed while we were apart, the peer may still
+  // know the old one; the rotation lets it carry its verification over
+  const shareKeyRotation = () => {
+    if (crypto.keyRotation) {
+      postFrame({ type: 'key-rotation', rotation: crypto.keyRotation });
+    }
+  };
+
+  // Announce a renewal of our certificate to the peer we are talking to
+  const { keyRotation } = crypto;
+  useEffect(() => {
+    if (keyRotation && isPairedRef.current) {
+      transportRef.current?.send({ type: 'key-rotation', rotation: keyRotation }).catch(error => {
+        console.error('Failed to announce key rotation:', error);
+      });
+    }
+  }, [keyRotation]);
+
+  // The peer renewed its certificate: follow it to the new key, keeping a
+  // safety number verification made for the old one
+  const handleKeyRotation = async (rotation: KeyRotation) => {
+    const known = peerCertificateRef.current;
+    const isKnown = (cert?: Certificate) => !!known && cert?.id === known.id && cert.publicKey === known.publicKey;
+
+    // Sent live, or after pairing when the peer renewed while we were apart
+    if (!isKnown(rotation?.previous) && !isKnown(rotation?.next)) {
+      console.warn('Ignoring key rotation for a certificate the peer is not using');
+      return;
+    }
+    if (!await crypto.verifyKeyRotation(rotation)) {
+      console.warn('Ignoring key rotation that could not be verified');
+      return;
+    }
+
+    if (verifiedPeers.getStatus(rotation.previous) === 'verified') {
+      verifiedPeers.markVerified(rotation.next);
+    }
+    updatePeerCertificate(rotation.next);
+    checkPeerTransparency(rotation.next);
+    await checkPeerRevocation(rotation.next);
+  };
+
+  const rejectMessage = (reason: MessageRejectionReason) => {
+    console.warn('Rejected incoming message:', reason);
+    setRejectedMessages(prev => [...prev, { id: uuidv4(), reason, timestamp: Date.now() }]);
+  };
+
+  // Decrypt, verify and display an incoming chat message
+  const handleChatMessage = async (chatMessage: ChatMessage) => {
+    let payload: ChatPayload;
+    try {
+      const plaintext = await crypto.decryptMessage({
+        data: base64ToArrayBuffer(chatMessage.data),
+        iv: base64ToArrayBuffer(chatMessage.iv),
+        header: chatMessage.header
+      });
+      payload = JSON.parse(MessagePadding.unpad(plaintext));
+    } catch (error) {
+      console.error('Dropping message that could not be decrypted:', error);
+      return;
+    }
+
+    // Only the certificate pinned at pairing, or by a verified key rotation,
+    // may send. The frame's certificate field is not authenticated, so a
+    // mismatch is dropped without raising a key change: only a verified
+    // rotation can change the peer's key.
+    const peerCert = peerCertificateRef.current;
+    if (!peerCert || chatMessage.certificate?.id !== peerCert.id || chatMessage.certificate.publicKey !== peerCert.publicKey) {
+      console.warn('Dropping message framed with a certificate other than the peer\'s');
+      return;
+    }
+
+    // A message authenticated the way the session did not agree on is
+    // refused: a signed one in a deniable room would leave a proof behind
+    const { envelope, content, signature, mac } = payload;
+    const isDeniable = messageAuthModeRef.current === 'deniable';
+    if (isDeniable ? !mac || signature : !signature || mac) {
+      rejectMessage('wrong-auth-mode');
+      return;
+    }
+
+    const rejection = await MessageEnvelopes.validate(
+      envelope,
+      content,
+      currentRoom() ?? '',
+      peerCert.id
+    ) ?? replayGuard.accept(envelope);
+    if (rejection) {
+      rejectMessage(rejection);
+      return;
+    }
+
+    // The signature or MAC covers the whole envelope, not just the content
+    const serialized = MessageEnvelopes.serialize(envelope);
+    const isVerified = mac
+      ? await crypto.verifyMessageMac(serialized, mac, peerCert)
+      : !!signature && await crypto.verifyMessage(serialized, signature, peerCert);
+
+    const newMessage: Message = {
+      id: uuidv4(),
+      content,
+      type: envelope.type,
+      timestamp: envelope.timestamp,
+      sender: 'peer',
+      encrypted: true,
+      verified: isVerified,
+      signature,
+      auth: mac ? 'deniable' : 'signature',
+      senderCert: peerCert
     };
-  }, [pairingCode, crypto]);
+
+    setMessages(prev => [...prev, newMessage]);
+  };
+
+  const handleFrame = async (message: WireMessage) => {
+    if (!message || !pairingCodeRef.current) return;
+
+    try {
+      switch (message.type) {
+        case 'pairing-request':
+          await handlePairingRequest(message);
+          break;
+        case 'pairing-response':
+          pendingJoinRef.current?.(message);
+          break;
+        case 'pairing-confirm':
+          if (isCreatorRef.current) {
+            await handlePairingConfirm(message);
+          }
+          break;
+        case 'sas-confirm':
+          await handleSasConfirm(message);
+          break;
+        case 'chat-message':
+          if (isPairedRef.current) {
+            await handleChatMessage(message);
+          }
+          break;
+        case 'crl':
+          if (isPairedRef.current) {
+            await handleRevocationList(message.crl);
+          }
+          break;
+        case 'key-rotation':
+          if (isPairedRef.current) {
+            await handleKeyRotation(message.rotation);
+          }
+          break;
+        case 'disconnect':
+          resetSession();
+          break;
+      }
+    } catch (error) {
+      console.error('Failed to process received message:', error);
+    }
+  };
+
+  // Always dispatch to the latest handler so it sees the current crypto state
+  const handleFrameRef = useRef(handleFrame);
+  handleFrameRef.current = handleFrame;
 
   const generateCode = async (): Promise<string> => {
     try {
@@ -90,20 +670,18 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         throw new Error('Certificate not ready');
       }
 
-      await crypto.generateKeyPair();
+      await crypto.generateKeyPair(await CryptoSuites.preferred());
       const code = await crypto.generatePairingCode();
-      
-      // Save room to localStorage with user certificate info
-      const rooms = getRooms();
-      rooms[code] = {
-        creator: userId,
-        creatorCert: crypto.certificate,
-        created: Date.now()
-      };
-      saveRooms(rooms);
-      
-      setPairingCode(code);
-      setIsPaired(true);
+      const { locator } = PairingCode.parse(code)!;
+
+      // Only the locator reaches the transport; the secret stays on this device
+      await connectTransport(locator, true);
+      isCreatorRef.current = true;
+      failedPairingsRef.current = 0;
+      setPairingError(null);
+
+      // Stay unpaired until a joiner completes the key exchange
+      updatePairingCode(code);
       return code;
     } catch (error) {
       console.error('Failed to generate code:', error);
@@ -111,39 +689,125 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
-  const joinChat = async (code: string): Promise<boolean> => {
+  // Wait for the room creator's handshake response
+  const awaitPairingResponse = () => {
+    return new Promise<PairingResponse | null>((resolve) => {
+      const timeout = window.setTimeout(() => {
+        pendingJoinRef.current = null;
+        resolve(null);
+      }, PAIRING_TIMEOUT_MS);
+
+      pendingJoinRef.current = (response) => {
+        window.clearTimeout(timeout);
+        pendingJoinRef.current = null;
+        resolve(response);
+      };
+    });
+  };
+
+  const joinChat = async (code: string): Promise<JoinResult> => {
     try {
-      const rooms = getRooms();
-      const room = rooms[code];
-      
-      if (!room) {
-        console.log('Room not found:', code);
-        return false;
+      if (!crypto.certificate) {
+        throw new Error('Certificate not ready');
+      }
+
+      const parsed = PairingCode.parse(code);
+      if (!parsed) {
+        return 'invalid-code';
+      }
+
+      // A room only exists while its creator is waiting in it
+      const peers = await connectTransport(parsed.locator, false);
+      if (peers === 0) {
+        closeTransport();
+        return 'not-found';
+      }
+
+      // Offer a handshake key for every suite we support; the creator picks one
+      const { p256: publicKey, ...keyShares } = await crypto.generateKeyShares();
+      if (!publicKey) {
+        throw new Error('P-256 key share missing');
+      }
+      const spake = await Spake2.start('A', parsed.secret, parsed.locator);
+      const kemKeyPair = MlKem768.keygen();
+      const kemKey = arrayBufferToBase64(kemKeyPair.encapsulationKey);
+      updatePairingCode(PairingCode.format(code));
+      const status = await crypto.stapleCertificateStatus();
+
+      const request: PairingRequest = {
+        type: 'pairing-request',
+        room: parsed.locator,
+        publicKey,
+        keyShares,
+        certificate: crypto.certificate,
+        issuer: crypto.getIssuerInfo() ?? undefined,
+        pake: spake.messageBase64,
+        kem: kemKey,
+        ...(status && { status })
+      };
+      const responsePromise = awaitPairingResponse();
+      postFrame(request);
+
+      const response = await responsePromise;
+      if (!response?.accepted) {
+        closeTransport();
+        updatePairingCode(null);
+        if (!response) return 'timeout';
+        return response.reason === 'unsupported' ? 'unsupported' : 'rejected';
+      }
+
+      if (!response.pake || !response.confirmation || !response.certificate) {
+        throw new Error('Pairing response is missing the key exchange');
+      }
+
+      // An accepted response without a ciphertext comes from a creator predating the hybrid exchange
+      if (!response.kemCiphertext) {
+        console.warn('Pairing failed: room creator does not support ML-KEM');
+        postFrame({ type: 'pairing-confirm', accepted: false });
+        closeTransport();
+        updatePairingCode(null);
+        return 'unsupported';
       }
 
-      // Don't allow creator to join their own room
-      if (room.creator === userId) {
-        console.log('Cannot join your own room');
-        return false;
+      const suite = response.suite ?? DEFAULT_CRYPTO_SUITE;
+      if (!CryptoSuites.isKnown(suite) || !offeredKeyShares(request)[suite]) {
+        throw new Error('Room creator picked a suite we did not offer');
       }
 
-      // Check for username conflicts and handle them
-      if (room.creatorCert && crypto.certificate) {
-        const creatorUsername = room.creatorCert.subject.split('-')[0];
-        const myUsername = crypto.certificate.subject.split('-')[0];
-        
-        if (creatorUsername === myUsername) {
-          console.log('Username conflict detected, but certificates are unique');
-        }
+      // The creator's mode holds for both directions; absent means signed
+      const authMode = response.authMode ?? DEFAULT_MESSAGE_AUTH_MODE;
+      if (!(authMode in MESSAGE_AUTH_MODE_LABELS)) {
+        throw new Error('Room creator picked an unknown message authentication mode');
       }
 
-      await crypto.generateKeyPair();
-      setPairingCode(code);
-      setIsPaired(true);
-      return true;
+      const context = pairingContext(request, suite, response.publicKey, response.certificate, response.kemCiphertext, authMode);
+      const pake = await spake.finish(response.pake, context);
+
+      // A mismatch means the codes differ or someone is in the middle
+      if (!await pake.verifyPeer(response.confirmation)) {
+        console.warn('Pairing failed: key confirmation did not match');
+        postFrame({ type: 'pairing-confirm', accepted: false });
+        closeTransport();
+        updatePairingCode(null);
+        return 'wrong-code';
+      }
+
+      const exchange = await deriveShortAuthString(pake.sessionKey, context, 'joiner');
+      const kemSecret = MlKem768.decapsulate(base64ToArrayBuffer(response.kemCiphertext), kemKeyPair.decapsulationKey);
+      kemKeyPair.decapsulationKey.fill(0);
+      await crypto.establishSession(response.publicKey, 'responder', suite, pake.sessionKey, kemSecret);
+      kemSecret.fill(0);
+      updateMessageAuthMode(authMode);
+      postFrame({ type: 'pairing-confirm', confirmation: pake.confirmation, accepted: true });
+
+      // The chat opens once both users confirm the short authenticated string
+      startSasCheck(exchange, response.certificate, response.issuer, response.status);
+      return 'joined';
     } catch (error) {
       console.error('Failed to join chat:', error);
-      return false;
+      closeTransport();
+      updatePairingCode(null);
+      return 'failed';
     }
   };
 
@@ -151,38 +815,52 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     content: string,
     type: 'text' | 'image' | 'audio' | 'document'
   ): Promise<void> => {
-    if (!isPaired || !pairingCode || !crypto.certificate) {
+    const room = currentRoom();
+    if (!isPaired || !room || !crypto.certificate) {
       throw new Error('Not connected, paired, or certificate not available');
     }
 
     try {
-      // Sign the message
-      const signature = await crypto.signMessage(content);
+      // Sign or MAC the envelope, then encrypt it along with the content
+      sendSeqRef.current += 1;
+      const envelope = await MessageEnvelopes.create(
+        room,
+        crypto.certificate.id,
+        sendSeqRef.current,
+        type,
+        content
+      );
+      const serialized = MessageEnvelopes.serialize(envelope);
+      const mac = messageAuthMode === 'deniable' ? await crypto.macMessage(serialized) : undefined;
+      const signature = mac ? undefined : await crypto.signMessage(serialized);
+      const payload: ChatPayload = { envelope, content, ...(signature && { signature }), ...(mac && { mac }) };
+      // Pad before encrypting so the ciphertext only reveals a size bucket
+      const encrypted = await crypto.encryptMessage(
+        MessagePadding.pad(JSON.stringify(payload), type, paddingPolicy)
+      );
+
+      postFrame({
+        type: 'chat-message',
+        data: arrayBufferToBase64(encrypted.data),
+        iv: arrayBufferToBase64(encrypted.iv),
+        header: encrypted.header,
+        certificate: crypto.certificate
+      });
 
       const message: Message = {
         id: uuidv4(),
         content,
         type,
-        timestamp: Date.now(),
+        timestamp: envelope.timestamp,
         sender: 'self',
         encrypted: true,
         verified: true, // Self messages are always verified
         signature,
+        auth: messageAuthMode,
         senderCert: crypto.certificate
       };
 
       setMessages(prev => [...prev, message]);
-
-      // Broadcast message to other tabs
-      broadcastChannel.postMessage({
-        type: 'message',
-        roomCode: pairingCode,
-        content,
-        messageType: type,
-        signature,
-        certificate: crypto.certificate
-      });
-
       setMessageIndex(prev => prev + 1);
     } catch (error) {
       console.error('Failed to send message:', error);
@@ -190,34 +868,71 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
-  const leaveChat = () => {
-    if (pairingCode) {
-      const rooms = getRooms();
-      if (rooms[pairingCode]?.creator === userId) {
-        delete rooms[pairingCode];
-        saveRooms(rooms);
-        
-        // Notify other tabs that the room is closed
-        broadcastChannel.postMessage({
-          type: 'room_closed',
-          roomCode: pairingCode
-        });
-      }
-    }
+  // Tear down local session state without notifying the peer
+  const resetSession = () => {
+    pendingJoinRef.current = null;
+    clearPendingPairing();
+    isCreatorRef.current = false;
+    closeTransport();
     setMessages([]);
-    setIsPaired(false);
-    setPairingCode(null);
+    setRejectedMessages([]);
+    sendSeqRef.current = 0;
+    replayGuard.reset();
+    updatePaired(false);
+    updatePairingCode(null);
+    updatePeerCertificate(null);
+    setPeerRevocation(null);
+    setPeerTransparency(null);
+    setPeerCertificateStatus(null);
+    clearSasCheck();
+    setPaddingPolicy(DEFAULT_PADDING_POLICY);
+    updateMessageAuthMode(DEFAULT_MESSAGE_AUTH_MODE);
     setMessageIndex(0);
     crypto.reset();
   };
 
+  // Send a last frame to the peer, then close the transport
+  const closeWithFrame = (message: WireMessage) => {
+    const transport = transportRef.current;
+    transportRef.current = null;
+    transport?.send(message)
+      .catch(error => console.error('Failed to notify peer:', error))
+      .finally(() => transport.close());
+  };
+
+  const leaveChat = () => {
+    if (isPairedRef.current || pendingSasRef.current) {
+      // Notify the peer that the conversation is over before closing
+      closeWithFrame({ type: 'disconnect' });
+    } else {
+      closeTransport();
+    }
+    resetSession();
+  };
+
   return (
     <ChatContext.Provider
       value={{
         messages,
+        rejectedMessages,
         isConnected,
         isPaired,
         pairingCode,
+        pairingError,
+        peerCertificate,
+        peerVerification,
+        peerRevocation,
+        peerTransparency,
+        peerCertificateStatus,
+        shortAuthString,
+        shortAuthStringConfirmed,
+        confirmShortAuthString,
+        paddingPolicy,
+        setPaddingPolicy,
+        messageAuthMode,
+        setMessageAuthMode: chooseMessageAuthMode,
+        markPeerVerified,
+        clearPeerVerification,
         sendMessage,
         generateCode,
         joinChat,
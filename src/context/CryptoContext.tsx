@@ -1,27 +1,101 @@
-import React, { createContext, useContext, useState, ReactNode, useEffect } from 'react';
-import { KeyPair, EncryptedData, SigningKeyPair, Certificate } from '../types';
-import { CertificateManager } from '../utils/certificates';
+import React, { createContext, useContext, useState, ReactNode, useEffect, useRef } from 'react';
+import { KeyPair, EncryptedData, SigningKeyPair, Certificate, CertificateAuthority, CertificateExtensions, CaKeyShare, CryptoSuite, TrustAnchor, IdentityMode, KeyRotation, PathValidationResult, CertificateRevocationList, CertificateStatusResponse, RevocationReason, RevokedCertificate } from '../types';
+import { CertificateManager, CrlImportResult, DEFAULT_KEY_USAGE } from '../utils/certificates';
+import { TrustStore, TofuResult } from '../utils/trustStore';
 import { DigitalSigner } from '../utils/signing';
-import { ForwardSecrecy } from '../utils/forwardSecrecy';
-import { secureWipe } from '../utils/encoding';
+import { DoubleRatchet } from '../utils/doubleRatchet';
+import { PairingCode } from '../utils/pairingCode';
+import { IdentityMaterial, IdentityStore, StoredIdentityInfo } from '../utils/identityStore';
+import { IdentityBackup } from '../utils/identityBackup';
+import { KeyRotations } from '../utils/keyRotation';
+import { CryptoSuites, DEFAULT_CRYPTO_SUITE } from '../utils/cryptoSuites';
+import { KeyTransparency } from '../utils/keyTransparency';
+import { CertificateStatus } from '../utils/certificateStatus';
+import { MessageMacKeys, deriveMessageMacKeys } from '../utils/messageAuth';
+import { CaKeyShares } from '../utils/caKeyShares';
+import { secureWipe, stringToArrayBuffer } from '../utils/encoding';
+
+// The initiator answers the pairing request; the responder sent it
+export type SessionRole = 'initiator' | 'responder';
+
+// How often we check whether our certificate is due for renewal
+const RENEWAL_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+// Latest rotation of a persistent identity, so peers can follow it after a reload
+const KEY_ROTATION_STORAGE_KEY = 'cipher-key-rotation';
+// Extensions for new certificates, kept alongside the username
+const CERTIFICATE_EXTENSIONS_STORAGE_KEY = 'cipher-certificate-extensions';
+
+const loadCertificateExtensions = (): CertificateExtensions => {
+  try {
+    const stored = localStorage.getItem(CERTIFICATE_EXTENSIONS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : { keyUsage: DEFAULT_KEY_USAGE };
+  } catch {
+    return { keyUsage: DEFAULT_KEY_USAGE };
+  }
+};
 
 interface CryptoContextType {
   keyPair: KeyPair | null;
   signingKeyPair: SigningKeyPair | null;
   certificate: Certificate | null;
-  sharedSecret: CryptoKey | null;
+  hasSession: boolean;
+  sessionSuite: CryptoSuite | null;
   isInitializing: boolean;
-  generateKeyPair: () => Promise<KeyPair>;
+  identityMode: IdentityMode;
+  identityProtected: boolean;
+  lockedIdentity: StoredIdentityInfo | null;
+  unlockIdentity: (passphrase: string) => Promise<boolean>;
+  continueAnonymously: () => Promise<void>;
+  saveIdentity: (passphrase?: string) => Promise<void>;
+  forgetIdentity: () => Promise<void>;
+  exportIdentityBackup: (password: string, identityPassphrase?: string) => Promise<string>;
+  restoreIdentityBackup: (serialized: string, password: string) => Promise<void>;
+  generateKeyPair: (suite?: CryptoSuite) => Promise<KeyPair>;
+  generateKeyShares: () => Promise<Partial<Record<CryptoSuite, string>>>;
   generateSigningKeyPair: () => Promise<SigningKeyPair>;
   generateCertificate: (subject: string) => Promise<Certificate>;
   generatePairingCode: () => Promise<string>;
+  establishSession: (
+    peerPublicKey: string,
+    role: SessionRole,
+    suite: CryptoSuite,
+    pakeKey?: Uint8Array,
+    kemSecret?: Uint8Array
+  ) => Promise<void>;
   encryptMessage: (message: string) => Promise<EncryptedData>;
-  decryptMessage: (encryptedData: EncryptedData, messageIndex?: number) => Promise<string>;
+  decryptMessage: (encryptedData: EncryptedData) => Promise<string>;
   signMessage: (message: string) => Promise<string>;
   verifyMessage: (message: string, signature: string, senderCert: Certificate) => Promise<boolean>;
+  macMessage: (message: string) => Promise<string>;
+  verifyMessageMac: (message: string, mac: string, senderCert: Certificate) => Promise<boolean>;
   exportPublicKey: (key: CryptoKey) => Promise<string>;
-  importPublicKey: (keyData: string) => Promise<CryptoKey>;
-  verifyCertificate: (cert: Certificate) => Promise<boolean>;
+  importPublicKey: (keyData: string, suite?: CryptoSuite) => Promise<CryptoKey>;
+  importSigningPublicKey: (keyData: string, suite?: CryptoSuite) => Promise<CryptoKey>;
+  verifyCertificate: (cert: Certificate, stapledStatus?: CertificateStatusResponse) => Promise<boolean>;
+  checkCertificateStatus: (cert: Certificate, stapledStatus?: CertificateStatusResponse) => Promise<CertificateStatusResponse | null>;
+  stapleCertificateStatus: () => Promise<CertificateStatusResponse | null>;
+  validateCertificatePath: (cert: Certificate) => Promise<PathValidationResult>;
+  revokeCertificate: (reason: RevocationReason, identityPassphrase?: string, caKeyShares?: string[]) => Promise<void>;
+  keyRotation: KeyRotation | null;
+  renewCertificate: (identityPassphrase?: string, caKeyShares?: string[]) => Promise<KeyRotation>;
+  caKeyOffline: boolean;
+  startCAKeyCeremony: (threshold: number, total: number) => Promise<CaKeyShare[]>;
+  updateCertificateExtensions: (extensions: CertificateExtensions, caKeyShares?: string[]) => Promise<Certificate>;
+  verifyKeyRotation: (rotation: KeyRotation) => Promise<boolean>;
+  getRevocation: (cert: Certificate) => Promise<RevokedCertificate | null>;
+  getRevocationList: () => Promise<CertificateRevocationList | null>;
+  importRevocationList: (crl: CertificateRevocationList) => Promise<CrlImportResult>;
+  trustAnchors: TrustAnchor[];
+  getIssuerInfo: () => CertificateAuthority | null;
+  trustPeerIssuer: (issuer: CertificateAuthority, peerCert: Certificate) => TofuResult;
+  pinTrustAnchor: (ca: CertificateAuthority) => void;
+  removeTrustAnchor: (issuerId: string) => void;
+  exportTrustAnchors: () => string;
+  importTrustAnchors: (serialized: string) => number;
+  exportCertificatePem: (cert: Certificate) => Promise<string>;
+  exportCAPem: () => Promise<string>;
+  importTrustAnchorPem: (pem: string) => Promise<CertificateAuthority>;
+  importCertificatePem: (pem: string) => Certificate;
   reset: () => void;
 }
 
@@ -39,25 +113,92 @@ export const CryptoProvider: React.FC<{ children: ReactNode }> = ({ children })
   const [keyPair, setKeyPair] = useState<KeyPair | null>(null);
   const [signingKeyPair, setSigningKeyPair] = useState<SigningKeyPair | null>(null);
   const [certificate, setCertificate] = useState<Certificate | null>(null);
-  const [sharedSecret, setSharedSecret] = useState<CryptoKey | null>(null);
+  const [hasSession, setHasSession] = useState(false);
+  const [sessionSuite, setSessionSuite] = useState<CryptoSuite | null>(null);
   const [isInitializing, setIsInitializing] = useState(true);
+  const [identityMode, setIdentityMode] = useState<IdentityMode>('anonymous');
+  const [identityProtected, setIdentityProtected] = useState(false);
+  const [lockedIdentity, setLockedIdentity] = useState<StoredIdentityInfo | null>(null);
+  const [caKeyOffline, setCaKeyOffline] = useState(false);
   const [certificateManager] = useState(() => CertificateManager.getInstance());
+  const [identityStore] = useState(() => IdentityStore.getInstance());
+  const [trustStore] = useState(() => TrustStore.getInstance());
+  const [certificateStatus] = useState(() => CertificateStatus.getInstance());
+  const [trustAnchors, setTrustAnchors] = useState<TrustAnchor[]>(() => trustStore.listAnchors());
+  const [keyRotation, setKeyRotation] = useState<KeyRotation | null>(() => {
+    try {
+      const stored = localStorage.getItem(KEY_ROTATION_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch {
+      return null;
+    }
+  });
+
+  // Refs mirror the key state so handshake callbacks never see a stale closure
+  const keyPairRef = useRef<KeyPair | null>(null);
+  // One handshake key pair per offered suite, until the peer picks one
+  const keySharesRef = useRef<Map<CryptoSuite, KeyPair>>(new Map());
+  const sessionRef = useRef<DoubleRatchet | null>(null);
+  const messageMacKeysRef = useRef<MessageMacKeys | null>(null);
+  const signingKeyPairRef = useRef<SigningKeyPair | null>(null);
+  const certificateRef = useRef<Certificate | null>(null);
+  const identityModeRef = useRef<IdentityMode>('anonymous');
+
+  const updateSigningKeyPair = (pair: SigningKeyPair | null) => {
+    signingKeyPairRef.current = pair;
+    setSigningKeyPair(pair);
+  };
+
+  const updateCertificate = (cert: Certificate | null) => {
+    certificateRef.current = cert;
+    setCertificate(cert);
+  };
+
+  const updateIdentityMode = (mode: IdentityMode) => {
+    identityModeRef.current = mode;
+    setIdentityMode(mode);
+    setIdentityProtected(mode === 'persistent' && identityStore.isPassphraseProtected());
+  };
+
+  // Fresh keys and, once a username is known, a certificate for this session only
+  const startAnonymousIdentity = async () => {
+    await generateSigningKeyPair();
+
+    const savedUsername = localStorage.getItem('cipher-username');
+    if (savedUsername) {
+      await generateCertificate(savedUsername);
+    }
+  };
+
+  // Use a stored or restored identity's keys, CA and certificate
+  const applyIdentity = (identity: IdentityMaterial, mode: IdentityMode = 'persistent') => {
+    certificateManager.restoreCA(identity.ca, identity.caPrivateKey);
+    setCaKeyOffline(certificateManager.isCAKeyOffline());
+    updateSigningKeyPair(identity.signingKeyPair);
+    updateCertificate(identity.certificate);
+    updateIdentityMode(mode);
+    localStorage.setItem('cipher-username', identity.username);
+    refreshTrustAnchors();
+  };
 
   // Initialize crypto on mount - but don't generate certificate until username is set
   useEffect(() => {
     const initializeCrypto = async () => {
       try {
         setIsInitializing(true);
-        
-        // Only generate signing key pair initially
-        await generateSigningKeyPair();
-        
-        // Check if we have a saved username and generate certificate
-        const savedUsername = localStorage.getItem('cipher-username');
-        if (savedUsername) {
-          await generateCertificate(savedUsername);
+
+        // A stored identity wins; a passphrase-protected one waits for unlock
+        const stored = await identityStore.load().catch(error => {
+          console.error('Failed to read stored identity:', error);
+          return null;
+        });
+        if (stored?.passphraseProtected) {
+          setLockedIdentity(stored);
+        } else if (stored) {
+          applyIdentity(await identityStore.open());
+        } else {
+          await startAnonymousIdentity();
         }
-        
       } catch (error) {
         console.error('Failed to initialize crypto:', error);
       } finally {
@@ -71,9 +212,9 @@ export const CryptoProvider: React.FC<{ children: ReactNode }> = ({ children })
   // Cleanup on unmount or page unload
   useEffect(() => {
     const cleanup = () => {
-      secureWipe(keyPair);
-      secureWipe(signingKeyPair);
-      secureWipe(certificate);
+      secureWipe(keyPairRef.current);
+      secureWipe(signingKeyPairRef.current);
+      secureWipe(certificateRef.current);
       certificateManager.reset();
     };
 
@@ -85,25 +226,111 @@ export const CryptoProvider: React.FC<{ children: ReactNode }> = ({ children })
       window.removeEventListener('beforeunload', cleanup);
       window.removeEventListener('unload', cleanup);
     };
-  }, [keyPair, signingKeyPair, certificate, certificateManager]);
+  }, [certificateManager]);
+
+  // Unlock a passphrase-protected stored identity
+  const unlockIdentity = async (passphrase: string): Promise<boolean> => {
+    try {
+      applyIdentity(await identityStore.unlock(passphrase));
+      setLockedIdentity(null);
+      return true;
+    } catch (error) {
+      console.error('Failed to unlock identity:', error);
+      return false;
+    }
+  };
+
+  // Skip unlocking and use a throwaway identity; the stored one is kept
+  const continueAnonymously = async (): Promise<void> => {
+    setLockedIdentity(null);
+    await startAnonymousIdentity();
+  };
+
+  // Keep the current identity on this device, optionally behind a passphrase
+  const saveIdentity = async (passphrase?: string): Promise<void> => {
+    const ca = certificateManager.getCAInfo();
+    const caPrivateKey = certificateManager.getCAPrivateKey();
+    const pair = signingKeyPairRef.current;
+    const cert = certificateRef.current;
+    if (!ca || !pair || !cert) {
+      throw new Error('No identity to save');
+    }
 
-  // Generate ECDH key pair for encryption
-  const generateKeyPair = async (): Promise<KeyPair> => {
+    try {
+      await identityStore.save({
+        username: localStorage.getItem('cipher-username') || cert.subject,
+        certificate: cert,
+        ca,
+        signingKeyPair: pair,
+        caPrivateKey
+      }, passphrase);
+
+      // Switch to the stored, non-extractable copies of the keys
+      applyIdentity(passphrase ? await identityStore.unlock(passphrase) : await identityStore.open());
+    } catch (error) {
+      console.error('Failed to save identity:', error);
+      throw new Error('Identity could not be saved');
+    }
+  };
+
+  // Delete the stored identity; the current session keeps its keys
+  const forgetIdentity = async (): Promise<void> => {
+    await identityStore.clear();
+    localStorage.removeItem(KEY_ROTATION_STORAGE_KEY);
+    updateIdentityMode('anonymous');
+    if (lockedIdentity) {
+      await continueAnonymously();
+    }
+  };
+
+  // Write the current identity to a password-encrypted backup file
+  const exportIdentityBackup = async (password: string, identityPassphrase?: string): Promise<string> => {
+    let identity: IdentityMaterial;
+    if (identityModeRef.current === 'persistent') {
+      // Stored keys are non-extractable; only a passphrase-wrapped copy can be exported
+      identity = await identityStore.unlock(identityPassphrase ?? '', true);
+    } else {
+      const ca = certificateManager.getCAInfo();
+      const caPrivateKey = certificateManager.getCAPrivateKey();
+      const pair = signingKeyPairRef.current;
+      const cert = certificateRef.current;
+      if (!ca || !pair || !cert) {
+        throw new Error('No identity to back up');
+      }
+      identity = {
+        username: localStorage.getItem('cipher-username') || cert.subject,
+        certificate: cert,
+        ca,
+        signingKeyPair: pair,
+        caPrivateKey
+      };
+    }
+
+    return IdentityBackup.create(identity, password);
+  };
+
+  // Replace the current identity with one from a backup file, for this session
+  const restoreIdentityBackup = async (serialized: string, password: string): Promise<void> => {
+    const identity = await IdentityBackup.restore(serialized, password);
+    setLockedIdentity(null);
+    applyIdentity(identity, 'anonymous');
+  };
+
+  // Generate a handshake key pair for key agreement in the given suite
+  const generateKeyPair = async (suite: CryptoSuite = DEFAULT_CRYPTO_SUITE): Promise<KeyPair> => {
     try {
       const newKeyPair = await window.crypto.subtle.generateKey(
-        {
-          name: 'ECDH',
-          namedCurve: 'P-256'
-        },
+        CryptoSuites.algorithms(suite).keyAgreement,
         false,
-        ['deriveKey']
-      );
+        ['deriveKey', 'deriveBits']
+      ) as CryptoKeyPair;
 
       const pair = {
         publicKey: newKeyPair.publicKey,
         privateKey: newKeyPair.privateKey
       };
 
+      keyPairRef.current = pair;
       setKeyPair(pair);
       return pair;
     } catch (error) {
@@ -112,11 +339,24 @@ export const CryptoProvider: React.FC<{ children: ReactNode }> = ({ children })
     }
   };
 
-  // Generate ECDSA key pair for signing
+  // Joiner side: a handshake key for every suite we support, so the creator
+  // can pick the strongest one it also supports
+  const generateKeyShares = async (): Promise<Partial<Record<CryptoSuite, string>>> => {
+    const shares: Partial<Record<CryptoSuite, string>> = {};
+    keySharesRef.current.clear();
+    for (const suite of await CryptoSuites.supported()) {
+      const pair = await generateKeyPair(suite);
+      keySharesRef.current.set(suite, pair);
+      shares[suite] = await exportPublicKey(pair.publicKey);
+    }
+    return shares;
+  };
+
+  // Generate a signing key pair in the suite every peer can verify
   const generateSigningKeyPair = async (): Promise<SigningKeyPair> => {
     try {
       const newKeyPair = await certificateManager.generateSigningKeyPair();
-      setSigningKeyPair(newKeyPair);
+      updateSigningKeyPair(newKeyPair);
       return newKeyPair;
     } catch (error) {
       console.error('Failed to generate signing key pair:', error);
@@ -126,14 +366,8 @@ export const CryptoProvider: React.FC<{ children: ReactNode }> = ({ children })
 
   // Generate certificate for user
   const generateCertificate = async (subject: string): Promise<Certificate> => {
-    if (!signingKeyPair) {
-      // If signing key pair doesn't exist, generate it first
-      await generateSigningKeyPair();
-    }
-
-    if (!signingKeyPair) {
-      throw new Error('Signing key pair not available');
-    }
+    // If signing key pair doesn't exist, generate it first
+    const pair = signingKeyPairRef.current ?? await generateSigningKeyPair();
 
     try {
       // Add timestamp to make username unique in case of duplicates
@@ -141,9 +375,17 @@ export const CryptoProvider: React.FC<{ children: ReactNode }> = ({ children })
       
       const cert = await certificateManager.issueCertificate(
         uniqueSubject,
-        signingKeyPair.publicKey
+        pair.publicKey,
+        undefined,
+        undefined,
+        loadCertificateExtensions()
       );
-      setCertificate(cert);
+      updateCertificate(cert);
+      refreshTrustAnchors();
+
+      if (identityModeRef.current === 'persistent') {
+        await identityStore.updateCertificate(cert, subject);
+      }
       return cert;
     } catch (error) {
       console.error('Failed to generate certificate:', error);
@@ -151,52 +393,83 @@ export const CryptoProvider: React.FC<{ children: ReactNode }> = ({ children })
     }
   };
 
-  // Generate a secure random pairing code
+  // Generate a secure random pairing code: a room locator plus a PAKE secret
   const generatePairingCode = async (): Promise<string> => {
     try {
-      const array = new Uint8Array(4);
-      window.crypto.getRandomValues(array);
-      const code = Array.from(array)
-        .map(byte => byte.toString(16).padStart(2, '0'))
-        .join('')
-        .toUpperCase()
-        .slice(0, 6);
-      return code;
+      return PairingCode.generate();
     } catch (error) {
       console.error('Failed to generate pairing code:', error);
       throw new Error('Pairing code generation failed');
     }
   };
 
-  // Encrypt a message using forward secrecy
+  // Start a Double Ratchet session from our key pair in the negotiated suite and
+  // the peer's public key, bound to the pairing code through the PAKE key when
+  // one was agreed and hardened against future quantum attacks by the ML-KEM secret
+  const establishSession = async (
+    peerPublicKey: string,
+    role: SessionRole,
+    suite: CryptoSuite,
+    pakeKey?: Uint8Array,
+    kemSecret?: Uint8Array
+  ): Promise<void> => {
+    // A joiner keeps only the key share for the suite the creator picked
+    const ownKeyPair = keySharesRef.current.get(suite) ?? keyPairRef.current;
+    keySharesRef.current.clear();
+    if (!ownKeyPair || CryptoSuites.ofKey(ownKeyPair.privateKey) !== suite) {
+      throw new Error('No key pair for the negotiated suite');
+    }
+    keyPairRef.current = ownKeyPair;
+    setKeyPair(ownKeyPair);
+
+    try {
+      const peerKey = await importPublicKey(peerPublicKey, suite);
+      const ownPublicKey = await exportPublicKey(ownKeyPair.publicKey);
+      const sharedSecret = await DoubleRatchet.deriveSharedSecret(ownKeyPair.privateKey, peerKey, pakeKey, kemSecret);
+
+      // Bind both handshake keys, in a fixed order, into every message
+      const associatedData = stringToArrayBuffer(
+        role === 'initiator' ? ownPublicKey + peerPublicKey : peerPublicKey + ownPublicKey
+      );
+
+      sessionRef.current?.destroy();
+      sessionRef.current = role === 'initiator'
+        ? await DoubleRatchet.initAsInitiator(sharedSecret, ownKeyPair, peerPublicKey, associatedData)
+        : await DoubleRatchet.initAsResponder(sharedSecret, ownKeyPair, peerPublicKey, associatedData);
+      messageMacKeysRef.current = await deriveMessageMacKeys(sharedSecret, role);
+      sharedSecret.fill(0);
+      setHasSession(true);
+      setSessionSuite(suite);
+    } catch (error) {
+      console.error('Failed to establish session:', error);
+      throw new Error('Session establishment failed');
+    }
+  };
+
+  // Encrypt a message with the Double Ratchet session
   const encryptMessage = async (message: string): Promise<EncryptedData> => {
-    if (!sharedSecret) {
-      throw new Error('No shared secret established');
+    const session = sessionRef.current;
+    if (!session) {
+      throw new Error('No session established');
     }
 
     try {
-      return await ForwardSecrecy.encryptWithForwardSecrecy(message, sharedSecret);
+      return await session.encrypt(message);
     } catch (error) {
       console.error('Failed to encrypt message:', error);
       throw new Error('Message encryption failed');
     }
   };
 
-  // Decrypt a message using forward secrecy
-  const decryptMessage = async (
-    encryptedData: EncryptedData,
-    messageIndex: number = 0
-  ): Promise<string> => {
-    if (!sharedSecret) {
-      throw new Error('No shared secret established');
+  // Decrypt a message with the Double Ratchet session
+  const decryptMessage = async (encryptedData: EncryptedData): Promise<string> => {
+    const session = sessionRef.current;
+    if (!session) {
+      throw new Error('No session established');
     }
 
     try {
-      return await ForwardSecrecy.decryptWithForwardSecrecy(
-        encryptedData,
-        sharedSecret,
-        messageIndex
-      );
+      return await session.decrypt(encryptedData);
     } catch (error) {
       console.error('Failed to decrypt message:', error);
       throw new Error('Message decryption failed');
@@ -205,18 +478,35 @@ export const CryptoProvider: React.FC<{ children: ReactNode }> = ({ children })
 
   // Sign a message
   const signMessage = async (message: string): Promise<string> => {
-    if (!signingKeyPair) {
+    const pair = signingKeyPairRef.current;
+    if (!pair) {
       throw new Error('Signing key pair not generated');
     }
 
     try {
-      return await DigitalSigner.signData(message, signingKeyPair.privateKey);
+      return await DigitalSigner.signData(message, pair.privateKey);
     } catch (error) {
       console.error('Failed to sign message:', error);
       throw new Error('Message signing failed');
     }
   };
 
+  // A sender's certificate must have a valid path and not be revoked
+  // according to its status responder, whichever way its messages are authenticated
+  const isSenderCertificateValid = async (senderCert: Certificate): Promise<boolean> => {
+    const isCertValid = await certificateManager.verifyCertificate(senderCert);
+    if (!isCertValid) {
+      console.warn('Invalid certificate for message verification');
+      return false;
+    }
+    // Usually answered by the response the sender stapled when pairing
+    if ((await certificateStatus.check(senderCert))?.status === 'revoked') {
+      console.warn('Sender certificate is revoked according to its status responder');
+      return false;
+    }
+    return true;
+  };
+
   // Verify a message signature
   const verifyMessage = async (
     message: string,
@@ -225,14 +515,16 @@ export const CryptoProvider: React.FC<{ children: ReactNode }> = ({ children })
   ): Promise<boolean> => {
     try {
       // First verify the certificate
-      const isCertValid = await certificateManager.verifyCertificate(senderCert);
-      if (!isCertValid) {
-        console.warn('Invalid certificate for message verification');
+      if (!await isSenderCertificateValid(senderCert)) {
+        return false;
+      }
+      if (!CertificateManager.allowsKeyUsage(senderCert, 'chat-signing')) {
+        console.warn('Sender certificate is not for signing chat messages');
         return false;
       }
 
       // Then verify the message signature
-      const senderPublicKey = await certificateManager.importPublicKey(senderCert.publicKey);
+      const senderPublicKey = await certificateManager.importPublicKey(senderCert.publicKey, senderCert.suite);
       return await DigitalSigner.verifySignature(message, signature, senderPublicKey);
     } catch (error) {
       console.error('Message verification failed:', error);
@@ -240,6 +532,36 @@ export const CryptoProvider: React.FC<{ children: ReactNode }> = ({ children })
     }
   };
 
+  // MAC a message with our session MAC key, for deniable authentication
+  const macMessage = async (message: string): Promise<string> => {
+    const keys = messageMacKeysRef.current;
+    if (!keys) {
+      throw new Error('No session established');
+    }
+    return keys.mac(message);
+  };
+
+  // Verify a deniable message MAC from the peer. The certificate is still
+  // checked, but its key is not used, so it needs no chat-signing usage.
+  const verifyMessageMac = async (
+    message: string,
+    mac: string,
+    senderCert: Certificate
+  ): Promise<boolean> => {
+    const keys = messageMacKeysRef.current;
+    if (!keys) return false;
+
+    try {
+      if (!await isSenderCertificateValid(senderCert)) {
+        return false;
+      }
+      return await keys.verify(message, mac);
+    } catch (error) {
+      console.error('Message MAC verification failed:', error);
+      return false;
+    }
+  };
+
   // Export public key as base64
   const exportPublicKey = async (key: CryptoKey): Promise<string> => {
     try {
@@ -252,16 +574,13 @@ export const CryptoProvider: React.FC<{ children: ReactNode }> = ({ children })
   };
 
   // Import public key from base64
-  const importPublicKey = async (keyData: string): Promise<CryptoKey> => {
+  const importPublicKey = async (keyData: string, suite: CryptoSuite = DEFAULT_CRYPTO_SUITE): Promise<CryptoKey> => {
     try {
       const binaryKey = Uint8Array.from(atob(keyData), c => c.charCodeAt(0));
-      return window.crypto.subtle.importKey(
+      return await window.crypto.subtle.importKey(
         'raw',
         binaryKey,
-        {
-          name: 'ECDH',
-          namedCurve: 'P-256'
-        },
+        CryptoSuites.algorithms(suite).keyAgreement,
         true,
         []
       );
@@ -271,29 +590,383 @@ export const CryptoProvider: React.FC<{ children: ReactNode }> = ({ children })
     }
   };
 
-  // Verify certificate
-  const verifyCertificate = async (cert: Certificate): Promise<boolean> => {
+  // Verify a certificate's path, and that its status responder (or the
+  // response stapled to it) does not say it is revoked
+  const verifyCertificate = async (cert: Certificate, stapledStatus?: CertificateStatusResponse): Promise<boolean> => {
     try {
-      return await certificateManager.verifyCertificate(cert);
+      if (!await certificateManager.verifyCertificate(cert)) {
+        return false;
+      }
+      return (await certificateStatus.check(cert, stapledStatus))?.status !== 'revoked';
     } catch (error) {
       console.error('Certificate verification failed:', error);
       return false;
     }
   };
 
-  // Reset the crypto context
+  // Signed status of a certificate, from a valid stapled response or the
+  // status responder; null when neither gave a valid answer
+  const checkCertificateStatus = (
+    cert: Certificate,
+    stapledStatus?: CertificateStatusResponse
+  ): Promise<CertificateStatusResponse | null> => {
+    return certificateStatus.check(cert, stapledStatus);
+  };
+
+  // A fresh status response for our certificate, to staple to it when pairing
+  const stapleCertificateStatus = async (): Promise<CertificateStatusResponse | null> => {
+    const cert = certificateRef.current;
+    return cert ? certificateStatus.check(cert) : null;
+  };
+
+  // Delegate status signing for our CA to the status responder; needs the CA key
+  const registerStatusResponder = async (): Promise<void> => {
+    try {
+      await certificateStatus.register();
+    } catch (error) {
+      console.warn('Failed to register with the status responder:', error);
+    }
+  };
+
+  // Validate a certificate's chain, with the reason when it fails
+  const validateCertificatePath = (cert: Certificate): Promise<PathValidationResult> => {
+    return certificateManager.validatePath(cert);
+  };
+
+  // Import the signing public key from a certificate, for checking signatures
+  const importSigningPublicKey = async (keyData: string, suite?: CryptoSuite): Promise<CryptoKey> => {
+    try {
+      return await certificateManager.importPublicKey(keyData, suite);
+    } catch (error) {
+      console.error('Failed to import signing public key:', error);
+      throw new Error('Public key import failed');
+    }
+  };
+
+  // Run a CA operation, rebuilding the CA key from share files if it is
+  // offline; the rebuilt key also renews the status responder's delegation
+  const withCAKey = <T,>(caKeyShares: string[] | undefined, operation: () => Promise<T>): Promise<T> => {
+    if (!certificateManager.isCAKeyOffline()) {
+      return operation();
+    }
+    return certificateManager.withCAKeyShares((caKeyShares ?? []).map(share => CaKeyShares.parse(share)), async () => {
+      const result = await operation();
+      await registerStatusResponder();
+      return result;
+    });
+  };
+
+  // Move this session's identity to a new CA whose key exists only as
+  // threshold-of-total share files, returned for the custodians
+  const startCAKeyCeremony = async (threshold: number, total: number): Promise<CaKeyShare[]> => {
+    const cert = certificateRef.current;
+    const pair = signingKeyPairRef.current;
+    if (identityModeRef.current === 'persistent') {
+      throw new Error('Forget the saved identity before starting a key ceremony');
+    }
+    if (!cert || !pair) {
+      throw new Error('No identity to move to the new CA');
+    }
+
+    const shares = await certificateManager.initializeThresholdCA(threshold, total);
+    const reissued = await certificateManager.withCAKeyShares(shares.slice(0, threshold), async () => {
+      const issued = await certificateManager.issueCertificate(
+        cert.subject,
+        pair.publicKey,
+        undefined,
+        undefined,
+        cert.extensions ?? loadCertificateExtensions()
+      );
+      await registerStatusResponder();
+      return issued;
+    });
+    updateCertificate(reissued);
+    setCaKeyOffline(true);
+    refreshTrustAnchors();
+    return shares;
+  };
+
+  // Reissue our certificate for the same key with new extensions, which
+  // also become the default for later certificates
+  const updateCertificateExtensions = async (
+    extensions: CertificateExtensions,
+    caKeyShares?: string[]
+  ): Promise<Certificate> => {
+    const cert = certificateRef.current;
+    const pair = signingKeyPairRef.current;
+    if (!cert || !pair) {
+      throw new Error('No certificate to update');
+    }
+
+    const reissued = await withCAKey(caKeyShares, () => certificateManager.issueCertificate(
+      cert.subject,
+      pair.publicKey,
+      undefined,
+      undefined,
+      extensions
+    ));
+    if (identityModeRef.current === 'persistent') {
+      await identityStore.updateCertificate(reissued, localStorage.getItem('cipher-username') || cert.subject);
+    }
+    localStorage.setItem(CERTIFICATE_EXTENSIONS_STORAGE_KEY, JSON.stringify(reissued.extensions));
+    updateCertificate(reissued);
+    return reissued;
+  };
+
+  // Revoke our certificate and replace it, together with its signing key
+  const revokeCertificate = async (
+    reason: RevocationReason,
+    identityPassphrase?: string,
+    caKeyShares?: string[]
+  ): Promise<void> => {
+    const cert = certificateRef.current;
+    if (!cert) {
+      throw new Error('No certificate to revoke');
+    }
+
+    const username = localStorage.getItem('cipher-username') || cert.subject;
+    const pair = await certificateManager.generateSigningKeyPair();
+    const replacement = await withCAKey(caKeyShares, async () => {
+      const issued = await certificateManager.issueCertificate(
+        `${username}-${Date.now().toString(36)}`,
+        pair.publicKey,
+        undefined,
+        undefined,
+        cert.extensions ?? loadCertificateExtensions()
+      );
+
+      // Store the replacement first, so a wrong passphrase leaves nothing revoked
+      if (identityModeRef.current === 'persistent') {
+        await identityStore.replaceSigningKey(pair, issued, identityPassphrase);
+      }
+      const crl = await certificateManager.revokeCertificate(cert, reason);
+      certificateStatus.publishRevocationList(crl).catch(error => {
+        console.warn('Failed to publish revocation list to the status responder:', error);
+      });
+      return issued;
+    });
+    await switchSigningIdentity(pair, replacement, identityPassphrase);
+  };
+
+  // Switch to a new signing key and certificate already written to the identity store
+  const switchSigningIdentity = async (
+    pair: SigningKeyPair,
+    cert: Certificate,
+    identityPassphrase?: string
+  ): Promise<void> => {
+    if (identityModeRef.current === 'persistent') {
+      applyIdentity(identityStore.isPassphraseProtected()
+        ? await identityStore.unlock(identityPassphrase ?? '')
+        : await identityStore.open());
+    } else {
+      secureWipe(signingKeyPairRef.current);
+      updateSigningKeyPair(pair);
+      updateCertificate(cert);
+    }
+  };
+
+  // Renew our certificate under a new signing key, keeping the subject, and
+  // sign the rotation with the old key so peers can follow it
+  const renewCertificate = async (identityPassphrase?: string, caKeyShares?: string[]): Promise<KeyRotation> => {
+    const cert = certificateRef.current;
+    const oldPair = signingKeyPairRef.current;
+    if (!cert || !oldPair) {
+      throw new Error('No certificate to renew');
+    }
+
+    const pair = await certificateManager.generateSigningKeyPair();
+    const renewed = await withCAKey(caKeyShares, () => certificateManager.issueCertificate(
+      cert.subject,
+      pair.publicKey,
+      undefined,
+      undefined,
+      cert.extensions ?? loadCertificateExtensions()
+    ));
+    const rotation = await KeyRotations.create(cert, oldPair.privateKey, renewed);
+
+    if (identityModeRef.current === 'persistent') {
+      await identityStore.replaceSigningKey(pair, renewed, identityPassphrase);
+      localStorage.setItem(KEY_ROTATION_STORAGE_KEY, JSON.stringify(rotation));
+    }
+    await switchSigningIdentity(pair, renewed, identityPassphrase);
+    setKeyRotation(rotation);
+    return rotation;
+  };
+
+  // The renewal timer must call the latest renewCertificate
+  const renewCertificateRef = useRef(renewCertificate);
+  renewCertificateRef.current = renewCertificate;
+  const isRenewingRef = useRef(false);
+
+  // Renew automatically once the certificate nears expiry. A passphrase-protected
+  // identity cannot be re-stored without its passphrase, and an offline CA key
+  // needs its shares, so those are renewed by hand.
+  useEffect(() => {
+    if (!certificate || identityProtected || caKeyOffline) return;
+
+    const renewIfDue = () => {
+      const cert = certificateRef.current;
+      if (!cert || isRenewingRef.current || !KeyRotations.needsRenewal(cert)) return;
+
+      isRenewingRef.current = true;
+      renewCertificateRef.current()
+        .catch(error => console.error('Automatic certificate renewal failed:', error))
+        .finally(() => {
+          isRenewingRef.current = false;
+        });
+    };
+
+    renewIfDue();
+    const timer = window.setInterval(renewIfDue, RENEWAL_CHECK_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [certificate, identityProtected, caKeyOffline]);
+
+  // Publish each certificate we use, renewals and replacements included, so
+  // peers can find it in the transparency log
+  useEffect(() => {
+    if (!certificate) return;
+    KeyTransparency.getInstance().publish(certificate).catch(error => {
+      console.warn('Failed to publish certificate to the transparency log:', error);
+    });
+  }, [certificate]);
+
+  // Keep the status responder answering for our CA while its key is online
+  useEffect(() => {
+    if (!certificate || caKeyOffline) return;
+    certificateStatus.register().catch(error => {
+      console.warn('Failed to register with the status responder:', error);
+    });
+  }, [certificate, caKeyOffline, certificateStatus]);
+
+  // Check a peer's key rotation: the renewed certificate must be valid and
+  // the key it replaces must not have been revoked
+  const verifyKeyRotation = async (rotation: KeyRotation): Promise<boolean> => {
+    try {
+      if (!await certificateManager.verifyCertificate(rotation.next)) {
+        return false;
+      }
+      if (await certificateManager.getRevocation(rotation.previous)) {
+        console.warn('Ignoring key rotation signed by a revoked key');
+        return false;
+      }
+      return await KeyRotations.verify(rotation);
+    } catch (error) {
+      console.error('Key rotation verification failed:', error);
+      return false;
+    }
+  };
+
+  // Why a certificate was revoked, if its issuer's revocation list says so
+  const getRevocation = async (cert: Certificate): Promise<RevokedCertificate | null> => {
+    try {
+      return await certificateManager.getRevocation(cert);
+    } catch (error) {
+      console.error('Revocation check failed:', error);
+      return null;
+    }
+  };
+
+  // Our CA's signed revocation list, to share with peers
+  const getRevocationList = (): Promise<CertificateRevocationList | null> => {
+    return certificateManager.getRevocationList();
+  };
+
+  // Accept a peer CA's revocation list if a trust anchor signed it
+  const importRevocationList = (crl: CertificateRevocationList): Promise<CrlImportResult> => {
+    return certificateManager.importRevocationList(crl);
+  };
+
+  const refreshTrustAnchors = () => setTrustAnchors(trustStore.listAnchors());
+
+  // Public info about the CA that issued our certificate
+  const getIssuerInfo = (): CertificateAuthority | null => {
+    return certificateManager.getCAInfo();
+  };
+
+  // Trust a peer's issuing CA the first time we see it
+  const trustPeerIssuer = (issuer: CertificateAuthority, peerCert: Certificate): TofuResult => {
+    // With intermediate CAs the shared issuer is the root of the chain
+    if (issuer.id !== certificateManager.rootIssuer(peerCert)) {
+      console.warn('Peer issuer does not match its certificate');
+      return 'conflict';
+    }
+
+    const result = trustStore.trustOnFirstUse(issuer);
+    if (result === 'conflict') {
+      console.warn('Peer presented a different key for a known issuer:', issuer.id);
+    }
+    refreshTrustAnchors();
+    return result;
+  };
+
+  // Explicitly pin a CA key
+  const pinTrustAnchor = (ca: CertificateAuthority) => {
+    trustStore.pin(ca);
+    refreshTrustAnchors();
+  };
+
+  const removeTrustAnchor = (issuerId: string) => {
+    trustStore.remove(issuerId);
+    refreshTrustAnchors();
+  };
+
+  const exportTrustAnchors = (): string => {
+    return trustStore.export();
+  };
+
+  const importTrustAnchors = (serialized: string): number => {
+    const imported = trustStore.import(serialized);
+    refreshTrustAnchors();
+    return imported;
+  };
+
+  // Encode a certificate as X.509 PEM
+  const exportCertificatePem = (cert: Certificate): Promise<string> => {
+    return certificateManager.exportCertificatePem(cert);
+  };
+
+  // Our CA as a self-signed X.509 certificate
+  const exportCAPem = (): Promise<string> => {
+    return certificateManager.exportCAPem();
+  };
+
+  // Trust a self-signed X.509 CA certificate
+  const importTrustAnchorPem = async (pem: string): Promise<CertificateAuthority> => {
+    const ca = await certificateManager.importCAPem(pem);
+    if (!trustStore.importCA(ca)) {
+      throw new Error('A different key is already trusted for this CA');
+    }
+    refreshTrustAnchors();
+    return ca;
+  };
+
+  // Read an X.509 certificate (with its chain, if bundled) for verification
+  const importCertificatePem = (pem: string): Certificate => {
+    return certificateManager.importCertificatePem(pem);
+  };
+
+  // Reset the crypto context. A persistent identity survives; an anonymous one is discarded.
   const reset = () => {
     // Secure cleanup
     secureWipe(keyPair);
-    secureWipe(signingKeyPair);
-    secureWipe(certificate);
-    
+    sessionRef.current?.destroy();
+    keyPairRef.current = null;
+    keySharesRef.current.clear();
+    sessionRef.current = null;
+    messageMacKeysRef.current = null;
     setKeyPair(null);
-    setSigningKeyPair(null);
-    setCertificate(null);
-    setSharedSecret(null);
+    setHasSession(false);
+    setSessionSuite(null);
+
+    if (identityModeRef.current === 'persistent') return;
+
+    secureWipe(signingKeyPairRef.current);
+    secureWipe(certificateRef.current);
+    updateSigningKeyPair(null);
+    updateCertificate(null);
     certificateManager.reset();
-    ForwardSecrecy.resetCounter();
+    setCaKeyOffline(false);
+    refreshTrustAnchors();
   };
 
   return (
@@ -302,19 +975,59 @@ export const CryptoProvider: React.FC<{ children: ReactNode }> = ({ children })
         keyPair,
         signingKeyPair,
         certificate,
-        sharedSecret,
+        hasSession,
+        sessionSuite,
         isInitializing,
+        identityMode,
+        identityProtected,
+        lockedIdentity,
+        unlockIdentity,
+        continueAnonymously,
+        saveIdentity,
+        forgetIdentity,
+        exportIdentityBackup,
+        restoreIdentityBackup,
         generateKeyPair,
+        generateKeyShares,
         generateSigningKeyPair,
         generateCertificate,
         generatePairingCode,
+        establishSession,
         encryptMessage,
         decryptMessage,
         signMessage,
         verifyMessage,
+        macMessage,
+        verifyMessageMac,
         exportPublicKey,
         importPublicKey,
+        importSigningPublicKey,
         verifyCertificate,
+        checkCertificateStatus,
+        stapleCertificateStatus,
+        validateCertificatePath,
+        revokeCertificate,
+        // Only the rotation that produced the current certificate is announced
+        keyRotation: keyRotation && keyRotation.next.id === certificate?.id ? keyRotation : null,
+        renewCertificate,
+        caKeyOffline,
+        startCAKeyCeremony,
+        updateCertificateExtensions,
+        verifyKeyRotation,
+        getRevocation,
+        getRevocationList,
+        importRevocationList,
+        trustAnchors,
+        getIssuerInfo,
+        trustPeerIssuer,
+        pinTrustAnchor,
+        removeTrustAnchor,
+        exportTrustAnchors,
+        importTrustAnchors,
+        exportCertificatePem,
+        exportCAPem,
+        importTrustAnchorPem,
+        importCertificatePem,
         reset
       }}
     >
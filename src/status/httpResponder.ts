@@ -0,0 +1,47 @@
+import { Certificate, CertificateAuthority, CertificateRevocationList, CertificateStatusResponse, StatusResponder } from '../types';
+
+// Pairing waits on a stapled response, so a slow responder must not hold it up
+const REQUEST_TIMEOUT_MS = 5000;
+
+/**
+ * Client for the responder server in server/statusResponder.ts
+ */
+export class HttpStatusResponder implements StatusResponder {
+  private readonly baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async publicKey(): Promise<string> {
+    return (await this.request<{ publicKey: string }>('/key')).publicKey;
+  }
+
+  async register(ca: CertificateAuthority, delegation: Certificate, crl: CertificateRevocationList): Promise<void> {
+    await this.request('/register', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ca, delegation, crl })
+    });
+  }
+
+  async publishRevocationList(crl: CertificateRevocationList): Promise<void> {
+    await this.request('/crl', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(crl)
+    });
+  }
+
+  status(issuer: string, certificateId: string, fingerprint: string): Promise<CertificateStatusResponse> {
+    return this.request(`/status?${new URLSearchParams({ issuer, certificateId, fingerprint })}`);
+  }
+
+  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(this.baseUrl + path, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`Status responder request failed: ${response.status}`);
+    }
+    return response.json();
+  }
+}
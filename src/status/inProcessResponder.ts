@@ -0,0 +1,46 @@
+import { Certificate, CertificateAuthority, CertificateRevocationList, CertificateStatusResponse, StatusResponder } from '../types';
+import { StatusResponderService, StatusResponderStorage } from './responderService';
+
+const REGISTRATIONS_KEY = 'cipher-status-responder';
+const SIGNING_KEY = 'cipher-status-responder-key';
+
+const localStorageBackend: StatusResponderStorage = {
+  loadRegistrations: () => JSON.parse(localStorage.getItem(REGISTRATIONS_KEY) || '{}'),
+  saveRegistrations: registrations => localStorage.setItem(REGISTRATIONS_KEY, JSON.stringify(registrations)),
+  loadKey: () => JSON.parse(localStorage.getItem(SIGNING_KEY) || 'null'),
+  saveKey: key => localStorage.setItem(SIGNING_KEY, JSON.stringify(key))
+};
+
+/**
+ * Responder kept in localStorage and shared by every tab of this origin.
+ * Enough when both peers chat from one browser; peers on different
+ * machines need a common responder server.
+ */
+export class InProcessStatusResponder implements StatusResponder {
+  private service: Promise<StatusResponderService> | null = null;
+
+  constructor(private readonly storage: StatusResponderStorage = localStorageBackend) {}
+
+  async publicKey(): Promise<string> {
+    return (await this.open()).publicKey();
+  }
+
+  async register(ca: CertificateAuthority, delegation: Certificate, crl: CertificateRevocationList): Promise<void> {
+    return (await this.open()).register(ca, delegation, crl);
+  }
+
+  async publishRevocationList(crl: CertificateRevocationList): Promise<void> {
+    return (await this.open()).publishRevocationList(crl);
+  }
+
+  async status(issuer: string, certificateId: string, fingerprint: string): Promise<CertificateStatusResponse> {
+    return (await this.open()).status(issuer, certificateId, fingerprint);
+  }
+
+  private open(): Promise<StatusResponderService> {
+    if (!this.service) {
+      this.service = StatusResponderService.open(this.storage);
+    }
+    return this.service;
+  }
+}
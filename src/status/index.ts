@@ -0,0 +1,18 @@
+import { StatusResponder } from '../types';
+import { HttpStatusResponder } from './httpResponder';
+import { InProcessStatusResponder } from './inProcessResponder';
+
+export { HttpStatusResponder } from './httpResponder';
+export { InProcessStatusResponder } from './inProcessResponder';
+export { StatusResponderService } from './responderService';
+export type { StatusRegistration, StatusResponderStorage } from './responderService';
+
+const RESPONDER_URL = import.meta.env.VITE_STATUS_RESPONDER_URL;
+
+/**
+ * Responder picked at startup: the responder server at
+ * VITE_STATUS_RESPONDER_URL, or one kept in this browser when it is not set
+ */
+export function createStatusResponder(): StatusResponder {
+  return RESPONDER_URL ? new HttpStatusResponder(RESPONDER_URL) : new InProcessStatusResponder();
+}
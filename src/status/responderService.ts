@@ -0,0 +1,220 @@
+import { Certificate, CertificateAuthority, CertificateRevocationList, CertificateStatusResponse, StatusResponder } from '../types';
+import { CanonicalJson } from '../utils/canonicalJson';
+import { CertificateManager } from '../utils/certificates';
+import { CryptoSuites } from '../utils/cryptoSuites';
+import { arrayBufferToBase64, base64ToArrayBuffer } from '../utils/encoding';
+
+const ECDSA_KEY: EcKeyImportParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const ECDSA_SIGN: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+// Longest a response may be relied on, however long its revocation list lasts
+const RESPONSE_VALIDITY_MS = 60 * 60 * 1000;
+// Cached answers are dropped all at once past this; they are cheap to sign again
+const MAX_CACHED_RESPONSES = 10000;
+
+// What a CA registered with the responder
+export interface StatusRegistration {
+  ca: CertificateAuthority; // Pinned by the first registration
+  delegation: Certificate; // Issued by the CA for our key
+  crl: CertificateRevocationList; // Latest seen, verified against the pinned CA key
+}
+
+/**
+ * Where a responder keeps its registrations and signing key. Reads happen
+ * before every operation, so several instances can share one store.
+ */
+export interface StatusResponderStorage {
+  loadRegistrations(): Record<string, StatusRegistration>; // By CA identifier
+  saveRegistrations(registrations: Record<string, StatusRegistration>): void;
+  loadKey(): JsonWebKey | null; // Private response signing key
+  saveKey(key: JsonWebKey): void;
+}
+
+/**
+ * Certificate status responder. CAs register a certificate delegating
+ * status signing to the responder's P-256 key along with their revocation
+ * list; the responder then answers good/revoked/unknown for any of their
+ * certificates, signed and valid until the list's next update or an hour,
+ * whichever is sooner. Runs in the browser and in the Node responder alike.
+ */
+export class StatusResponderService implements StatusResponder {
+  // Signed answers, reused until halfway to their nextUpdate
+  private cache = new Map<string, CertificateStatusResponse>();
+
+  private constructor(
+    private readonly storage: StatusResponderStorage,
+    private readonly signingKey: CryptoKey,
+    private readonly verifyingKey: CryptoKey
+  ) {}
+
+  static async open(storage: StatusResponderStorage): Promise<StatusResponderService> {
+    const subtle = globalThis.crypto.subtle;
+    let jwk = storage.loadKey();
+    if (!jwk) {
+      const keyPair = await subtle.generateKey(ECDSA_KEY, true, ['sign', 'verify']);
+      const generated = await subtle.exportKey('jwk', keyPair.privateKey);
+      // Another instance sharing the storage may have created one meanwhile
+      jwk = storage.loadKey();
+      if (!jwk) {
+        storage.saveKey(generated);
+        jwk = generated;
+      }
+    }
+
+    const { kty, crv, x, y } = jwk;
+    const signingKey = await subtle.importKey('jwk', jwk, ECDSA_KEY, false, ['sign']);
+    const verifyingKey = await subtle.importKey('jwk', { kty, crv, x, y }, ECDSA_KEY, true, ['verify']);
+    return new StatusResponderService(storage, signingKey, verifyingKey);
+  }
+
+  /**
+   * The bytes a status response signature covers
+   */
+  static responseData(response: Omit<CertificateStatusResponse, 'responder' | 'signature'>): Uint8Array {
+    const { issuer, certificateId, fingerprint, status, revocation, crlSequence, producedAt, nextUpdate } = response;
+    return CanonicalJson.encode({ issuer, certificateId, fingerprint, status, revocation, crlSequence, producedAt, nextUpdate });
+  }
+
+  async publicKey(): Promise<string> {
+    return arrayBufferToBase64(await globalThis.crypto.subtle.exportKey('raw', this.verifyingKey));
+  }
+
+  /**
+   * Answer for a CA's certificates from now on. The CA is pinned by its
+   * first registration; later ones may renew the delegation and list.
+   */
+  async register(ca: CertificateAuthority, delegation: Certificate, crl: CertificateRevocationList): Promise<void> {
+    if (typeof ca?.id !== 'string' || typeof ca.publicKey !== 'string') {
+      throw new Error('Not a CA');
+    }
+
+    const pinned = this.storage.loadRegistrations()[ca.id]?.ca ?? ca;
+    if (pinned.publicKey !== ca.publicKey) {
+      throw new Error('CA is registered with a different key');
+    }
+    await this.checkDelegation(pinned, delegation);
+    await this.checkRevocationList(pinned, crl);
+
+    // Load, compare and save with no await in between, so concurrent
+    // registrations never replace a newer list with an older one
+    const registrations = this.storage.loadRegistrations();
+    const current = registrations[ca.id];
+    if (current && current.ca.publicKey !== pinned.publicKey) {
+      throw new Error('CA is registered with a different key');
+    }
+    registrations[ca.id] = {
+      ca: pinned,
+      delegation,
+      crl: current && current.crl.sequence > crl.sequence ? current.crl : crl
+    };
+    this.storage.saveRegistrations(registrations);
+  }
+
+  /**
+   * Take a registered CA's newer revocation list
+   */
+  async publishRevocationList(crl: CertificateRevocationList): Promise<void> {
+    const registration = this.storage.loadRegistrations()[crl?.issuer];
+    if (!registration) {
+      throw new Error('CA is not registered');
+    }
+    await this.checkRevocationList(registration.ca, crl);
+
+    const registrations = this.storage.loadRegistrations();
+    const current = registrations[crl.issuer];
+    if (current && current.crl.sequence < crl.sequence) {
+      registrations[crl.issuer] = { ...current, crl };
+      this.storage.saveRegistrations(registrations);
+    }
+  }
+
+  /**
+   * Signed status of one certificate. Good means its CA's current list does
+   * not revoke it; unknown that the CA is not registered, or its list or
+   * delegation has expired.
+   */
+  async status(issuer: string, certificateId: string, fingerprint: string): Promise<CertificateStatusResponse> {
+    if (typeof issuer !== 'string' || typeof certificateId !== 'string' || typeof fingerprint !== 'string') {
+      throw new Error('Issuer, certificate ID and fingerprint are required');
+    }
+
+    const now = Date.now();
+    const registration = this.storage.loadRegistrations()[issuer];
+    const cacheKey = `${issuer}\n${fingerprint}\n${certificateId}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached && cached.crlSequence === registration?.crl.sequence &&
+        now < cached.producedAt + (cached.nextUpdate - cached.producedAt) / 2) {
+      return cached;
+    }
+
+    const current = !!registration && now < registration.crl.nextUpdate && now < registration.delegation.expiresAt;
+    const revocation = current ? registration.crl.revoked.find(entry => entry.fingerprint === fingerprint) : undefined;
+    const unsigned = {
+      issuer,
+      certificateId,
+      fingerprint,
+      status: !current ? 'unknown' as const : revocation ? 'revoked' as const : 'good' as const,
+      ...(revocation && { revocation }),
+      ...(current && { crlSequence: registration.crl.sequence }),
+      producedAt: now,
+      nextUpdate: Math.min(now + RESPONSE_VALIDITY_MS, current ? registration.crl.nextUpdate : Infinity)
+    };
+    const signature = await globalThis.crypto.subtle.sign(
+      ECDSA_SIGN,
+      this.signingKey,
+      StatusResponderService.responseData(unsigned)
+    );
+    const response: CertificateStatusResponse = {
+      ...unsigned,
+      ...(registration && { responder: registration.delegation }),
+      signature: arrayBufferToBase64(signature)
+    };
+
+    if (this.cache.size >= MAX_CACHED_RESPONSES) {
+      this.cache.clear();
+    }
+    this.cache.set(cacheKey, response);
+    return response;
+  }
+
+  // The delegation must be issued by the CA to our key, for status signing only
+  private async checkDelegation(ca: CertificateAuthority, delegation: Certificate): Promise<void> {
+    const isDelegation = typeof delegation?.signature === 'string' &&
+      delegation.issuer === ca.id &&
+      delegation.publicKey === await this.publicKey() &&
+      !delegation.ca &&
+      delegation.extensions?.keyUsage?.length === 1 &&
+      delegation.extensions.keyUsage[0] === 'status-signing' &&
+      Date.now() < delegation.expiresAt;
+    if (!isDelegation) {
+      throw new Error('Not a status signing certificate for this responder');
+    }
+    if (!await this.verifyBy(ca, CertificateManager.signedBytes(delegation), delegation.signature)) {
+      throw new Error('Status signing certificate is not signed by the CA');
+    }
+  }
+
+  private async checkRevocationList(ca: CertificateAuthority, crl: CertificateRevocationList): Promise<void> {
+    if (!CertificateManager.isWellFormedRevocationList(crl) || crl.issuer !== ca.id) {
+      throw new Error('Not a revocation list of this CA');
+    }
+    if (!await this.verifyBy(ca, CertificateManager.revocationListBytes(crl), crl.signature)) {
+      throw new Error('Revocation list is not signed by the CA');
+    }
+  }
+
+  private async verifyBy(ca: CertificateAuthority, data: Uint8Array, signature: string): Promise<boolean> {
+    try {
+      const subtle = globalThis.crypto.subtle;
+      const key = await subtle.importKey(
+        'raw',
+        base64ToArrayBuffer(ca.publicKey),
+        CryptoSuites.algorithms(ca.suite).signingKey,
+        false,
+        ['verify']
+      );
+      return await subtle.verify(CryptoSuites.signatureParams(key), key, base64ToArrayBuffer(signature), data);
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,3 @@
+// Tests run in Node, whose WebCrypto, TextEncoder and atob/btoa the browser
+// code reaches through `window`
+Object.assign(globalThis, { window: globalThis });
@@ -0,0 +1,54 @@
+import { Certificate, ConsistencyProof, InclusionProof, SignedTreeHead, TransparencyLog, TransparencyLogEntry } from '../types';
+
+/**
+ * Client for the log server in server/transparencyLog.ts
+ */
+export class HttpTransparencyLog implements TransparencyLog {
+  private readonly baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async publicKey(): Promise<string> {
+    return (await this.request<{ publicKey: string }>('/key')).publicKey;
+  }
+
+  publish(certificate: Certificate): Promise<TransparencyLogEntry> {
+    return this.request('/entries', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(certificate)
+    });
+  }
+
+  treeHead(): Promise<SignedTreeHead> {
+    return this.request('/sth');
+  }
+
+  async proveInclusion(leafHash: string, treeSize: number): Promise<InclusionProof | null> {
+    const query = new URLSearchParams({ leafHash, treeSize: String(treeSize) });
+    return this.request<InclusionProof | null>(`/proof/inclusion?${query}`, undefined, true);
+  }
+
+  proveConsistency(firstSize: number, secondSize: number): Promise<ConsistencyProof> {
+    const query = new URLSearchParams({ first: String(firstSize), second: String(secondSize) });
+    return this.request(`/proof/consistency?${query}`);
+  }
+
+  entriesFor(subject: string): Promise<TransparencyLogEntry[]> {
+    return this.request(`/entries?${new URLSearchParams({ subject })}`);
+  }
+
+  // Not found resolves with null where the caller allows it
+  private async request<T>(path: string, init?: RequestInit, allowNotFound = false): Promise<T> {
+    const response = await fetch(this.baseUrl + path, init);
+    if (allowNotFound && response.status === 404) {
+      return null as T;
+    }
+    if (!response.ok) {
+      throw new Error(`Transparency log request failed: ${response.status}`);
+    }
+    return response.json();
+  }
+}
@@ -0,0 +1,54 @@
+import { Certificate, ConsistencyProof, InclusionProof, SignedTreeHead, TransparencyLog, TransparencyLogEntry } from '../types';
+import { TransparencyLogService, TransparencyLogStorage } from './logService';
+
+const ENTRIES_KEY = 'cipher-transparency-log';
+const SIGNING_KEY = 'cipher-transparency-log-key';
+
+const localStorageBackend: TransparencyLogStorage = {
+  loadEntries: () => JSON.parse(localStorage.getItem(ENTRIES_KEY) || '[]'),
+  saveEntries: entries => localStorage.setItem(ENTRIES_KEY, JSON.stringify(entries)),
+  loadKey: () => JSON.parse(localStorage.getItem(SIGNING_KEY) || 'null'),
+  saveKey: key => localStorage.setItem(SIGNING_KEY, JSON.stringify(key))
+};
+
+/**
+ * Log kept in localStorage and shared by every tab of this origin. Enough
+ * when both peers chat from one browser; peers on different machines need
+ * a common log server.
+ */
+export class InProcessTransparencyLog implements TransparencyLog {
+  private service: Promise<TransparencyLogService> | null = null;
+
+  constructor(private readonly storage: TransparencyLogStorage = localStorageBackend) {}
+
+  async publicKey(): Promise<string> {
+    return (await this.open()).publicKey();
+  }
+
+  async publish(certificate: Certificate): Promise<TransparencyLogEntry> {
+    return (await this.open()).publish(certificate);
+  }
+
+  async treeHead(): Promise<SignedTreeHead> {
+    return (await this.open()).treeHead();
+  }
+
+  async proveInclusion(leafHash: string, treeSize: number): Promise<InclusionProof | null> {
+    return (await this.open()).proveInclusion(leafHash, treeSize);
+  }
+
+  async proveConsistency(firstSize: number, secondSize: number): Promise<ConsistencyProof> {
+    return (await this.open()).proveConsistency(firstSize, secondSize);
+  }
+
+  async entriesFor(subject: string): Promise<TransparencyLogEntry[]> {
+    return (await this.open()).entriesFor(subject);
+  }
+
+  private open(): Promise<TransparencyLogService> {
+    if (!this.service) {
+      this.service = TransparencyLogService.open(this.storage);
+    }
+    return this.service;
+  }
+}
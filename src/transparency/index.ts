@@ -0,0 +1,18 @@
+import { TransparencyLog } from '../types';
+import { HttpTransparencyLog } from './httpLog';
+import { InProcessTransparencyLog } from './inProcessLog';
+
+export { HttpTransparencyLog } from './httpLog';
+export { InProcessTransparencyLog } from './inProcessLog';
+export { TransparencyLogService } from './logService';
+export type { TransparencyLogStorage } from './logService';
+
+const LOG_URL = import.meta.env.VITE_TRANSPARENCY_LOG_URL;
+
+/**
+ * Log picked at startup: the log server at VITE_TRANSPARENCY_LOG_URL, or
+ * one kept in this browser when it is not set
+ */
+export function createTransparencyLog(): TransparencyLog {
+  return LOG_URL ? new HttpTransparencyLog(LOG_URL) : new InProcessTransparencyLog();
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { CaConstraints, Certificate, CertificateExtensions, TransparencyLogEntry } from '../types';
+import { CANONICAL_SIGNATURE_FORMAT } from '../utils/canonicalJson';
+import { CertificateManager } from '../utils/certificates';
+import { arrayBufferToBase64, stringToArrayBuffer } from '../utils/encoding';
+import { X509 } from '../utils/x509';
+import { TransparencyLogService, TransparencyLogStorage } from './logService';
+
+const ECDSA_KEY: EcKeyGenParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const ECDSA_SIGN: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function memoryStorage(): TransparencyLogStorage {
+  let entries: TransparencyLogEntry[] = [];
+  let key: JsonWebKey | null = null;
+  return {
+    loadEntries: () => entries,
+    saveEntries: saved => { entries = saved; },
+    loadKey: () => key,
+    saveKey: saved => { key = saved; }
+  };
+}
+
+async function keyPair(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey(ECDSA_KEY, true, ['sign', 'verify']);
+}
+
+async function rawPublicKey(key: CryptoKey): Promise<string> {
+  return arrayBufferToBase64(await crypto.subtle.exportKey('raw', key));
+}
+
+async function issue(
+  subject: string,
+  issuer: string,
+  issuerKey: CryptoKey,
+  { publicKey, ...options }: { publicKey?: CryptoKey; ca?: CaConstraints; extensions?: CertificateExtensions } = {}
+): Promise<Certificate> {
+  const now = Date.now();
+  const fields = {
+    subject,
+    publicKey: await rawPublicKey(publicKey ?? (await keyPair()).publicKey),
+    issuer,
+    issuedAt: now,
+    expiresAt: now + DAY_MS,
+    ...options,
+    format: CANONICAL_SIGNATURE_FORMAT
+  };
+  const signature = await crypto.subtle.sign(ECDSA_SIGN, issuerKey, CertificateManager.signedBytes(fields));
+  return { id: `cert-${subject}`, ...fields, signature: arrayBufferToBase64(signature) };
+}
+
+// A self-signed CA certificate as the trust anchors panel exports it
+async function caPem(id: string, signingKey: CryptoKey, publicKey: CryptoKey, ca = true): Promise<string> {
+  const name = { commonName: id, organization: `${id} org` };
+  const tbs = X509.encodeTbs({
+    serialNumber: stringToArrayBuffer(id),
+    issuer: name,
+    subject: name,
+    notBefore: Date.now(),
+    notAfter: Date.now() + DAY_MS,
+    publicKey: new Uint8Array(await crypto.subtle.exportKey('raw', publicKey)),
+    suite: 'p256',
+    keyUsage: ['keyCertSign', 'cRLSign'],
+    basicConstraints: { ca }
+  }, 'p256');
+  const signature = new Uint8Array(await crypto.subtle.sign(ECDSA_SIGN, signingKey, tbs));
+  return X509.toPem(X509.encodeCertificate(tbs, signature, 'p256'));
+}
+
+describe('TransparencyLogService issuer checks', async () => {
+  const caKeys = await keyPair();
+  const otherKeys = await keyPair();
+  const issuers = await TransparencyLogService.issuersFromPem(await caPem('accepted-ca', caKeys.privateKey, caKeys.publicKey));
+  const open = () => TransparencyLogService.open(memoryStorage(), issuers);
+
+  it('reads accepted CAs from PEM', async () => {
+    expect(issuers).toEqual([{
+      id: 'accepted-ca',
+      name: 'accepted-ca org',
+      publicKey: await rawPublicKey(caKeys.publicKey),
+      suite: 'p256'
+    }]);
+  });
+
+  it('refuses PEM that is not a validly self-signed CA', async () => {
+    await expect(TransparencyLogService.issuersFromPem(await caPem('not-ca', caKeys.privateKey, caKeys.publicKey, false)))
+      .rejects.toThrow('Not a self-signed CA certificate');
+    await expect(TransparencyLogService.issuersFromPem(await caPem('forged', otherKeys.privateKey, caKeys.publicKey)))
+      .rejects.toThrow('signature is invalid');
+  });
+
+  it('logs certificates issued by an accepted CA', async () => {
+    const log = await open();
+    const entry = await log.publish(await issue('alice', 'accepted-ca', caKeys.privateKey));
+    expect(entry.index).toBe(0);
+    expect((await log.treeHead()).treeSize).toBe(1);
+  });
+
+  it('logs certificates issued through an intermediate in their chain', async () => {
+    const intermediateKeys = await keyPair();
+    const intermediateCert = await issue('team-ca', 'accepted-ca', caKeys.privateKey, {
+      publicKey: intermediateKeys.publicKey,
+      ca: { pathLength: 0 },
+      extensions: { keyUsage: ['certificate-signing'] }
+    });
+    const leaf = await issue('bob', 'team-ca', intermediateKeys.privateKey);
+    const log = await open();
+    await expect(log.publish({ ...leaf, chain: [intermediateCert] })).resolves.toMatchObject({ index: 0 });
+    await expect(log.publish(leaf)).rejects.toThrow('not issued by a CA this log accepts');
+
+    const notCa = { ...intermediateCert, extensions: { keyUsage: ['chat-signing' as const] } };
+    await expect(log.publish({ ...leaf, chain: [notCa] })).rejects.toThrow('not issued by a CA this log accepts');
+  });
+
+  it('refuses certificates from other CAs or with bad signatures', async () => {
+    const log = await open();
+    const unknown = await issue('carol', 'other-ca', otherKeys.privateKey);
+    const forged = await issue('dave', 'accepted-ca', otherKeys.privateKey);
+    const tampered = { ...await issue('erin', 'accepted-ca', caKeys.privateKey), subject: 'mallory' };
+    const malformed = { ...await issue('frank', 'accepted-ca', caKeys.privateKey), signature: '%%%' };
+    const imported = { ...await issue('grace', 'accepted-ca', caKeys.privateKey), x509: 'MAA=' };
+
+    for (const certificate of [unknown, forged, tampered, malformed, imported]) {
+      await expect(log.publish(certificate)).rejects.toThrow('not issued by a CA this log accepts');
+    }
+    expect((await log.treeHead()).treeSize).toBe(0);
+  });
+
+  it('logs any certificate when opened without issuers', async () => {
+    const log = await TransparencyLogService.open(memoryStorage());
+    await expect(log.publish(await issue('heidi', 'other-ca', otherKeys.privateKey))).resolves.toMatchObject({ index: 0 });
+    await expect(log.publish({ subject: 'not a certificate' } as unknown as Certificate)).rejects.toThrow('Not a certificate');
+  });
+});
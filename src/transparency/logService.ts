@@ -0,0 +1,228 @@
+import { Certificate, CertificateAuthority, ConsistencyProof, CryptoSuite, InclusionProof, SignedTreeHead, TransparencyLog, TransparencyLogEntry } from '../types';
+import { CanonicalJson } from '../utils/canonicalJson';
+import { CertificateManager } from '../utils/certificates';
+import { CryptoSuites } from '../utils/cryptoSuites';
+import { MerkleTree } from '../utils/merkleTree';
+import { arrayBufferToBase64, base64ToArrayBuffer, bytesToHex, hexToBytes } from '../utils/encoding';
+import { X509 } from '../utils/x509';
+
+const ECDSA_KEY: EcKeyImportParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const ECDSA_SIGN: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+// Longest path, end-entity included, followed up to an accepted CA
+const MAX_PATH_LENGTH = 8;
+
+/**
+ * Where a log keeps its entries and signing key. Reads happen before every
+ * operation, so several instances can share one store (e.g. browser tabs).
+ */
+export interface TransparencyLogStorage {
+  loadEntries(): TransparencyLogEntry[];
+  saveEntries(entries: TransparencyLogEntry[]): void;
+  loadKey(): JsonWebKey | null; // Private tree head signing key
+  saveKey(key: JsonWebKey): void;
+}
+
+/**
+ * Append-only certificate log. Each leaf is the canonical JSON of a
+ * certificate as issued; tree heads are signed with the log's own P-256 key.
+ * Runs in the browser and in the Node log server alike.
+ */
+export class TransparencyLogService implements TransparencyLog {
+  private tree = new MerkleTree();
+  private syncQueue: Promise<number> = Promise.resolve(0);
+
+  private constructor(
+    private readonly storage: TransparencyLogStorage,
+    private readonly signingKey: CryptoKey,
+    private readonly verifyingKey: CryptoKey,
+    private readonly issuers?: CertificateAuthority[]
+  ) {}
+
+  /**
+   * Open a log. Given issuers, it only logs certificates whose chain leads
+   * to one of them with valid signatures; without, it logs any certificate,
+   * which suits a log that only this browser writes to.
+   */
+  static async open(storage: TransparencyLogStorage, issuers?: CertificateAuthority[]): Promise<TransparencyLogService> {
+    const subtle = globalThis.crypto.subtle;
+    let jwk = storage.loadKey();
+    if (!jwk) {
+      const keyPair = await subtle.generateKey(ECDSA_KEY, true, ['sign', 'verify']);
+      const generated = await subtle.exportKey('jwk', keyPair.privateKey);
+      // Another instance sharing the storage may have created one meanwhile
+      jwk = storage.loadKey();
+      if (!jwk) {
+        storage.saveKey(generated);
+        jwk = generated;
+      }
+    }
+
+    const { kty, crv, x, y } = jwk;
+    const signingKey = await subtle.importKey('jwk', jwk, ECDSA_KEY, false, ['sign']);
+    const verifyingKey = await subtle.importKey('jwk', { kty, crv, x, y }, ECDSA_KEY, true, ['verify']);
+    return new TransparencyLogService(storage, signingKey, verifyingKey, issuers);
+  }
+
+  /**
+   * Read self-signed X.509 CA certificates, as exported from the trust
+   * anchors panel, as the CAs a log accepts
+   */
+  static async issuersFromPem(pem: string): Promise<CertificateAuthority[]> {
+    return Promise.all(X509.fromPem(pem).map(async der => {
+      const { fields, tbs, signature } = X509.decode(der);
+      const publicKey = arrayBufferToBase64(fields.publicKey);
+      if (!fields.basicConstraints?.ca || fields.issuer.commonName !== fields.subject.commonName) {
+        throw new Error(`Not a self-signed CA certificate: ${fields.subject.commonName}`);
+      }
+      if (!await verifySignature(tbs, signature, publicKey, fields.suite)) {
+        throw new Error(`CA certificate signature is invalid: ${fields.subject.commonName}`);
+      }
+      return {
+        id: fields.subject.commonName,
+        name: fields.subject.organization ?? fields.subject.commonName,
+        publicKey,
+        suite: fields.suite
+      };
+    }));
+  }
+
+  /**
+   * The bytes a certificate is logged as. The chain is left out: it is
+   * not signed, and intermediates are logged on their own if at all.
+   */
+  static leafData(certificate: Certificate): Uint8Array {
+    return CanonicalJson.encode({ ...certificate, chain: undefined });
+  }
+
+  /**
+   * The bytes a tree head signature covers
+   */
+  static treeHeadData(head: Omit<SignedTreeHead, 'signature'>): Uint8Array {
+    return CanonicalJson.encode({ treeSize: head.treeSize, rootHash: head.rootHash, timestamp: head.timestamp });
+  }
+
+  async publicKey(): Promise<string> {
+    return bytesToHex(new Uint8Array(await globalThis.crypto.subtle.exportKey('raw', this.verifyingKey)));
+  }
+
+  /**
+   * Append a certificate, or return its entry if it is already logged
+   */
+  async publish(certificate: Certificate): Promise<TransparencyLogEntry> {
+    if (!isCertificate(certificate)) {
+      throw new Error('Not a certificate');
+    }
+    if (this.issuers && !await this.isFromAcceptedIssuer(certificate)) {
+      throw new Error('Certificate is not issued by a CA this log accepts');
+    }
+
+    // Load, check and save with no await in between, so concurrent
+    // writers sharing the storage never drop each other's entries
+    const logged: Certificate = { ...certificate, chain: undefined };
+    const leaf = CanonicalJson.stringify(logged);
+    const entries = this.storage.loadEntries();
+    const existing = entries.find(entry => CanonicalJson.stringify(entry.certificate) === leaf);
+    if (existing) return existing;
+
+    const entry: TransparencyLogEntry = { index: entries.length, certificate: logged, loggedAt: Date.now() };
+    this.storage.saveEntries([...entries, entry]);
+    return entry;
+  }
+
+  async treeHead(): Promise<SignedTreeHead> {
+    const treeSize = await this.sync();
+    const head = { treeSize, rootHash: await this.tree.rootHash(treeSize), timestamp: Date.now() };
+    const signature = await globalThis.crypto.subtle.sign(ECDSA_SIGN, this.signingKey, TransparencyLogService.treeHeadData(head));
+    return { ...head, signature: bytesToHex(new Uint8Array(signature)) };
+  }
+
+  /**
+   * Audit path for a leaf, or null if it is not among the first treeSize entries
+   */
+  async proveInclusion(leafHash: string, treeSize: number): Promise<InclusionProof | null> {
+    await this.sync();
+    const leafIndex = this.tree.indexOf(hexToBytes(leafHash), treeSize);
+    if (leafIndex < 0) return null;
+    return { leafIndex, treeSize, path: await this.tree.inclusionProof(leafIndex, treeSize) };
+  }
+
+  async proveConsistency(firstSize: number, secondSize: number): Promise<ConsistencyProof> {
+    await this.sync();
+    return { firstSize, secondSize, path: await this.tree.consistencyProof(firstSize, secondSize) };
+  }
+
+  async entriesFor(subject: string): Promise<TransparencyLogEntry[]> {
+    return this.storage.loadEntries().filter(entry => entry.certificate.subject === subject);
+  }
+
+  // Follow the chain up to an accepted CA, checking every signature.
+  // Imported X.509 certificates are signed over DER the log does not
+  // decode, so they are refused.
+  private async isFromAcceptedIssuer(certificate: Certificate): Promise<boolean> {
+    const chain = Array.isArray(certificate.chain) ? certificate.chain.filter(isCertificate) : [];
+    let current = certificate;
+    try {
+      for (let depth = 0; depth < MAX_PATH_LENGTH; depth++) {
+        if (current.x509 !== undefined) return false;
+
+        const signedBytes = CertificateManager.signedBytes(current);
+        const signature = base64ToArrayBuffer(current.signature);
+        const anchor = this.issuers?.find(ca => ca.id === current.issuer);
+        if (anchor) {
+          return await verifySignature(signedBytes, signature, anchor.publicKey, anchor.suite);
+        }
+
+        const issuerCert = chain.find(link => link.subject === current.issuer);
+        if (!issuerCert?.ca || !CertificateManager.allowsKeyUsage(issuerCert, 'certificate-signing')) return false;
+        if (!await verifySignature(signedBytes, signature, issuerCert.publicKey, issuerCert.suite)) return false;
+        current = issuerCert;
+      }
+    } catch {
+      // Malformed fields or signature
+    }
+    return false;
+  }
+
+  // Hash entries appended since the last operation, possibly by another
+  // writer; queued so overlapping calls never append the same entry twice.
+  // Resolves with the tree size reached.
+  private sync(): Promise<number> {
+    const run = this.syncQueue.then(async () => {
+      const entries = this.storage.loadEntries();
+      while (this.tree.size < entries.length) {
+        await this.tree.append(TransparencyLogService.leafData(entries[this.tree.size].certificate));
+      }
+      return this.tree.size;
+    });
+    this.syncQueue = run.catch(() => this.tree.size);
+    return run;
+  }
+}
+
+async function verifySignature(data: Uint8Array, signature: Uint8Array, publicKey: string, suite?: CryptoSuite): Promise<boolean> {
+  try {
+    const subtle = globalThis.crypto.subtle;
+    const key = await subtle.importKey(
+      'raw',
+      base64ToArrayBuffer(publicKey),
+      CryptoSuites.algorithms(suite).signingKey,
+      false,
+      ['verify']
+    );
+    return await subtle.verify(CryptoSuites.signatureParams(key), key, signature, data);
+  } catch {
+    return false;
+  }
+}
+
+function isCertificate(value: unknown): value is Certificate {
+  const cert = value as Certificate | null;
+  return !!cert && typeof cert === 'object' &&
+    typeof cert.id === 'string' &&
+    typeof cert.subject === 'string' &&
+    typeof cert.publicKey === 'string' &&
+    typeof cert.issuer === 'string' &&
+    typeof cert.issuedAt === 'number' &&
+    typeof cert.expiresAt === 'number' &&
+    typeof cert.signature === 'string';
+}
@@ -0,0 +1,128 @@
+import { Transport, WireMessage } from '../types';
+import { generateRandomId } from '../utils/encoding';
+
+const CHANNEL_NAME = 'chat_channel';
+const ROOMS_KEY = 'chatRooms';
+
+interface RoomRecord {
+  creator: string;
+  created: number;
+}
+
+type ChannelFrame =
+  | { roomCode: string; sender: string; kind: 'message'; message: WireMessage }
+  | { roomCode: string; sender: string; kind: 'peer-joined' | 'peer-left' };
+
+// Identifies this tab so it cannot join a room it created itself
+const tabId = generateRandomId(16);
+
+// Use localStorage for room storage
+const getRooms = (): Record<string, RoomRecord> => {
+  const rooms = localStorage.getItem(ROOMS_KEY);
+  return rooms ? JSON.parse(rooms) : {};
+};
+
+const saveRooms = (rooms: Record<string, RoomRecord>) => {
+  localStorage.setItem(ROOMS_KEY, JSON.stringify(rooms));
+};
+
+/**
+ * Cross-tab transport over BroadcastChannel, with rooms registered in
+ * localStorage. Only works between tabs of the same browser profile.
+ */
+export class BroadcastTransport implements Transport {
+  private channel: BroadcastChannel | null = null;
+  private roomCode: string | null = null;
+  private isCreator = false;
+  private messageHandler: ((message: WireMessage) => void) | null = null;
+  private peerJoinHandler: (() => void) | null = null;
+  private peerLeaveHandler: (() => void) | null = null;
+
+  async connect(roomCode: string, options: { create?: boolean } = {}): Promise<number> {
+    this.close();
+
+    const rooms = getRooms();
+    let peers = 0;
+
+    if (options.create) {
+      rooms[roomCode] = { creator: tabId, created: Date.now() };
+      saveRooms(rooms);
+      this.isCreator = true;
+    } else {
+      const room = rooms[roomCode];
+      if (!room) {
+        return 0;
+      }
+      // Don't allow creator to join their own room
+      if (room.creator === tabId) {
+        throw new Error('Cannot join your own room');
+      }
+      peers = 1;
+    }
+
+    this.roomCode = roomCode;
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.onmessage = (event: MessageEvent<ChannelFrame>) => this.handleFrame(event.data);
+    this.post({ roomCode, sender: tabId, kind: 'peer-joined' });
+
+    return peers;
+  }
+
+  async send(message: WireMessage): Promise<void> {
+    if (!this.roomCode) {
+      throw new Error('Broadcast transport not connected');
+    }
+    this.post({ roomCode: this.roomCode, sender: tabId, kind: 'message', message });
+  }
+
+  onMessage(handler: (message: WireMessage) => void): void {
+    this.messageHandler = handler;
+  }
+
+  onPeerJoin(handler: () => void): void {
+    this.peerJoinHandler = handler;
+  }
+
+  onPeerLeave(handler: () => void): void {
+    this.peerLeaveHandler = handler;
+  }
+
+  close(): void {
+    if (this.roomCode) {
+      if (this.isCreator) {
+        const rooms = getRooms();
+        delete rooms[this.roomCode];
+        saveRooms(rooms);
+      }
+      this.post({ roomCode: this.roomCode, sender: tabId, kind: 'peer-left' });
+    }
+
+    if (this.channel) {
+      this.channel.onmessage = null;
+      this.channel.close();
+      this.channel = null;
+    }
+    this.roomCode = null;
+    this.isCreator = false;
+  }
+
+  private post(frame: ChannelFrame): void {
+    this.channel?.postMessage(frame);
+  }
+
+  private handleFrame(frame: ChannelFrame): void {
+    if (!frame || frame.roomCode !== this.roomCode || frame.sender === tabId) return;
+
+    switch (frame.kind) {
+      case 'message':
+        this.messageHandler?.(frame.message);
+        break;
+      case 'peer-joined':
+        this.peerJoinHandler?.();
+        break;
+      case 'peer-left':
+        this.peerLeaveHandler?.();
+        break;
+    }
+  }
+}
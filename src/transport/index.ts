@@ -0,0 +1,42 @@
+import { Transport, TransportIdentity, TransportKind } from '../types';
+import { BroadcastTransport } from './broadcastTransport';
+import { MemoryTransport } from './memoryTransport';
+import { SocketTransport } from './socketTransport';
+import { WebRTCTransport } from './webrtcTransport';
+
+export { BroadcastTransport } from './broadcastTransport';
+export { MemoryTransport, MemoryHub } from './memoryTransport';
+export { SocketTransport } from './socketTransport';
+export { WebRTCTransport } from './webrtcTransport';
+
+const RELAY_URL = import.meta.env.VITE_RELAY_URL;
+
+/**
+ * Transport picked at startup: VITE_TRANSPORT wins, otherwise the relay is
+ * used when VITE_RELAY_URL is set and BroadcastChannel when it is not.
+ */
+export const DEFAULT_TRANSPORT_KIND: TransportKind =
+  import.meta.env.VITE_TRANSPORT || (RELAY_URL ? 'socket' : 'broadcast');
+
+export function createTransport(
+  identity: TransportIdentity,
+  kind: TransportKind = DEFAULT_TRANSPORT_KIND
+): Transport {
+  switch (kind) {
+    case 'socket':
+      if (!RELAY_URL) {
+        throw new Error('VITE_RELAY_URL must be set to use the relay transport');
+      }
+      return new SocketTransport(RELAY_URL);
+    case 'memory':
+      return new MemoryTransport();
+    case 'broadcast':
+      return new BroadcastTransport();
+    case 'webrtc':
+      // Signaling goes through the relay when there is one, otherwise between tabs
+      return new WebRTCTransport(
+        createTransport(identity, RELAY_URL ? 'socket' : 'broadcast'),
+        identity
+      );
+  }
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { WireMessage } from '../types';
+import { MemoryHub, MemoryTransport } from './memoryTransport';
+
+// Lets queued deliveries (setTimeout 0) run
+const settle = () => new Promise(resolve => setTimeout(resolve, 10));
+
+function frame(n: number): WireMessage {
+  return { type: 'sas-confirm', accepted: true, confirmation: String(n) };
+}
+
+function record(transport: MemoryTransport) {
+  const events: string[] = [];
+  const messages: WireMessage[] = [];
+  transport.onMessage(message => {
+    messages.push(message);
+    events.push('message');
+  });
+  transport.onPeerJoin(() => events.push('join'));
+  transport.onPeerLeave(() => events.push('leave'));
+  return { events, messages };
+}
+
+async function pair() {
+  const hub = new MemoryHub();
+  const creator = new MemoryTransport(hub);
+  const joiner = new MemoryTransport(hub);
+  const creatorLog = record(creator);
+  const joinerLog = record(joiner);
+  expect(await creator.connect('room', { create: true })).toBe(0);
+  expect(await joiner.connect('room')).toBe(1);
+  await settle();
+  return { hub, creator, joiner, creatorLog, joinerLog };
+}
+
+describe('MemoryTransport', () => {
+  it('finds no peers in a room nobody created', async () => {
+    const transport = new MemoryTransport(new MemoryHub());
+    expect(await transport.connect('missing')).toBe(0);
+    await expect(transport.send(frame(1))).rejects.toThrow('not connected');
+  });
+
+  it('tells the creator when a peer joins', async () => {
+    const { creatorLog, joinerLog } = await pair();
+    expect(creatorLog.events).toEqual(['join']);
+    expect(joinerLog.events).toEqual([]);
+  });
+
+  it('delivers frames in order, to the peer only, asynchronously', async () => {
+    const { creator, joiner, creatorLog, joinerLog } = await pair();
+    for (let n = 1; n <= 5; n++) {
+      await creator.send(frame(n));
+    }
+    expect(joinerLog.messages).toEqual([]);
+
+    await settle();
+    expect(joinerLog.messages).toEqual([1, 2, 3, 4, 5].map(frame));
+    expect(creatorLog.messages).toEqual([]);
+
+    await joiner.send(frame(6));
+    await settle();
+    expect(creatorLog.messages).toEqual([frame(6)]);
+  });
+
+  it('delivers a copy of each frame', async () => {
+    const { creator, joinerLog } = await pair();
+    const sent = { type: 'sas-confirm' as const, accepted: true, confirmation: 'original' };
+    await creator.send(sent);
+    sent.confirmation = 'changed';
+    await settle();
+    expect(joinerLog.messages).toEqual([{ type: 'sas-confirm', accepted: true, confirmation: 'original' }]);
+  });
+
+  it('tells the peer when one side closes, then stops delivering', async () => {
+    const { creator, joiner, creatorLog, joinerLog } = await pair();
+    joiner.close();
+    await settle();
+    expect(creatorLog.events).toEqual(['join', 'leave']);
+    expect(joinerLog.events).toEqual([]);
+
+    await creator.send(frame(1));
+    await settle();
+    expect(joinerLog.messages).toEqual([]);
+    await expect(joiner.send(frame(2))).rejects.toThrow('not connected');
+  });
+
+  it('removes a room once everyone has left', async () => {
+    const { hub, creator, joiner } = await pair();
+    creator.close();
+    joiner.close();
+    expect(await new MemoryTransport(hub).connect('room')).toBe(0);
+  });
+
+  it('keeps rooms and hubs apart', async () => {
+    const { hub, creator, joinerLog } = await pair();
+    const elsewhere = new MemoryTransport(hub);
+    await elsewhere.connect('other', { create: true });
+    const otherHub = new MemoryTransport(new MemoryHub());
+    expect(await otherHub.connect('room')).toBe(0);
+
+    await elsewhere.send(frame(1));
+    await creator.send(frame(2));
+    await settle();
+    expect(joinerLog.messages).toEqual([frame(2)]);
+  });
+
+  it('leaves its previous room when connecting again', async () => {
+    const { hub, creator, joiner, creatorLog, joinerLog } = await pair();
+    await new MemoryTransport(hub).connect('second', { create: true });
+    expect(await joiner.connect('second')).toBe(1);
+    await settle();
+    expect(creatorLog.events).toEqual(['join', 'leave']);
+
+    await creator.send(frame(1));
+    await settle();
+    expect(joinerLog.messages).toEqual([]);
+  });
+});
@@ -0,0 +1,105 @@
+import { Transport, WireMessage } from '../types';
+
+/**
+ * Shared in-process "network" for MemoryTransport instances. Each test can
+ * create its own hub to keep rooms isolated.
+ */
+export class MemoryHub {
+  private rooms = new Map<string, Set<MemoryTransport>>();
+
+  join(roomCode: string, transport: MemoryTransport, create: boolean): number {
+    let members = this.rooms.get(roomCode);
+    if (!members) {
+      if (!create) {
+        return 0;
+      }
+      members = new Set();
+      this.rooms.set(roomCode, members);
+    }
+
+    const peers = members.size;
+    members.forEach(member => member.deliverPeerJoin());
+    members.add(transport);
+    return peers;
+  }
+
+  leave(roomCode: string, transport: MemoryTransport): void {
+    const members = this.rooms.get(roomCode);
+    if (!members?.delete(transport)) return;
+
+    members.forEach(member => member.deliverPeerLeave());
+    if (members.size === 0) {
+      this.rooms.delete(roomCode);
+    }
+  }
+
+  broadcast(roomCode: string, sender: MemoryTransport, message: WireMessage): void {
+    this.rooms.get(roomCode)?.forEach(member => {
+      if (member !== sender) {
+        member.deliverMessage(message);
+      }
+    });
+  }
+}
+
+const defaultHub = new MemoryHub();
+
+/**
+ * In-memory transport for tests and single-page demos. Frames are
+ * structured-cloned and delivered asynchronously, like a real channel.
+ */
+export class MemoryTransport implements Transport {
+  private roomCode: string | null = null;
+  private messageHandler: ((message: WireMessage) => void) | null = null;
+  private peerJoinHandler: (() => void) | null = null;
+  private peerLeaveHandler: (() => void) | null = null;
+
+  constructor(private readonly hub: MemoryHub = defaultHub) {}
+
+  async connect(roomCode: string, options: { create?: boolean } = {}): Promise<number> {
+    this.close();
+    const peers = this.hub.join(roomCode, this, options.create ?? false);
+    if (peers > 0 || options.create) {
+      this.roomCode = roomCode;
+    }
+    return peers;
+  }
+
+  async send(message: WireMessage): Promise<void> {
+    if (!this.roomCode) {
+      throw new Error('Memory transport not connected');
+    }
+    this.hub.broadcast(this.roomCode, this, structuredClone(message));
+  }
+
+  onMessage(handler: (message: WireMessage) => void): void {
+    this.messageHandler = handler;
+  }
+
+  onPeerJoin(handler: () => void): void {
+    this.peerJoinHandler = handler;
+  }
+
+  onPeerLeave(handler: () => void): void {
+    this.peerLeaveHandler = handler;
+  }
+
+  close(): void {
+    if (this.roomCode) {
+      this.hub.leave(this.roomCode, this);
+      this.roomCode = null;
+    }
+  }
+
+  deliverMessage(message: WireMessage): void {
+    setTimeout(() => this.messageHandler?.(message), 0);
+  }
+
+  deliverPeerJoin(): void {
+    setTimeout(() => this.peerJoinHandler?.(), 0);
+  }
+
+  deliverPeerLeave(): void {
+    setTimeout(() => this.peerLeaveHandler?.(), 0);
+  }
+}
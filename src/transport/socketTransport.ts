@@ -0,0 +1,171 @@
+import { io, Socket } from 'socket.io-client';
+import { Transport, WireMessage } from '../types';
+import { arrayBufferToBase64, base64ToArrayBuffer, arrayBufferToString, stringToArrayBuffer } from '../utils/encoding';
+
+const JOIN_TIMEOUT_MS = 10000;
+
+interface JoinAck {
+  ok: boolean;
+  peers: number;
+  error?: string;
+}
+
+/**
+ * Client side of the Socket.IO relay.
+ *
+ * Every frame is sealed with AES-GCM under a key derived from the room
+ * locator, and the room is addressed by a hash of the locator, so the relay
+ * only ever sees opaque room IDs and ciphertext. The locator is the public
+ * half of the pairing code; the secret half never reaches the transport and
+ * authenticates the handshake through SPAKE2 instead.
+ */
+export class SocketTransport implements Transport {
+  private socket: Socket | null = null;
+  private frameKey: CryptoKey | null = null;
+  private messageHandler: ((message: WireMessage) => void) | null = null;
+  private peerJoinHandler: (() => void) | null = null;
+  private peerLeaveHandler: (() => void) | null = null;
+
+  constructor(private readonly relayUrl: string) {}
+
+  /**
+   * Derive the opaque room ID the relay uses for a room locator
+   */
+  static async deriveRoomId(roomCode: string): Promise<string> {
+    const digest = await window.crypto.subtle.digest(
+      'SHA-256',
+      stringToArrayBuffer(`cipher-room:${roomCode}`)
+    );
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  /**
+   * Derive the key that seals frames for a room locator
+   */
+  static async deriveFrameKey(roomCode: string): Promise<CryptoKey> {
+    const keyMaterial = await window.crypto.subtle.importKey(
+      'raw',
+      stringToArrayBuffer(roomCode),
+      'HKDF',
+      false,
+      ['deriveKey']
+    );
+
+    return window.crypto.subtle.deriveKey(
+      {
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: stringToArrayBuffer('cipher-relay-frame'),
+        info: new Uint8Array()
+      },
+      keyMaterial,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  /**
+   * Connect to the relay and join the room for a room locator.
+   * Resolves with the number of peers already present in the room; the
+   * relay creates rooms implicitly, so `create` needs no special handling.
+   */
+  async connect(roomCode: string): Promise<number> {
+    this.close();
+
+    const [roomId, frameKey] = await Promise.all([
+      SocketTransport.deriveRoomId(roomCode),
+      SocketTransport.deriveFrameKey(roomCode)
+    ]);
+    this.frameKey = frameKey;
+
+    const socket = io(this.relayUrl, { transports: ['websocket'] });
+    this.socket = socket;
+
+    socket.on('frame', (payload: string) => {
+      this.openFrame(payload)
+        .then(message => this.messageHandler?.(message))
+        .catch(error => console.error('Dropping unreadable relay frame:', error));
+    });
+    socket.on('peer-joined', () => this.peerJoinHandler?.());
+    socket.on('peer-left', () => this.peerLeaveHandler?.());
+
+    const ack = await new Promise<JoinAck>((resolve, reject) => {
+      socket.timeout(JOIN_TIMEOUT_MS).emit('join', roomId, (error: Error | null, result: JoinAck) => {
+        if (error) {
+          reject(new Error('Relay did not respond'));
+        } else {
+          resolve(result);
+        }
+      });
+    });
+
+    if (!ack.ok) {
+      this.close();
+      throw new Error(`Relay refused to join room: ${ack.error || 'unknown error'}`);
+    }
+
+    return ack.peers;
+  }
+
+  /**
+   * Seal and send a message to the other room member
+   */
+  async send(message: WireMessage): Promise<void> {
+    if (!this.socket || !this.frameKey) {
+      throw new Error('Relay transport not connected');
+    }
+    this.socket.emit('frame', await this.sealFrame(message));
+  }
+
+  onMessage(handler: (message: WireMessage) => void): void {
+    this.messageHandler = handler;
+  }
+
+  onPeerJoin(handler: () => void): void {
+    this.peerJoinHandler = handler;
+  }
+
+  onPeerLeave(handler: () => void): void {
+    this.peerLeaveHandler = handler;
+  }
+
+  close(): void {
+    if (this.socket) {
+      this.socket.emit('leave');
+      this.socket.disconnect();
+      this.socket = null;
+    }
+    this.frameKey = null;
+  }
+
+  private async sealFrame(message: WireMessage): Promise<string> {
+    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await window.crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      this.frameKey!,
+      stringToArrayBuffer(JSON.stringify(message))
+    );
+
+    const sealed = new Uint8Array(iv.length + ciphertext.byteLength);
+    sealed.set(iv);
+    sealed.set(new Uint8Array(ciphertext), iv.length);
+    return arrayBufferToBase64(sealed.buffer);
+  }
+
+  private async openFrame(payload: string): Promise<WireMessage> {
+    if (!this.frameKey) {
+      throw new Error('Relay transport not connected');
+    }
+
+    const sealed = base64ToArrayBuffer(payload);
+    const plaintext = await window.crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: sealed.slice(0, 12) },
+      this.frameKey,
+      sealed.slice(12)
+    );
+    return JSON.parse(arrayBufferToString(plaintext));
+  }
+}
@@ -0,0 +1,385 @@
+import { Certificate, RTCSignal, SignalMessage, Transport, TransportIdentity, WireMessage } from '../types';
+import { CertificateManager } from '../utils/certificates';
+import { DigitalSigner } from '../utils/signing';
+import { generateRandomId } from '../utils/encoding';
+
+const CHANNEL_LABEL = 'cipher-chat';
+const CHANNEL_OPEN_TIMEOUT_MS = 15000;
+// Stay well below the SCTP message size limits browsers enforce
+const CHUNK_SIZE = 16 * 1024;
+// A 1 MiB attachment, encoded and encrypted, with room to spare
+const MAX_MESSAGE_SIZE = 4 * 1024 * 1024;
+const MAX_PARTS = MAX_MESSAGE_SIZE / CHUNK_SIZE;
+const MAX_ID_LENGTH = 64;
+// Partly received messages held at once, and how long each may take to complete
+const MAX_PENDING_MESSAGES = 8;
+const PENDING_MESSAGE_TIMEOUT_MS = 30000;
+
+interface ChunkFrame {
+  id: string;
+  part: number;
+  parts: number;
+  chunk: string;
+}
+
+interface PendingMessage {
+  chunks: string[];
+  received: number;
+  timeout: number;
+}
+
+/**
+ * Peer-to-peer transport over an RTCDataChannel.
+ *
+ * The signaling transport (relay or BroadcastChannel) is only used to
+ * exchange the offer, answer and ICE candidates, each signed with our
+ * certificate key. Once the DataChannel opens, every frame flows directly
+ * between the peers. No STUN/TURN servers are configured, so only host
+ * candidates are used; this works between browser contexts on one machine
+ * or LAN.
+ */
+export class WebRTCTransport implements Transport {
+  private connection: RTCPeerConnection | null = null;
+  private channel: RTCDataChannel | null = null;
+  private roomCode: string | null = null;
+  private peerCertificate: Certificate | null = null; // Pinned by the first valid signal
+  private peerConfirmed = false; // Pairing fixed the same certificate
+  private pendingCandidates: RTCIceCandidateInit[] = [];
+  private incomingChunks = new Map<string, PendingMessage>();
+  private channelOpened: Promise<void> | null = null;
+  private messageHandler: ((message: WireMessage) => void) | null = null;
+  private peerJoinHandler: (() => void) | null = null;
+  private peerLeaveHandler: (() => void) | null = null;
+
+  constructor(
+    private readonly signaling: Transport,
+    private readonly identity: TransportIdentity
+  ) {
+    this.signaling.onMessage(message => {
+      if (message.type === 'webrtc-signal') {
+        this.handleSignal(message).catch(error => {
+          console.error('Failed to handle WebRTC signal:', error);
+        });
+      }
+    });
+    this.signaling.onPeerJoin(() => this.peerJoinHandler?.());
+    this.signaling.onPeerLeave(() => this.handlePeerLeft());
+  }
+
+  /**
+   * Join the signaling room. A joiner sends the offer and resolves once the
+   * DataChannel is open; the creator resolves immediately and answers later.
+   */
+  async connect(roomCode: string, options: { create?: boolean } = {}): Promise<number> {
+    this.close();
+    this.roomCode = roomCode;
+
+    const peers = await this.signaling.connect(roomCode, options);
+    if (peers === 0) {
+      return peers;
+    }
+
+    const connection = this.createConnection();
+    this.attachChannel(connection.createDataChannel(CHANNEL_LABEL, { ordered: true }));
+
+    const offer = await connection.createOffer();
+    await connection.setLocalDescription(offer);
+    await this.sendSignal({ kind: 'offer', sdp: offer.sdp || '' });
+
+    await this.waitForChannel();
+    return peers;
+  }
+
+  async send(message: WireMessage): Promise<void> {
+    if (!this.channel || this.channel.readyState !== 'open') {
+      throw new Error('WebRTC data channel not open');
+    }
+
+    const serialized = JSON.stringify(message);
+    const id = generateRandomId(12);
+    const parts = Math.max(1, Math.ceil(serialized.length / CHUNK_SIZE));
+    if (parts > MAX_PARTS) {
+      throw new Error('Message too large for the data channel');
+    }
+
+    for (let part = 0; part < parts; part++) {
+      const frame: ChunkFrame = {
+        id,
+        part,
+        parts,
+        chunk: serialized.slice(part * CHUNK_SIZE, (part + 1) * CHUNK_SIZE)
+      };
+      this.channel.send(JSON.stringify(frame));
+    }
+  }
+
+  onMessage(handler: (message: WireMessage) => void): void {
+    this.messageHandler = handler;
+  }
+
+  onPeerJoin(handler: () => void): void {
+    this.peerJoinHandler = handler;
+  }
+
+  onPeerLeave(handler: () => void): void {
+    this.peerLeaveHandler = handler;
+  }
+
+  /**
+   * Pairing fixed the peer's certificate: the signals that set up the data
+   * channel must have come from it, and it must chain to a trusted CA.
+   * Later signals are held to the same certificate.
+   */
+  async confirmPeer(certificate: Certificate): Promise<boolean> {
+    if (!this.peerCertificate || !await this.isSameCertificate(this.peerCertificate, certificate)) {
+      return false;
+    }
+    if (!await CertificateManager.getInstance().verifyCertificate(certificate)) {
+      return false;
+    }
+    this.peerConfirmed = true;
+    return true;
+  }
+
+  close(): void {
+    if (this.channel) {
+      this.channel.onclose = null;
+      this.channel.close();
+      this.channel = null;
+    }
+    if (this.connection) {
+      this.connection.close();
+      this.connection = null;
+    }
+    this.signaling.close();
+    this.roomCode = null;
+    this.peerCertificate = null;
+    this.peerConfirmed = false;
+    this.pendingCandidates = [];
+    this.incomingChunks.forEach(pending => window.clearTimeout(pending.timeout));
+    this.incomingChunks.clear();
+    this.channelOpened = null;
+  }
+
+  private createConnection(): RTCPeerConnection {
+    // Host candidates only: no STUN/TURN server ever learns about the session
+    const connection = new RTCPeerConnection({ iceServers: [] });
+
+    connection.onicecandidate = (event) => {
+      if (event.candidate) {
+        this.sendSignal({ kind: 'ice', candidate: event.candidate.toJSON() }).catch(error => {
+          console.error('Failed to send ICE candidate:', error);
+        });
+      }
+    };
+    connection.ondatachannel = (event) => this.attachChannel(event.channel);
+    connection.onconnectionstatechange = () => {
+      if (connection.connectionState === 'failed') {
+        this.handlePeerLeft();
+      }
+    };
+
+    this.connection = connection;
+    return connection;
+  }
+
+  private attachChannel(channel: RTCDataChannel): void {
+    this.channel = channel;
+    this.channelOpened = new Promise<void>((resolve) => {
+      if (channel.readyState === 'open') {
+        resolve();
+      } else {
+        channel.onopen = () => resolve();
+      }
+    });
+
+    channel.onmessage = (event) => this.handleChunk(event.data);
+    channel.onclose = () => this.handlePeerLeft();
+  }
+
+  private async waitForChannel(): Promise<void> {
+    let timeout: number | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timeout = window.setTimeout(
+        () => reject(new Error('Timed out opening WebRTC data channel')),
+        CHANNEL_OPEN_TIMEOUT_MS
+      );
+    });
+
+    try {
+      await Promise.race([this.channelOpened, timedOut]);
+    } catch (error) {
+      this.close();
+      throw error;
+    } finally {
+      window.clearTimeout(timeout);
+    }
+  }
+
+  private handleChunk(data: string): void {
+    let frame: unknown;
+    try {
+      frame = JSON.parse(data);
+    } catch (error) {
+      console.error('Dropping malformed data channel frame:', error);
+      return;
+    }
+    if (!WebRTCTransport.isChunkFrame(frame)) {
+      console.error('Dropping malformed data channel frame');
+      return;
+    }
+
+    let pending = this.incomingChunks.get(frame.id);
+    if (!pending) {
+      if (this.incomingChunks.size >= MAX_PENDING_MESSAGES) {
+        console.warn('Dropping data channel frame: too many partial messages');
+        return;
+      }
+      const id = frame.id;
+      pending = {
+        chunks: new Array<string>(frame.parts),
+        received: 0,
+        timeout: window.setTimeout(() => this.incomingChunks.delete(id), PENDING_MESSAGE_TIMEOUT_MS)
+      };
+      this.incomingChunks.set(id, pending);
+    }
+    if (frame.parts !== pending.chunks.length) {
+      console.error('Dropping data channel frame with an inconsistent part count');
+      return;
+    }
+
+    if (pending.chunks[frame.part] === undefined) {
+      pending.chunks[frame.part] = frame.chunk;
+      pending.received++;
+    }
+    if (pending.received < pending.chunks.length) {
+      return;
+    }
+
+    window.clearTimeout(pending.timeout);
+    this.incomingChunks.delete(frame.id);
+    try {
+      this.messageHandler?.(JSON.parse(pending.chunks.join('')));
+    } catch (error) {
+      console.error('Dropping malformed data channel message:', error);
+    }
+  }
+
+  // Frames come from the peer, so every field is checked before use
+  private static isChunkFrame(frame: unknown): frame is ChunkFrame {
+    const candidate = frame as ChunkFrame | null;
+    return typeof candidate === 'object' && candidate !== null &&
+      typeof candidate.id === 'string' && candidate.id.length > 0 && candidate.id.length <= MAX_ID_LENGTH &&
+      Number.isInteger(candidate.parts) && candidate.parts >= 1 && candidate.parts <= MAX_PARTS &&
+      Number.isInteger(candidate.part) && candidate.part >= 0 && candidate.part < candidate.parts &&
+      typeof candidate.chunk === 'string' && candidate.chunk.length <= CHUNK_SIZE;
+  }
+
+  private handlePeerLeft(): void {
+    if (this.connection || this.channel) {
+      this.peerLeaveHandler?.();
+    }
+  }
+
+  /**
+   * Signals are signed over the room code so they cannot be replayed into
+   * another room. They stay signed in deniable rooms: they cover no message
+   * content, only the room and the connection offer
+   */
+  private signedPayload(signal: RTCSignal): string {
+    return JSON.stringify({ roomCode: this.roomCode, signal });
+  }
+
+  private async sendSignal(signal: RTCSignal): Promise<void> {
+    const message: SignalMessage = {
+      type: 'webrtc-signal',
+      signal,
+      signature: await this.identity.sign(this.signedPayload(signal)),
+      certificate: this.identity.certificate
+    };
+    await this.signaling.send(message);
+  }
+
+  /**
+   * Check the signal is signed by the key in its certificate, and that the
+   * whole negotiation comes from one certificate. Before pairing the peer's
+   * CA may not be trusted yet, so the first certificate is pinned and
+   * confirmPeer checks it against the one pairing fixed.
+   */
+  private async verifySignal(message: SignalMessage): Promise<boolean> {
+    if (typeof message.certificate?.publicKey !== 'string' || typeof message.signature !== 'string') {
+      return false;
+    }
+    if (this.peerCertificate && !await this.isSameCertificate(this.peerCertificate, message.certificate)) {
+      return false;
+    }
+    if (!CertificateManager.allowsKeyUsage(message.certificate, 'chat-signing')) {
+      return false;
+    }
+    if (this.peerConfirmed && !await CertificateManager.getInstance().verifyCertificate(message.certificate)) {
+      return false;
+    }
+
+    const publicKey = await CertificateManager.getInstance().importPublicKey(
+      message.certificate.publicKey,
+      message.certificate.suite
+    );
+    const isValid = await DigitalSigner.verifySignature(
+      this.signedPayload(message.signal),
+      message.signature,
+      publicKey
+    );
+
+    if (isValid && !this.peerCertificate) {
+      this.peerCertificate = message.certificate;
+    }
+    return isValid;
+  }
+
+  private async isSameCertificate(a: Certificate, b: Certificate): Promise<boolean> {
+    const certificates = CertificateManager.getInstance();
+    return a.id === b.id && await certificates.fingerprint(a) === await certificates.fingerprint(b);
+  }
+
+  private async handleSignal(message: SignalMessage): Promise<void> {
+    if (!(await this.verifySignal(message))) {
+      console.warn('Ignoring WebRTC signal with an invalid signature');
+      return;
+    }
+
+    const { signal } = message;
+    switch (signal.kind) {
+      case 'offer': {
+        if (this.connection) return;
+        const connection = this.createConnection();
+        await connection.setRemoteDescription({ type: 'offer', sdp: signal.sdp });
+        await this.flushCandidates();
+        const answer = await connection.createAnswer();
+        await connection.setLocalDescription(answer);
+        await this.sendSignal({ kind: 'answer', sdp: answer.sdp || '' });
+        break;
+      }
+      case 'answer':
+        if (!this.connection || this.connection.remoteDescription) return;
+        await this.connection.setRemoteDescription({ type: 'answer', sdp: signal.sdp });
+        await this.flushCandidates();
+        break;
+      case 'ice':
+        if (this.connection?.remoteDescription) {
+          await this.connection.addIceCandidate(signal.candidate);
+        } else {
+          this.pendingCandidates.push(signal.candidate);
+        }
+        break;
+    }
+  }
+
+  // Candidates can arrive before the remote description is set
+  private async flushCandidates(): Promise<void> {
+    const candidates = this.pendingCandidates;
+    this.pendingCandidates = [];
+    for (const candidate of candidates) {
+      await this.connection!.addIceCandidate(candidate);
+    }
+  }
+}
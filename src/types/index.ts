@@ -10,6 +10,7 @@ export interface Message {
   encrypted: boolean;
   verified: boolean;
   signature?: string; // ECDSA signature
+  auth?: MessageAuthMode; // How the sender authenticated it; absent means signed
   senderCert?: Certificate; // Sender's certificate
   documentInfo?: DocumentInfo; // For document messages
 }
@@ -22,6 +23,9 @@ export interface DocumentInfo {
 }
 
 // Crypto types
+// Algorithm suite for signing keys and key agreement; absent means P-256
+export type CryptoSuite = 'p256' | 'x25519-ed25519';
+
 export interface KeyPair {
   publicKey: CryptoKey;
   privateKey: CryptoKey;
@@ -35,7 +39,13 @@ export interface SigningKeyPair {
 export interface EncryptedData {
   iv: Uint8Array;
   data: Uint8Array;
-  salt?: Uint8Array; // For HKDF
+  header?: RatchetHeader; // Double Ratchet message header
+}
+
+export interface RatchetHeader {
+  dh: string; // Sender's current ratchet public key (Base64)
+  pn: number; // Length of the sender's previous sending chain
+  n: number; // Message number in the current sending chain
 }
 
 export interface SignedData {
@@ -44,54 +54,397 @@ export interface SignedData {
 }
 
 // PKI types
+// How signed data is serialized: 1 = field-ordered JSON.stringify (legacy),
+// 2 = RFC 8785 canonical JSON including the format field
+export type SignatureFormat = 1 | 2;
+
 export interface Certificate {
   id: string;
-  subject: string; // User identifier
+  subject: string; // User identifier, or the CA identifier of an intermediate CA
   publicKey: string; // Base64 encoded public key
   issuer: string; // CA identifier
   issuedAt: number;
   expiresAt: number;
+  ca?: CaConstraints; // Only set on intermediate CA certificates
+  format?: SignatureFormat; // Absent on legacy certificates
+  suite?: CryptoSuite; // Algorithm suite of publicKey
+  extensions?: CertificateExtensions; // Absent on certificates issued before extensions
   signature: string; // CA signature
+  chain?: Certificate[]; // Intermediate CA certificates, issuer first (not signed)
+  x509?: string; // DER of a certificate imported from PEM (Base64); its TBSCertificate is what was signed
+}
+
+// What a certificate's key may sign
+export type KeyUsage = 'chat-signing' | 'document-signing' | 'certificate-signing' | 'status-signing';
+
+// CA-signed statements about a certificate's key and its holder
+export interface CertificateExtensions {
+  keyUsage?: KeyUsage[]; // Absent means the key is not restricted
+  displayName?: string;
+  organization?: string;
+  role?: string; // e.g. "admin"
+}
+
+// Constraints an intermediate CA certificate places on the certificates below it
+export interface CaConstraints {
+  pathLength?: number; // Max intermediate CAs below this one
+  permittedSubjects?: string[]; // Subject prefixes end-entity certificates must match
+  excludedSubjects?: string[]; // Subject prefixes end-entity certificates must not match
 }
 
+// An intermediate CA we can issue certificates with
+export interface IntermediateCA {
+  certificate: Certificate;
+  privateKey: CryptoKey;
+}
+
+// Why a certificate path could not be built or validated
+export type PathValidationFailure =
+  | 'unknown-issuer'
+  | 'not-a-ca'
+  | 'bad-signature'
+  | 'expired'
+  | 'not-yet-valid'
+  | 'revoked'
+  | 'path-length-exceeded'
+  | 'name-constraint-violation'
+  | 'chain-too-long';
+
+export type PathValidationResult =
+  | { valid: true; path: Certificate[]; anchor: TrustAnchor }
+  | {
+      valid: false;
+      reason: PathValidationFailure;
+      certificate: Certificate; // The link that failed
+      revocation?: RevokedCertificate;
+    };
+
 export interface CertificateAuthority {
   id: string;
   name: string;
   publicKey: string;
-  privateKey?: string; // Only for self-signed CA
+  suite?: CryptoSuite;
+}
+
+// One custodian's file from a CA key ceremony: a Shamir share of the CA
+// private key, plus commitments to every share signed by that key
+export interface CaKeyShare {
+  format: string;
+  version: number;
+  ca: CertificateAuthority;
+  threshold: number; // Shares needed to rebuild the key
+  total: number;
+  createdAt: number;
+  commitments: string[]; // SHA-256 of each share's data, by index (Base64)
+  signature: string; // CA signature over the fields above
+  index: number; // 1-based; not covered by the signature, checked against the commitments
+  share: string; // Base64
+}
+
+// Anonymous identities live for one session; persistent ones are kept in IndexedDB
+export type IdentityMode = 'anonymous' | 'persistent';
+
+// Why a certificate was revoked (after RFC 5280 CRLReason)
+export type RevocationReason =
+  | 'unspecified'
+  | 'key-compromise'
+  | 'ca-compromise'
+  | 'affiliation-changed'
+  | 'superseded'
+  | 'cessation-of-operation';
+
+export interface RevokedCertificate {
+  certificateId: string;
+  fingerprint: string; // SHA-256 of the CA-signed certificate fields (Base64)
+  reason: RevocationReason;
+  revokedAt: number;
+}
+
+// CA-signed list of revoked certificates; a higher sequence replaces a lower one
+export interface CertificateRevocationList {
+  issuer: string; // CA identifier
+  sequence: number;
+  issuedAt: number;
+  nextUpdate: number;
+  revoked: RevokedCertificate[];
+  format?: SignatureFormat; // Absent on legacy lists
+  signature: string; // CA signature
+}
+
+// A renewed certificate vouched for by the key it replaces, so peers who
+// pinned the old key can move to the new one
+export interface KeyRotation {
+  previous: Certificate;
+  next: Certificate;
+  rotatedAt: number;
+  format: SignatureFormat;
+  signature: string; // By the previous certificate's key
+}
+
+// How a CA public key came to be trusted
+export type TrustSource = 'self' | 'pinned' | 'tofu' | 'imported';
+
+export interface TrustAnchor {
+  id: string; // CA identifier, matched against Certificate.issuer
+  name: string;
+  publicKey: string; // Base64 encoded CA public key
+  suite?: CryptoSuite;
+  source: TrustSource;
+  addedAt: number;
+}
+
+// Out-of-band safety number verification state for a peer
+export type PeerVerificationStatus = 'verified' | 'unverified' | 'changed';
+
+// Short authenticated string derived from the handshake; both users compare
+// it before the chat opens
+export interface ShortAuthString {
+  emoji: { symbol: string; name: string }[];
+  digits: string; // Six digits, for when emoji are hard to compare
+}
+
+// Outcome of joining a room with a pairing code
+export type JoinResult = 'joined' | 'invalid-code' | 'not-found' | 'wrong-code' | 'rejected' | 'unsupported' | 'timeout' | 'failed';
+
+// Key transparency types
+// A certificate published to the append-only transparency log
+export interface TransparencyLogEntry {
+  index: number; // Leaf index in the Merkle tree
+  certificate: Certificate; // As issued, without its chain
+  loggedAt: number;
+}
+
+// The log's signed commitment to its first treeSize entries
+export interface SignedTreeHead {
+  treeSize: number;
+  rootHash: string; // Hex
+  timestamp: number;
+  signature: string; // By the log's P-256 key, over the canonical JSON of the other fields (hex)
+}
+
+export interface InclusionProof {
+  leafIndex: number;
+  treeSize: number;
+  path: string[]; // Hex node hashes, leaf to root
+}
+
+export interface ConsistencyProof {
+  firstSize: number;
+  secondSize: number;
+  path: string[];
+}
+
+// Whether a certificate could be found in a log that behaved consistently
+export type TransparencyStatus = 'logged' | 'not-logged' | 'inconsistent' | 'unavailable';
+
+// A transparency log, either in this browser or a log server. Nothing it
+// returns is trusted until checked against its signed tree heads.
+export interface TransparencyLog {
+  publicKey(): Promise<string>; // Raw P-256 tree head signing key (hex)
+  publish(certificate: Certificate): Promise<TransparencyLogEntry>;
+  treeHead(): Promise<SignedTreeHead>;
+  proveInclusion(leafHash: string, treeSize: number): Promise<InclusionProof | null>;
+  proveConsistency(firstSize: number, secondSize: number): Promise<ConsistencyProof>;
+  entriesFor(subject: string): Promise<TransparencyLogEntry[]>;
+}
+
+// Certificate status types
+// Answer for one certificate: good means not on its CA's current revocation list
+export type CertificateStatusValue = 'good' | 'revoked' | 'unknown';
+
+// Signed, time-bounded answer from a status responder (after OCSP)
+export interface CertificateStatusResponse {
+  issuer: string; // CA identifier
+  certificateId: string;
+  fingerprint: string; // Of the certificate asked about, as in RevokedCertificate
+  status: CertificateStatusValue;
+  revocation?: RevokedCertificate; // Set when revoked
+  crlSequence?: number; // Revocation list the answer was taken from
+  producedAt: number;
+  nextUpdate: number; // Not to be relied on after this
+  responder?: Certificate; // Issued by the CA for the responder key; absent if the CA is not registered
+  signature: string; // By the responder key, over the canonical JSON of the fields above except responder (Base64)
+}
+
+// What a status check established; unavailable when no valid response could be had
+export type CertificateStatusResult = CertificateStatusValue | 'unavailable';
+
+// A status responder, either in this browser or a responder server. Its
+// answers are only trusted when signed by a key the CA delegated to it.
+export interface StatusResponder {
+  publicKey(): Promise<string>; // Raw P-256 response signing key (Base64)
+  register(ca: CertificateAuthority, delegation: Certificate, crl: CertificateRevocationList): Promise<void>;
+  publishRevocationList(crl: CertificateRevocationList): Promise<void>;
+  status(issuer: string, certificateId: string, fingerprint: string): Promise<CertificateStatusResponse>;
 }
 
 // Socket message types
 export interface PairingRequest {
   type: 'pairing-request';
-  pairingCode: string;
-  publicKey: string; // Base64 encoded public key
+  room: string; // Room locator only; the code's secret part never leaves the device
+  publicKey: string; // Base64 encoded P-256 public key
+  keyShares?: Partial<Record<CryptoSuite, string>>; // Public keys for the other suites offered
   certificate: Certificate;
+  issuer?: CertificateAuthority; // Issuing CA's public info, for trust-on-first-use
+  pake: string; // Joiner's SPAKE2 message (Base64)
+  kem?: string; // Joiner's ML-KEM-768 encapsulation key (Base64); older clients omit it
+  status?: CertificateStatusResponse; // Stapled status of certificate, when the responder answered
 }
 
 export interface PairingResponse {
   type: 'pairing-response';
-  publicKey: string; // Base64 encoded public key
-  certificate: Certificate;
+  publicKey: string; // Base64 encoded public key, in the negotiated suite
+  suite?: CryptoSuite; // Negotiated suite; absent means P-256
+  certificate?: Certificate; // Absent on rejections sent before our certificate is ready
+  issuer?: CertificateAuthority; // Issuing CA's public info, for trust-on-first-use
+  pake?: string; // Creator's SPAKE2 message (Base64)
+  confirmation?: string; // Creator's SPAKE2 key confirmation
+  kemCiphertext?: string; // ML-KEM-768 ciphertext for the joiner's key (Base64)
+  authMode?: MessageAuthMode; // Message authentication for the session, both ways; absent means signed
+  status?: CertificateStatusResponse; // Stapled status of certificate, when the responder answered
+  accepted: boolean;
+  reason?: PairingRejectionReason; // Why the request was not accepted
+}
+
+// Busy: already paired or pairing; unsupported: the request lacks a required exchange
+export type PairingRejectionReason = 'busy' | 'unsupported';
+
+// Joiner's answer to the creator's key confirmation; completes the pairing
+export interface PairingConfirm {
+  type: 'pairing-confirm';
+  confirmation?: string; // Joiner's SPAKE2 key confirmation, absent on failure
   accepted: boolean;
 }
 
+// A user compared the short authenticated strings
+export interface SasConfirmMessage {
+  type: 'sas-confirm';
+  accepted: boolean;
+  confirmation?: string; // MAC proving the sender holds the session's keys, absent on rejection
+}
+
 export interface ChatMessage {
   type: 'chat-message';
   data: string; // Encrypted and Base64 encoded message
   iv: string; // Base64 encoded initialization vector
-  signature: string; // Base64 encoded signature
   certificate: Certificate; // Sender's certificate
-  salt?: string; // For forward secrecy
+  header?: RatchetHeader; // Double Ratchet header, authenticated with the ciphertext
+}
+
+// A CA's latest revocation list, shared with the peer
+export interface CrlMessage {
+  type: 'crl';
+  crl: CertificateRevocationList;
+}
+
+// Our certificate was renewed with a new signing key
+export interface KeyRotationMessage {
+  type: 'key-rotation';
+  rotation: KeyRotation;
 }
 
 export interface DisconnectMessage {
   type: 'disconnect';
 }
 
+// WebRTC signaling, relayed over the signaling transport until the DataChannel opens
+export type RTCSignal =
+  | { kind: 'offer' | 'answer'; sdp: string }
+  | { kind: 'ice'; candidate: RTCIceCandidateInit };
+
+export interface SignalMessage {
+  type: 'webrtc-signal';
+  signal: RTCSignal;
+  signature: string; // Signature over the room code and signal
+  certificate: Certificate; // Signer's certificate
+}
+
+export type WireMessage =
+  | PairingRequest
+  | PairingResponse
+  | PairingConfirm
+  | SasConfirmMessage
+  | ChatMessage
+  | CrlMessage
+  | KeyRotationMessage
+  | DisconnectMessage
+  | SignalMessage;
+
+// Transport types
+export type TransportKind = 'broadcast' | 'memory' | 'socket' | 'webrtc';
+
+// Lets a transport sign what it sends on our behalf (e.g. WebRTC signaling)
+export interface TransportIdentity {
+  certificate: Certificate;
+  sign: (data: string) => Promise<string>;
+}
+
+export interface Transport {
+  /**
+   * Join the room for a pairing code. Resolves with the number of peers
+   * already present; `create` registers a new room where that matters.
+   */
+  connect: (roomCode: string, options?: { create?: boolean }) => Promise<number>;
+  send: (message: WireMessage) => Promise<void>;
+  onMessage: (handler: (message: WireMessage) => void) => void;
+  onPeerJoin: (handler: () => void) => void;
+  onPeerLeave: (handler: () => void) => void;
+  close: () => void;
+  /**
+   * For transports that authenticate their own connection (WebRTC
+   * signaling): whether it was set up by the certificate pairing fixed
+   */
+  confirmPeer?: (certificate: Certificate) => Promise<boolean>;
+}
+
+// Metadata signed with every chat message
+export interface MessageEnvelope {
+  version: number;
+  room: string; // Room locator
+  sender: string; // Sender's certificate ID
+  seq: number; // Per-sender sequence number, starting at 1
+  timestamp: number; // Sender's clock, in milliseconds
+  type: MessageType;
+  contentHash: string; // Base64 SHA-256 of the content
+}
+
+// How plaintext is padded before encryption to hide its length
+export type PaddingPolicy = 'padme' | 'block' | 'none';
+
+// How chat messages are authenticated: signatures anyone can check, or
+// session MACs that either peer could have made
+export type MessageAuthMode = 'signature' | 'deniable';
+
+// Decrypted contents of a ChatMessage. The signature or MAC travels inside
+// the ciphertext, so the relay never holds a proof of authorship.
+export interface ChatPayload {
+  envelope: MessageEnvelope;
+  content: string;
+  signature?: string; // Base64 encoded signature over the serialized envelope, when signed
+  mac?: string; // Base64 HMAC over the serialized envelope with the sender's session MAC key, when deniable
+}
+
+// Why a received message was dropped instead of displayed
+export type MessageRejectionReason =
+  | 'malformed'
+  | 'wrong-room'
+  | 'wrong-sender'
+  | 'content-mismatch'
+  | 'duplicate'
+  | 'replay'
+  | 'clock-skew'
+  | 'wrong-auth-mode';
+
+export interface MessageRejection {
+  id: string;
+  reason: MessageRejectionReason;
+  timestamp: number; // When it was received
+}
+
 export interface DocumentSignature {
   documentHash: string;
   signature: string;
   certificate: Certificate;
   timestamp: number;
+  format?: SignatureFormat; // Legacy signatures cover only the document hash
 }
\ No newline at end of file
@@ -0,0 +1,266 @@
+import { concatBytes, stringToArrayBuffer, arrayBufferToString } from './encoding';
+
+// Universal tags used by X.509
+export const Tag = {
+  BOOLEAN: 0x01,
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OID: 0x06,
+  UTF8_STRING: 0x0c,
+  PRINTABLE_STRING: 0x13,
+  IA5_STRING: 0x16,
+  UTC_TIME: 0x17,
+  GENERALIZED_TIME: 0x18,
+  SEQUENCE: 0x30,
+  SET: 0x31
+} as const;
+
+/**
+ * A decoded DER element. `bytes` is the complete encoding, header included,
+ * so signed structures can be verified exactly as they were received.
+ */
+export interface Asn1Element {
+  tag: number;
+  value: Uint8Array;
+  bytes: Uint8Array;
+  children: Asn1Element[]; // Only for constructed elements
+}
+
+/**
+ * Minimal DER encoder and decoder, covering what X.509 certificates need
+ */
+export class Der {
+  static encode(tag: number, value: Uint8Array): Uint8Array {
+    return concatBytes(new Uint8Array([tag]), this.encodeLength(value.length), value);
+  }
+
+  static sequence(...items: Uint8Array[]): Uint8Array {
+    return this.encode(Tag.SEQUENCE, concatBytes(...items));
+  }
+
+  // SET OF elements must be sorted by their encoding in DER
+  static set(...items: Uint8Array[]): Uint8Array {
+    const sorted = [...items].sort((a, b) => this.compareBytes(a, b));
+    return this.encode(Tag.SET, concatBytes(...sorted));
+  }
+
+  // [n] EXPLICIT, always constructed
+  static explicit(tagNumber: number, content: Uint8Array): Uint8Array {
+    return this.encode(0xa0 | tagNumber, content);
+  }
+
+  static boolean(value: boolean): Uint8Array {
+    return this.encode(Tag.BOOLEAN, new Uint8Array([value ? 0xff : 0x00]));
+  }
+
+  static integer(value: number | bigint | Uint8Array): Uint8Array {
+    let bytes: Uint8Array;
+    if (value instanceof Uint8Array) {
+      bytes = value;
+    } else {
+      let hex = BigInt(value).toString(16);
+      if (hex.length % 2) hex = '0' + hex;
+      bytes = new Uint8Array(hex.match(/../g)!.map(byte => parseInt(byte, 16)));
+    }
+
+    // Unsigned magnitude: strip redundant zeros, then keep the sign bit clear
+    let start = 0;
+    while (start < bytes.length - 1 && bytes[start] === 0 && !(bytes[start + 1] & 0x80)) {
+      start++;
+    }
+    bytes = bytes.slice(start);
+    if (bytes.length === 0 || bytes[0] & 0x80) {
+      bytes = concatBytes(new Uint8Array([0]), bytes);
+    }
+    return this.encode(Tag.INTEGER, bytes);
+  }
+
+  static bitString(bytes: Uint8Array, unusedBits: number = 0): Uint8Array {
+    return this.encode(Tag.BIT_STRING, concatBytes(new Uint8Array([unusedBits]), bytes));
+  }
+
+  static octetString(bytes: Uint8Array): Uint8Array {
+    return this.encode(Tag.OCTET_STRING, bytes);
+  }
+
+  static oid(dotted: string): Uint8Array {
+    const arcs = dotted.split('.').map(arc => BigInt(arc));
+    const bytes: number[] = [Number(arcs[0] * 40n + arcs[1])];
+
+    for (const arc of arcs.slice(2)) {
+      const chunk: number[] = [Number(arc & 0x7fn)];
+      for (let rest = arc >> 7n; rest > 0n; rest >>= 7n) {
+        chunk.unshift(Number(rest & 0x7fn) | 0x80);
+      }
+      bytes.push(...chunk);
+    }
+    return this.encode(Tag.OID, new Uint8Array(bytes));
+  }
+
+  static utf8String(value: string): Uint8Array {
+    return this.encode(Tag.UTF8_STRING, stringToArrayBuffer(value));
+  }
+
+  // UTCTime until 2049, GeneralizedTime after, as RFC 5280 requires
+  static time(timestamp: number): Uint8Array {
+    const iso = new Date(timestamp).toISOString(); // YYYY-MM-DDTHH:mm:ss.sssZ
+    const digits = iso.slice(0, 19).replace(/[-T:]/g, '') + 'Z';
+    const year = new Date(timestamp).getUTCFullYear();
+
+    return year < 2050
+      ? this.encode(Tag.UTC_TIME, stringToArrayBuffer(digits.slice(2)))
+      : this.encode(Tag.GENERALIZED_TIME, stringToArrayBuffer(digits));
+  }
+
+  /**
+   * Decode exactly one element. Throws on trailing data or malformed input.
+   */
+  static decode(bytes: Uint8Array): Asn1Element {
+    const [element, end] = this.decodeAt(bytes, 0);
+    if (end !== bytes.length) {
+      throw new Error('Trailing data after DER element');
+    }
+    return element;
+  }
+
+  static readInteger(element: Asn1Element): bigint {
+    this.expectTag(element, Tag.INTEGER);
+    let value = 0n;
+    for (const byte of element.value) {
+      value = (value << 8n) | BigInt(byte);
+    }
+    return value;
+  }
+
+  // The unsigned magnitude bytes of an INTEGER, without a sign-padding zero
+  static readUnsigned(element: Asn1Element): Uint8Array {
+    this.expectTag(element, Tag.INTEGER);
+    return element.value[0] === 0 && element.value.length > 1 ? element.value.slice(1) : element.value;
+  }
+
+  static readBoolean(element: Asn1Element): boolean {
+    this.expectTag(element, Tag.BOOLEAN);
+    return element.value[0] !== 0;
+  }
+
+  static readBitString(element: Asn1Element): { bytes: Uint8Array; unusedBits: number } {
+    this.expectTag(element, Tag.BIT_STRING);
+    return { bytes: element.value.slice(1), unusedBits: element.value[0] };
+  }
+
+  static readOid(element: Asn1Element): string {
+    this.expectTag(element, Tag.OID);
+    const bytes = element.value;
+    const top = Math.min(Math.floor(bytes[0] / 40), 2);
+    const arcs: bigint[] = [BigInt(top), BigInt(bytes[0] - top * 40)];
+
+    let arc = 0n;
+    for (const byte of bytes.slice(1)) {
+      arc = (arc << 7n) | BigInt(byte & 0x7f);
+      if (!(byte & 0x80)) {
+        arcs.push(arc);
+        arc = 0n;
+      }
+    }
+    return arcs.join('.');
+  }
+
+  static readString(element: Asn1Element): string {
+    const stringTags: number[] = [Tag.UTF8_STRING, Tag.PRINTABLE_STRING, Tag.IA5_STRING];
+    if (!stringTags.includes(element.tag)) {
+      throw new Error(`Expected a string, got tag 0x${element.tag.toString(16)}`);
+    }
+    return arrayBufferToString(element.value);
+  }
+
+  static readTime(element: Asn1Element): number {
+    const text = arrayBufferToString(element.value);
+    let digits: string;
+    if (element.tag === Tag.UTC_TIME) {
+      const year = parseInt(text.slice(0, 2), 10);
+      digits = (year >= 50 ? '19' : '20') + text;
+    } else if (element.tag === Tag.GENERALIZED_TIME) {
+      digits = text;
+    } else {
+      throw new Error('Expected a time');
+    }
+
+    const match = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})Z$/.exec(digits);
+    if (!match) {
+      throw new Error('Unsupported time format');
+    }
+    const [, year, month, day, hour, minute, second] = match.map(Number);
+    return Date.UTC(year, month - 1, day, hour, minute, second);
+  }
+
+  static expectTag(element: Asn1Element, tag: number): void {
+    if (element.tag !== tag) {
+      throw new Error(`Expected tag 0x${tag.toString(16)}, got 0x${element.tag.toString(16)}`);
+    }
+  }
+
+  private static decodeAt(bytes: Uint8Array, offset: number): [Asn1Element, number] {
+    if (offset + 2 > bytes.length) {
+      throw new Error('Truncated DER element');
+    }
+
+    const tag = bytes[offset];
+    if ((tag & 0x1f) === 0x1f) {
+      throw new Error('High tag numbers are not supported');
+    }
+
+    let length = bytes[offset + 1];
+    let headerLength = 2;
+    if (length & 0x80) {
+      const lengthBytes = length & 0x7f;
+      if (lengthBytes === 0 || lengthBytes > 4 || offset + 2 + lengthBytes > bytes.length) {
+        throw new Error('Unsupported DER length');
+      }
+      length = 0;
+      for (let i = 0; i < lengthBytes; i++) {
+        length = length * 256 + bytes[offset + 2 + i];
+      }
+      headerLength += lengthBytes;
+    }
+
+    const start = offset + headerLength;
+    const end = start + length;
+    if (end > bytes.length) {
+      throw new Error('Truncated DER element');
+    }
+
+    const value = bytes.slice(start, end);
+    const children: Asn1Element[] = [];
+    if (tag & 0x20) {
+      let childOffset = 0;
+      while (childOffset < value.length) {
+        const [child, next] = this.decodeAt(value, childOffset);
+        children.push(child);
+        childOffset = next;
+      }
+    }
+
+    return [{ tag, value, bytes: bytes.slice(offset, end), children }, end];
+  }
+
+  private static encodeLength(length: number): Uint8Array {
+    if (length < 0x80) {
+      return new Uint8Array([length]);
+    }
+
+    const bytes: number[] = [];
+    for (let rest = length; rest > 0; rest = Math.floor(rest / 256)) {
+      bytes.unshift(rest & 0xff);
+    }
+    return new Uint8Array([0x80 | bytes.length, ...bytes]);
+  }
+
+  private static compareBytes(a: Uint8Array, b: Uint8Array): number {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      if (a[i] !== b[i]) return a[i] - b[i];
+    }
+    return a.length - b.length;
+  }
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { CaKeyShare, CertificateAuthority } from '../types';
+import { CaKeyShares } from './caKeyShares';
+import { arrayBufferToBase64, base64ToArrayBuffer } from './encoding';
+
+const ECDSA_KEY: EcKeyGenParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const ECDSA_SIGN: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+async function ceremony(threshold = 3, total = 5) {
+  const keyPair = await crypto.subtle.generateKey(ECDSA_KEY, true, ['sign', 'verify']);
+  const ca: CertificateAuthority = {
+    id: 'ca-test',
+    name: 'Test CA',
+    publicKey: arrayBufferToBase64(await crypto.subtle.exportKey('raw', keyPair.publicKey))
+  };
+  return { ca, keyPair, shares: await CaKeyShares.create(ca, keyPair.privateKey, threshold, total) };
+}
+
+// The rebuilt key must sign for the CA public key
+async function signsFor(privateKey: CryptoKey, publicKey: CryptoKey): Promise<boolean> {
+  const data = new TextEncoder().encode('probe');
+  return crypto.subtle.verify(ECDSA_SIGN, publicKey, await crypto.subtle.sign(ECDSA_SIGN, privateKey, data), data);
+}
+
+function flipFirstByte(share: CaKeyShare): CaKeyShare {
+  const data = base64ToArrayBuffer(share.share);
+  data[0] ^= 0x01;
+  return { ...share, share: arrayBufferToBase64(data) };
+}
+
+describe('CaKeyShares', async () => {
+  const { ca, keyPair, shares } = await ceremony();
+
+  it('writes one file per share, all committing to every share', () => {
+    expect(shares).toHaveLength(5);
+    expect(shares.map(share => share.index)).toEqual([1, 2, 3, 4, 5]);
+    expect(new Set(shares.map(share => share.signature)).size).toBe(1);
+    expect(shares.every(share => share.commitments.length === 5)).toBe(true);
+    expect(CaKeyShares.fileName(shares[1])).toBe('cipher-ca-share-2-of-5.json');
+  });
+
+  it('rebuilds the CA key from any three of the five shares', async () => {
+    for (const indices of [[0, 1, 2], [0, 2, 4], [1, 3, 4], [4, 3, 2], [0, 1, 2, 3, 4]]) {
+      const key = await CaKeyShares.reconstruct(indices.map(i => shares[i]), ca);
+      expect(key.extractable).toBe(false);
+      expect(await signsFor(key, keyPair.publicKey)).toBe(true);
+    }
+  });
+
+  it('round-trips share files', async () => {
+    const parsed = shares.slice(2).map(share => CaKeyShares.parse(CaKeyShares.serialize(share)));
+    expect(parsed).toEqual(shares.slice(2));
+    expect(await signsFor(await CaKeyShares.reconstruct(parsed, ca), keyPair.publicKey)).toBe(true);
+  });
+
+  it('needs the threshold of different shares', async () => {
+    await expect(CaKeyShares.reconstruct(shares.slice(0, 2), ca)).rejects.toThrow('3 different shares are needed, got 2');
+    await expect(CaKeyShares.reconstruct([shares[0], shares[1], shares[1]], ca)).rejects.toThrow('got 2');
+    await expect(CaKeyShares.reconstruct([], ca)).rejects.toThrow('No CA key shares given');
+  });
+
+  it('names a damaged share', async () => {
+    await expect(CaKeyShares.reconstruct([shares[0], flipFirstByte(shares[1]), shares[2]], ca))
+      .rejects.toThrow('Share 2 is damaged or not from this ceremony');
+    await expect(CaKeyShares.reconstruct([shares[0], shares[1], { ...shares[2], index: 4 }], ca))
+      .rejects.toThrow('Share 4 is damaged');
+    await expect(CaKeyShares.reconstruct([shares[0], shares[1], { ...shares[2], index: 6 }], ca))
+      .rejects.toThrow('Share 6 is damaged');
+    await expect(CaKeyShares.reconstruct([shares[0], shares[1], { ...shares[2], index: 0 }], ca))
+      .rejects.toThrow('Share 0 is damaged');
+  });
+
+  it('refuses shares of another CA or ceremony', async () => {
+    const other = await ceremony();
+    await expect(CaKeyShares.reconstruct(shares.slice(0, 3), other.ca)).rejects.toThrow('different CA');
+    await expect(CaKeyShares.reconstruct([shares[0], shares[1], { ...other.shares[2], ca }], ca))
+      .rejects.toThrow('different key ceremonies');
+  });
+
+  it('refuses commitments the CA did not sign', async () => {
+    const replaced = await Promise.all(shares.map(async share => flipFirstByte(share)));
+    const commitments = await Promise.all(replaced.map(async share =>
+      arrayBufferToBase64(await crypto.subtle.digest('SHA-256', base64ToArrayBuffer(share.share)))
+    ));
+    const forged = replaced.map(share => ({ ...share, commitments }));
+    await expect(CaKeyShares.reconstruct(forged.slice(0, 3), ca)).rejects.toThrow('not signed by the CA');
+  });
+
+  it('rejects malformed share files', () => {
+    const valid = JSON.parse(CaKeyShares.serialize(shares[0]));
+    expect(() => CaKeyShares.parse('not json')).toThrow('Not a CA key share file');
+    expect(() => CaKeyShares.parse(JSON.stringify({ ...valid, format: 'other' }))).toThrow('Not a CA key share file');
+    expect(() => CaKeyShares.parse(JSON.stringify({ ...valid, version: 2 }))).toThrow('Unsupported CA key share version');
+    for (const broken of [
+      { index: '1' },
+      { index: 1.5 },
+      { threshold: null },
+      { commitments: valid.commitments.slice(1) },
+      { share: 42 },
+      { signature: undefined },
+      { ca: { id: 'ca-test' } }
+    ]) {
+      expect(() => CaKeyShares.parse(JSON.stringify({ ...valid, ...broken }))).toThrow('malformed');
+    }
+  });
+});
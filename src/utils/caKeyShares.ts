@@ -0,0 +1,175 @@
+import { CaKeyShare, CertificateAuthority } from '../types';
+import { CanonicalJson } from './canonicalJson';
+import { CryptoSuites } from './cryptoSuites';
+import { arrayBufferToBase64, base64ToArrayBuffer, stringToArrayBuffer } from './encoding';
+import { SecretShare, Shamir } from './shamir';
+
+const SHARE_FORMAT = 'cipher-ca-key-share';
+const SHARE_VERSION = 1;
+
+type Ceremony = Omit<CaKeyShare, 'signature' | 'index' | 'share'>;
+
+/**
+ * Files from a CA key ceremony. The CA private key (PKCS#8) is split into
+ * threshold-of-total Shamir shares, and each file carries SHA-256
+ * commitments to all shares, signed by the CA key before it is discarded,
+ * so a damaged or substituted share is named before the key is rebuilt.
+ */
+export class CaKeyShares {
+  static readonly maxShares = Shamir.maxShares;
+
+  static fileName(share: CaKeyShare): string {
+    return `cipher-ca-share-${share.index}-of-${share.total}.json`;
+  }
+
+  /**
+   * Split an extractable CA private key into share files
+   */
+  static async create(
+    ca: CertificateAuthority,
+    privateKey: CryptoKey,
+    threshold: number,
+    total: number
+  ): Promise<CaKeyShare[]> {
+    const pkcs8 = new Uint8Array(await window.crypto.subtle.exportKey('pkcs8', privateKey));
+    let shares: SecretShare[] = [];
+    try {
+      shares = Shamir.split(pkcs8, threshold, total);
+      const ceremony: Ceremony = {
+        format: SHARE_FORMAT,
+        version: SHARE_VERSION,
+        ca: { id: ca.id, name: ca.name, publicKey: ca.publicKey, ...(ca.suite && { suite: ca.suite }) },
+        threshold,
+        total,
+        createdAt: Date.now(),
+        commitments: await Promise.all(shares.map(share => this.commit(share.data)))
+      };
+      const signature = arrayBufferToBase64(await window.crypto.subtle.sign(
+        CryptoSuites.signatureParams(privateKey),
+        privateKey,
+        this.ceremonyBytes(ceremony)
+      ));
+
+      return shares.map(share => ({
+        ...ceremony,
+        signature,
+        index: share.index,
+        share: arrayBufferToBase64(share.data)
+      }));
+    } finally {
+      pkcs8.fill(0);
+      shares.forEach(share => share.data.fill(0));
+    }
+  }
+
+  static serialize(share: CaKeyShare): string {
+    return JSON.stringify(share, null, 2);
+  }
+
+  static parse(serialized: string): CaKeyShare {
+    let share: CaKeyShare;
+    try {
+      share = JSON.parse(serialized);
+    } catch {
+      throw new Error('Not a CA key share file');
+    }
+
+    if (share?.format !== SHARE_FORMAT) {
+      throw new Error('Not a CA key share file');
+    }
+    if (share.version !== SHARE_VERSION) {
+      throw new Error('Unsupported CA key share version');
+    }
+    if (
+      typeof share.ca?.id !== 'string' ||
+      typeof share.ca.publicKey !== 'string' ||
+      !Number.isInteger(share.threshold) ||
+      !Number.isInteger(share.total) ||
+      !Number.isInteger(share.index) ||
+      !Array.isArray(share.commitments) ||
+      share.commitments.length !== share.total ||
+      typeof share.signature !== 'string' ||
+      typeof share.share !== 'string'
+    ) {
+      throw new Error('CA key share file is malformed');
+    }
+    return share;
+  }
+
+  /**
+   * Check shares of a CA's key and rebuild it as a non-extractable CryptoKey.
+   * Throws naming the first share that fails its commitment.
+   */
+  static async reconstruct(shares: CaKeyShare[], ca: CertificateAuthority): Promise<CryptoKey> {
+    if (shares.length === 0) {
+      throw new Error('No CA key shares given');
+    }
+
+    const [first] = shares;
+    if (first.ca.id !== ca.id || first.ca.publicKey !== ca.publicKey) {
+      throw new Error('These shares belong to a different CA');
+    }
+    const ceremony = CanonicalJson.stringify(this.ceremonyOf(first));
+    if (shares.some(share => CanonicalJson.stringify(this.ceremonyOf(share)) !== ceremony || share.signature !== first.signature)) {
+      throw new Error('The shares come from different key ceremonies');
+    }
+
+    const signingKey = CryptoSuites.algorithms(ca.suite).signingKey;
+    const caPublicKey = await window.crypto.subtle.importKey('raw', base64ToArrayBuffer(ca.publicKey), signingKey, false, ['verify']);
+    const isSigned = await window.crypto.subtle.verify(
+      CryptoSuites.signatureParams(caPublicKey),
+      caPublicKey,
+      base64ToArrayBuffer(first.signature),
+      this.ceremonyBytes(first)
+    );
+    if (!isSigned) {
+      throw new Error('The share commitments are not signed by the CA');
+    }
+
+    const secretShares = new Map<number, SecretShare>();
+    for (const share of shares) {
+      const data = base64ToArrayBuffer(share.share);
+      const commitment = first.commitments[share.index - 1];
+      if (share.index < 1 || share.index > first.total || commitment !== await this.commit(data)) {
+        throw new Error(`Share ${share.index} is damaged or not from this ceremony`);
+      }
+      secretShares.set(share.index, { index: share.index, data });
+    }
+    if (secretShares.size < first.threshold) {
+      throw new Error(`${first.threshold} different shares are needed, got ${secretShares.size}`);
+    }
+
+    const pkcs8 = Shamir.combine(Array.from(secretShares.values()));
+    let privateKey: CryptoKey;
+    try {
+      privateKey = await window.crypto.subtle.importKey('pkcs8', pkcs8, signingKey, false, ['sign']);
+    } catch {
+      throw new Error('The rebuilt CA key is invalid');
+    } finally {
+      pkcs8.fill(0);
+      secretShares.forEach(share => share.data.fill(0));
+    }
+
+    // Committed shares can only rebuild the committed key, but check anyway
+    const probe = stringToArrayBuffer(`cipher-ca-share-check:${Date.now()}`);
+    const probeSignature = await window.crypto.subtle.sign(CryptoSuites.signatureParams(privateKey), privateKey, probe);
+    if (!await window.crypto.subtle.verify(CryptoSuites.signatureParams(caPublicKey), caPublicKey, probeSignature, probe)) {
+      throw new Error('The rebuilt key does not match the CA');
+    }
+    return privateKey;
+  }
+
+  // Only the ceremony fields, whatever else the object carries
+  private static ceremonyOf(share: Ceremony): Ceremony {
+    const { format, version, ca, threshold, total, createdAt, commitments } = share;
+    return { format, version, ca, threshold, total, createdAt, commitments };
+  }
+
+  private static ceremonyBytes(ceremony: Ceremony): Uint8Array {
+    return CanonicalJson.encode(this.ceremonyOf(ceremony));
+  }
+
+  private static async commit(data: Uint8Array): Promise<string> {
+    return arrayBufferToBase64(await window.crypto.subtle.digest('SHA-256', data));
+  }
+}
@@ -0,0 +1,45 @@
+import { SignatureFormat } from '../types';
+import { stringToArrayBuffer } from './encoding';
+
+// Format written by this version; format 1 (plain JSON.stringify) is still verified
+export const CANONICAL_SIGNATURE_FORMAT: SignatureFormat = 2;
+
+/**
+ * RFC 8785 JSON Canonicalization Scheme: object keys sorted by UTF-16 code
+ * units, no whitespace, and ECMAScript number and string serialization.
+ * Signed data goes through this so its bytes never depend on how an object
+ * was built or parsed.
+ */
+export class CanonicalJson {
+  static stringify(value: unknown): string {
+    if (value === null || typeof value === 'boolean' || typeof value === 'string') {
+      return JSON.stringify(value);
+    }
+
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) {
+        throw new TypeError('Non-finite numbers cannot be canonicalized');
+      }
+      return JSON.stringify(value);
+    }
+
+    if (Array.isArray(value)) {
+      return '[' + value.map(item => this.stringify(item)).join(',') + ']';
+    }
+
+    if (typeof value === 'object') {
+      // Properties set to undefined are left out, as in JSON.stringify;
+      // string comparison is by UTF-16 code units, as JCS requires
+      const entries = Object.entries(value as Record<string, unknown>)
+        .filter(([, item]) => item !== undefined)
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+      return '{' + entries.map(([key, item]) => JSON.stringify(key) + ':' + this.stringify(item)).join(',') + '}';
+    }
+
+    throw new TypeError(`Cannot canonicalize a value of type ${typeof value}`);
+  }
+
+  static encode(value: unknown): Uint8Array {
+    return stringToArrayBuffer(this.stringify(value));
+  }
+}
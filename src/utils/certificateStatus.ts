@@ -0,0 +1,165 @@
+import { Certificate, CertificateRevocationList, CertificateStatusResponse, CertificateStatusResult, StatusResponder } from '../types';
+import { createStatusResponder, StatusResponderService } from '../status';
+import { CertificateManager } from './certificates';
+import { CryptoSuites } from './cryptoSuites';
+import { TrustStore } from './trustStore';
+import { base64ToArrayBuffer } from './encoding';
+
+// Responses produced this far in the future are from a clock we cannot trust
+const PRODUCED_AT_TOLERANCE_MS = 5 * 60 * 1000;
+// Responses claiming to hold for longer are rejected outright
+const MAX_RESPONSE_VALIDITY_MS = 24 * 60 * 60 * 1000;
+// After a failed query, wait this long before asking the responder again
+const RETRY_AFTER_MS = 60 * 1000;
+
+export const CERTIFICATE_STATUS_LABELS: Record<CertificateStatusResult, string> = {
+  good: 'not revoked, per its CA\'s status responder',
+  revoked: 'revoked, per its CA\'s status responder',
+  unknown: 'unknown to the status responder',
+  unavailable: 'status responder unreachable'
+};
+
+/**
+ * Client side of certificate status: registers our CA with the status
+ * responder and checks certificates against it. A response only counts if
+ * the certificate's trusted issuer delegated status signing to the key that
+ * signed it, and it is still fresh. Verified responses are cached, so a
+ * response stapled during pairing answers later checks too.
+ */
+export class CertificateStatus {
+  private static instance: CertificateStatus;
+  // Latest verified response for each certificate, by fingerprint
+  private responses = new Map<string, CertificateStatusResponse>();
+  private retryAt = new Map<string, number>();
+  private certificateManager = CertificateManager.getInstance();
+  private trustStore = TrustStore.getInstance();
+
+  static getInstance(): CertificateStatus {
+    if (!CertificateStatus.instance) {
+      CertificateStatus.instance = new CertificateStatus(createStatusResponder());
+    }
+    return CertificateStatus.instance;
+  }
+
+  private constructor(private readonly responder: StatusResponder) {}
+
+  /**
+   * Let the responder answer for our CA: delegate status signing to its key
+   * and hand it our revocation list. Needs the CA key.
+   */
+  async register(): Promise<void> {
+    const ca = this.certificateManager.getCAInfo();
+    const crl = await this.certificateManager.getRevocationList();
+    if (!ca || !crl) {
+      throw new Error('CA not initialized');
+    }
+
+    const responderKey = await this.certificateManager.importPublicKey(await this.responder.publicKey());
+    const delegation = await this.certificateManager.issueResponderCertificate(responderKey);
+    await this.responder.register(ca, delegation, crl);
+  }
+
+  /**
+   * Send our CA's newer revocation list, and drop cached answers it may change
+   */
+  async publishRevocationList(crl: CertificateRevocationList): Promise<void> {
+    for (const [fingerprint, response] of this.responses) {
+      if (response.issuer === crl.issuer) {
+        this.responses.delete(fingerprint);
+      }
+    }
+    await this.responder.publishRevocationList(crl);
+  }
+
+  /**
+   * The status of a certificate: from a valid stapled response, a cached
+   * one that is not yet half expired, or else the responder. Null when
+   * none of these gave a valid answer.
+   */
+  async check(certificate: Certificate, stapled?: CertificateStatusResponse): Promise<CertificateStatusResponse | null> {
+    const now = Date.now();
+    const fingerprint = await this.certificateManager.fingerprint(certificate);
+    if (stapled && await this.verify(certificate, fingerprint, stapled)) {
+      this.remember(fingerprint, stapled);
+    }
+
+    const cached = this.responses.get(fingerprint);
+    const isUsable = !!cached && now < cached.nextUpdate;
+    if (isUsable && now < cached.producedAt + (cached.nextUpdate - cached.producedAt) / 2) {
+      return cached;
+    }
+    if (now < (this.retryAt.get(fingerprint) ?? 0)) {
+      return isUsable ? cached : null;
+    }
+
+    try {
+      const response = await this.responder.status(certificate.issuer, certificate.id, fingerprint);
+      if (!await this.verify(certificate, fingerprint, response)) {
+        throw new Error('Status response failed verification');
+      }
+      this.remember(fingerprint, response);
+      return this.responses.get(fingerprint) ?? null;
+    } catch (error) {
+      console.warn('Certificate status check failed:', error);
+      this.retryAt.set(fingerprint, now + RETRY_AFTER_MS);
+      return isUsable ? cached : null;
+    }
+  }
+
+  /**
+   * Reduce a response, or its absence, to a status
+   */
+  static resultOf(response: CertificateStatusResponse | null): CertificateStatusResult {
+    return response?.status ?? 'unavailable';
+  }
+
+  // Newer responses replace older ones
+  private remember(fingerprint: string, response: CertificateStatusResponse): void {
+    const current = this.responses.get(fingerprint);
+    if (!current || current.producedAt < response.producedAt) {
+      this.responses.set(fingerprint, response);
+      this.retryAt.delete(fingerprint);
+    }
+  }
+
+  private async verify(
+    certificate: Certificate,
+    fingerprint: string,
+    response: CertificateStatusResponse
+  ): Promise<boolean> {
+    try {
+      const now = Date.now();
+      const isAbout = response.issuer === certificate.issuer &&
+        response.certificateId === certificate.id &&
+        response.fingerprint === fingerprint &&
+        ['good', 'revoked', 'unknown'].includes(response.status);
+      const isFresh = response.producedAt <= now + PRODUCED_AT_TOLERANCE_MS &&
+        now < response.nextUpdate &&
+        response.nextUpdate - response.producedAt <= MAX_RESPONSE_VALIDITY_MS;
+      if (!isAbout || !isFresh) return false;
+      if (response.status === 'revoked' && response.revocation?.fingerprint !== fingerprint) return false;
+
+      // The responder's certificate must come straight from the trusted issuer,
+      // for status signing and nothing else
+      const responder = response.responder;
+      const anchor = this.trustStore.getAnchor(certificate.issuer);
+      if (!responder || !anchor) return false;
+      const isDelegated = responder.extensions?.keyUsage?.length === 1 &&
+        responder.extensions.keyUsage[0] === 'status-signing' &&
+        !responder.ca &&
+        await this.certificateManager.verifyIssuedBy(responder, anchor) &&
+        !await this.certificateManager.getRevocation(responder);
+      if (!isDelegated) return false;
+
+      const key = await this.certificateManager.importPublicKey(responder.publicKey, responder.suite);
+      return await window.crypto.subtle.verify(
+        CryptoSuites.signatureParams(key),
+        key,
+        base64ToArrayBuffer(response.signature),
+        StatusResponderService.responseData(response)
+      );
+    } catch {
+      return false;
+    }
+  }
+}
@@ -1,5 +1,58 @@
-import { Certificate, CertificateAuthority, SigningKeyPair } from '../types';
-import { arrayBufferToBase64, base64ToArrayBuffer } from './encoding';
+import { CaConstraints, CaKeyShare, Certificate, CertificateAuthority, CertificateExtensions, CertificateRevocationList, CryptoSuite, IntermediateCA, KeyUsage, PathValidationFailure, PathValidationResult, RevocationReason, RevokedCertificate, SigningKeyPair } from '../types';
+import { CANONICAL_SIGNATURE_FORMAT, CanonicalJson } from './canonicalJson';
+import { CaKeyShares } from './caKeyShares';
+import { CryptoSuites, DEFAULT_CRYPTO_SUITE } from './cryptoSuites';
+import { arrayBufferToBase64, arrayBufferToString, base64ToArrayBuffer, stringToArrayBuffer } from './encoding';
+import { TrustStore } from './trustStore';
+import { RevocationStore } from './revocationStore';
+import { X509, X509Fields, X509KeyUsage } from './x509';
+
+// A revocation list is reissued once it is this old, even without changes
+const CRL_VALIDITY_DAYS = 7;
+// Longest path, end-entity included, that validation will follow
+const MAX_PATH_LENGTH = 8;
+// Peers' clocks differ, so a certificate issued slightly in the future is accepted
+const ISSUED_AT_TOLERANCE_MS = 5 * 60 * 1000;
+// Validity of the self-signed X.509 certificate exported for our CA
+const CA_PEM_VALIDITY_DAYS = 3650;
+// Longest display name, organization or role a certificate can carry
+const MAX_ATTRIBUTE_LENGTH = 64;
+// Status responder certificates are short-lived and reissued as they age
+const RESPONDER_VALIDITY_DAYS = 7;
+
+type SignedCertificateFields = Pick<Certificate, 'subject' | 'publicKey' | 'issuer' | 'issuedAt' | 'expiresAt' | 'ca' | 'format' | 'suite' | 'extensions'>;
+
+export type CrlImportResult = 'updated' | 'stale' | 'untrusted' | 'invalid';
+
+export const PATH_FAILURE_LABELS: Record<PathValidationFailure, string> = {
+  'unknown-issuer': 'issued by a CA you do not trust',
+  'not-a-ca': 'chain contains a certificate that is not a CA',
+  'bad-signature': 'a certificate in the chain has an invalid signature',
+  expired: 'a certificate in the chain has expired',
+  'not-yet-valid': 'a certificate in the chain is not valid yet',
+  revoked: 'a certificate in the chain has been revoked',
+  'path-length-exceeded': 'too many intermediate CAs for the path length constraint',
+  'name-constraint-violation': 'subject is not permitted by an intermediate CA',
+  'chain-too-long': 'certificate chain is too long'
+};
+
+export const KEY_USAGE_LABELS: Record<KeyUsage, string> = {
+  'chat-signing': 'Chat messages',
+  'document-signing': 'Documents',
+  'certificate-signing': 'Certificates (CA)',
+  'status-signing': 'Certificate status (responder)'
+};
+
+// What our own identity certificates are issued for unless asked otherwise
+export const DEFAULT_KEY_USAGE: KeyUsage[] = ['chat-signing', 'document-signing'];
+
+// Our key usages and the X.509 KeyUsage bits they are exported as;
+// status signing would be an extended key usage, which we do not encode
+const X509_KEY_USAGE: Record<Exclude<KeyUsage, 'status-signing'>, X509KeyUsage> = {
+  'chat-signing': 'digitalSignature',
+  'document-signing': 'contentCommitment',
+  'certificate-signing': 'keyCertSign'
+};
 
 /**
  * Certificate management utilities
@@ -7,6 +60,9 @@ import { arrayBufferToBase64, base64ToArrayBuffer } from './encoding';
 export class CertificateManager {
   private static instance: CertificateManager;
   private ca: CertificateAuthority | null = null;
+  private caPrivateKey: CryptoKey | null = null;
+  private trustStore = TrustStore.getInstance();
+  private revocationStore = RevocationStore.getInstance();
 
   static getInstance(): CertificateManager {
     if (!CertificateManager.instance) {
@@ -21,30 +77,97 @@ export class CertificateManager {
   async initializeCA(): Promise<CertificateAuthority> {
     const keyPair = await this.generateSigningKeyPair();
     const publicKeyData = await this.exportPublicKey(keyPair.publicKey);
-    const privateKeyData = await this.exportPrivateKey(keyPair.privateKey);
 
     this.ca = {
       id: 'cipher-ca-' + Date.now(),
       name: 'Cipher Chat CA',
       publicKey: publicKeyData,
-      privateKey: privateKeyData
+      suite: CryptoSuites.ofKey(keyPair.publicKey)
     };
+    this.caPrivateKey = keyPair.privateKey;
+
+    // Our own CA is always a trust anchor for this session
+    this.trustStore.addSelf(this.ca);
 
     return this.ca;
   }
 
   /**
-   * Generate ECDSA key pair for signing
+   * Run a key ceremony: create a CA whose private key is split into
+   * threshold-of-total shares and not kept. Issuing and revoking then need
+   * the key rebuilt from shares with withCAKeyShares.
+   */
+  async initializeThresholdCA(threshold: number, total: number): Promise<CaKeyShare[]> {
+    const keyPair = await this.generateSigningKeyPair();
+    const ca: CertificateAuthority = {
+      id: 'cipher-ca-' + Date.now(),
+      name: 'Cipher Chat CA',
+      publicKey: await this.exportPublicKey(keyPair.publicKey),
+      suite: CryptoSuites.ofKey(keyPair.publicKey)
+    };
+    const shares = await CaKeyShares.create(ca, keyPair.privateKey, threshold, total);
+
+    this.ca = ca;
+    this.caPrivateKey = null;
+    this.trustStore.addSelf(this.ca);
+    return shares;
+  }
+
+  /**
+   * Rebuild the CA key from ceremony shares for one operation, such as
+   * issuing or revoking a certificate, and drop it afterwards
+   */
+  async withCAKeyShares<T>(shares: CaKeyShare[], operation: () => Promise<T>): Promise<T> {
+    if (!this.ca) {
+      throw new Error('CA not initialized');
+    }
+    if (this.caPrivateKey) {
+      throw new Error('The CA key is not split into shares');
+    }
+
+    this.caPrivateKey = await CaKeyShares.reconstruct(shares, this.ca);
+    try {
+      return await operation();
+    } finally {
+      this.caPrivateKey = null;
+    }
+  }
+
+  /**
+   * Whether our CA's key only exists as ceremony shares right now
+   */
+  isCAKeyOffline(): boolean {
+    return !!this.ca && !this.caPrivateKey;
+  }
+
+  /**
+   * Use a previously saved CA instead of creating a new one. Without a
+   * private key the CA key is held as ceremony shares.
+   */
+  restoreCA(ca: CertificateAuthority, privateKey: CryptoKey | null): void {
+    this.ca = { id: ca.id, name: ca.name, publicKey: ca.publicKey, ...(ca.suite && { suite: ca.suite }) };
+    this.caPrivateKey = privateKey;
+    this.trustStore.addSelf(this.ca);
+  }
+
+  /**
+   * The CA signing key, for persisting the identity
    */
-  async generateSigningKeyPair(): Promise<SigningKeyPair> {
+  getCAPrivateKey(): CryptoKey | null {
+    return this.caPrivateKey;
+  }
+
+  /**
+   * Generate a signing key pair, by default P-256: certificates and
+   * signatures must verify for every peer, while only the key agreement
+   * suite is negotiated during pairing
+   */
+  async generateSigningKeyPair(suite: CryptoSuite = DEFAULT_CRYPTO_SUITE): Promise<SigningKeyPair> {
     const keyPair = await window.crypto.subtle.generateKey(
-      {
-        name: 'ECDSA',
-        namedCurve: 'P-256'
-      },
+      CryptoSuites.algorithms(suite).signingKey,
       true,
       ['sign', 'verify']
-    );
+    ) as CryptoKeyPair;
 
     return {
       publicKey: keyPair.publicKey,
@@ -53,60 +176,141 @@ export class CertificateManager {
   }
 
   /**
-   * Issue a certificate for a user
+   * Whether a certificate's key may be used for something. Certificates
+   * without a key usage extension are not restricted.
+   */
+  static allowsKeyUsage(certificate: Certificate, usage: KeyUsage): boolean {
+    const keyUsage = certificate.extensions?.keyUsage;
+    return !keyUsage || keyUsage.includes(usage);
+  }
+
+  /**
+   * Issue a certificate for a user, from our root CA or an intermediate CA
    */
   async issueCertificate(
     subject: string,
     publicKey: CryptoKey,
-    validityDays: number = 30
+    validityDays: number = 30,
+    issuer?: IntermediateCA,
+    extensions: CertificateExtensions = { keyUsage: DEFAULT_KEY_USAGE }
   ): Promise<Certificate> {
     if (!this.ca) {
       await this.initializeCA();
     }
 
-    const publicKeyData = await this.exportPublicKey(publicKey);
-    const now = Date.now();
-    const expiresAt = now + (validityDays * 24 * 60 * 60 * 1000);
+    if (issuer && !this.subjectPermitted(subject, issuer.certificate.ca)) {
+      throw new Error('Subject is not permitted by the intermediate CA name constraints');
+    }
+
+    return this.buildCertificate(subject, publicKey, validityDays, issuer, undefined, this.checkExtensions(extensions));
+  }
 
-    const certData = {
+  /**
+   * Issue an intermediate CA certificate, signed by our root CA or by
+   * another intermediate whose path length allows it
+   */
+  async issueIntermediateCA(
+    constraints: CaConstraints = {},
+    validityDays: number = 365,
+    parent?: IntermediateCA
+  ): Promise<IntermediateCA> {
+    if (!this.ca) {
+      await this.initializeCA();
+    }
+
+    if (parent) {
+      const parentLength = parent.certificate.ca?.pathLength;
+      if (parentLength !== undefined && parentLength < 1) {
+        throw new Error('Parent CA path length does not allow further intermediates');
+      }
+    }
+
+    const keyPair = await this.generateSigningKeyPair();
+    const subject = 'cipher-ica-' + Date.now() + '-' + window.crypto.randomUUID();
+    const certificate = await this.buildCertificate(
       subject,
-      publicKey: publicKeyData,
-      issuer: this.ca!.id,
+      keyPair.publicKey,
+      validityDays,
+      parent,
+      constraints,
+      { keyUsage: ['certificate-signing'] }
+    );
+
+    return { certificate, privateKey: keyPair.privateKey };
+  }
+
+  /**
+   * Delegate signing status responses about our CA's certificates to a
+   * status responder's key
+   */
+  async issueResponderCertificate(
+    responderKey: CryptoKey,
+    validityDays: number = RESPONDER_VALIDITY_DAYS
+  ): Promise<Certificate> {
+    if (!this.ca) {
+      await this.initializeCA();
+    }
+
+    return this.buildCertificate(
+      'cipher-status-responder',
+      responderKey,
+      validityDays,
+      undefined,
+      undefined,
+      { keyUsage: ['status-signing'] }
+    );
+  }
+
+  private async buildCertificate(
+    subject: string,
+    publicKey: CryptoKey,
+    validityDays: number,
+    issuer?: IntermediateCA,
+    constraints?: CaConstraints,
+    extensions?: CertificateExtensions
+  ): Promise<Certificate> {
+    const now = Date.now();
+    const certData: SignedCertificateFields = {
+      subject,
+      publicKey: await this.exportPublicKey(publicKey),
+      issuer: issuer ? issuer.certificate.subject : this.ca!.id,
       issuedAt: now,
-      expiresAt
+      expiresAt: now + (validityDays * 24 * 60 * 60 * 1000),
+      ...(constraints && { ca: constraints }),
+      format: CANONICAL_SIGNATURE_FORMAT,
+      suite: CryptoSuites.ofKey(publicKey),
+      ...(extensions && { extensions })
     };
 
     // Sign the certificate data
-    const signature = await this.signCertificate(certData);
+    const signature = await this.signCertificate(
+      CertificateManager.signedBytes(certData),
+      issuer ? issuer.privateKey : this.caPrivateKey
+    );
 
     const certificate: Certificate = {
-      id: 'cert-' + Date.now() + '-' + Math.random().toString(36).substr(2, 9),
+      id: 'cert-' + now + '-' + window.crypto.randomUUID(),
       ...certData,
       signature
     };
+    if (issuer) {
+      certificate.chain = [issuer.certificate, ...(issuer.certificate.chain ?? [])];
+    }
 
     return certificate;
   }
 
   /**
-   * Sign certificate data with CA private key
+   * Sign encoded certificate, revocation list or TBSCertificate bytes with a CA private key
    */
-  private async signCertificate(certData: any): Promise<string> {
-    if (!this.ca?.privateKey) {
-      throw new Error('CA not initialized');
+  private async signCertificate(data: Uint8Array, signingKey: CryptoKey | null = this.caPrivateKey): Promise<string> {
+    if (!signingKey) {
+      throw new Error(this.ca ? 'The CA key is offline; rebuild it from its shares' : 'CA not initialized');
     }
 
-    const caPrivateKey = await this.importPrivateKey(this.ca.privateKey);
-    const dataToSign = JSON.stringify(certData);
-    const encoder = new TextEncoder();
-    const data = encoder.encode(dataToSign);
-
     const signature = await window.crypto.subtle.sign(
-      {
-        name: 'ECDSA',
-        hash: 'SHA-256'
-      },
-      caPrivateKey,
+      CryptoSuites.signatureParams(signingKey),
+      signingKey,
       data
     );
 
@@ -114,47 +318,514 @@ export class CertificateManager {
   }
 
   /**
-   * Verify a certificate's signature
+   * Verify a certificate's path up to a trust anchor
    */
   async verifyCertificate(certificate: Certificate): Promise<boolean> {
     try {
-      if (!this.ca) {
-        return false;
+      const result = await this.validatePath(certificate);
+      if (!result.valid) {
+        console.warn(`Certificate path invalid (${result.reason}) at:`, result.certificate.id);
+      }
+      return result.valid;
+    } catch (error) {
+      console.error('Certificate verification failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Build the path from a certificate through its chain to a trust anchor,
+   * checking every link's signature, validity period and revocation status,
+   * and each intermediate CA's path length and name constraints
+   */
+  async validatePath(certificate: Certificate, now: number = Date.now()): Promise<PathValidationResult> {
+    const chain = certificate.chain ?? [];
+    const path: Certificate[] = [];
+    let current = certificate;
+
+    while (path.length < MAX_PATH_LENGTH) {
+      path.push(current);
+
+      if (now >= current.expiresAt) {
+        return { valid: false, reason: 'expired', certificate: current };
+      }
+      if (current.issuedAt > now + ISSUED_AT_TOLERANCE_MS) {
+        return { valid: false, reason: 'not-yet-valid', certificate: current };
+      }
+
+      const revocation = await this.getRevocation(current);
+      if (revocation) {
+        return { valid: false, reason: 'revoked', certificate: current, revocation };
+      }
+
+      // A trust anchor ends the path; anchors carry no constraints
+      const anchor = this.trustStore.getAnchor(current.issuer);
+      if (anchor) {
+        if (!await this.verifySignedBy(current, anchor.publicKey, anchor.suite)) {
+          return { valid: false, reason: 'bad-signature', certificate: current };
+        }
+        return { valid: true, path, anchor };
+      }
+
+      const issuerCert = chain.find(link => link.subject === current.issuer);
+      if (!issuerCert) {
+        return { valid: false, reason: 'unknown-issuer', certificate: current };
+      }
+      if (!issuerCert.ca || !CertificateManager.allowsKeyUsage(issuerCert, 'certificate-signing')) {
+        return { valid: false, reason: 'not-a-ca', certificate: issuerCert };
+      }
+      if (!await this.verifySignedBy(current, issuerCert.publicKey, issuerCert.suite)) {
+        return { valid: false, reason: 'bad-signature', certificate: current };
+      }
+
+      // Intermediates between this CA and the end-entity certificate
+      const intermediatesBelow = path.length - 1;
+      if (issuerCert.ca.pathLength !== undefined && intermediatesBelow > issuerCert.ca.pathLength) {
+        return { valid: false, reason: 'path-length-exceeded', certificate: issuerCert };
+      }
+      if (!certificate.ca && !this.subjectPermitted(certificate.subject, issuerCert.ca)) {
+        return { valid: false, reason: 'name-constraint-violation', certificate: issuerCert };
+      }
+
+      current = issuerCert;
+    }
+
+    return { valid: false, reason: 'chain-too-long', certificate: current };
+  }
+
+  /**
+   * Verify a certificate's signature and expiry against a specific CA key
+   */
+  async verifyIssuedBy(certificate: Certificate, ca: CertificateAuthority): Promise<boolean> {
+    if (certificate.issuer !== ca.id) {
+      return false;
+    }
+
+    const isValid = await this.verifySignedBy(certificate, ca.publicKey, ca.suite);
+
+    // Check expiration
+    const now = Date.now();
+    const isNotExpired = now < certificate.expiresAt;
+
+    return isValid && isNotExpired;
+  }
+
+  /**
+   * The root CA a certificate chains up to, by ID
+   */
+  rootIssuer(certificate: Certificate): string {
+    const chain = certificate.chain ?? [];
+    return chain.length > 0 ? chain[chain.length - 1].issuer : certificate.issuer;
+  }
+
+  /**
+   * Export a certificate as PEM. Imported X.509 certificates are returned
+   * unchanged; our own are encoded and signed by our CA as X.509 v3.
+   */
+  async exportCertificatePem(certificate: Certificate): Promise<string> {
+    if (certificate.x509) {
+      return X509.toPem(base64ToArrayBuffer(certificate.x509));
+    }
+    if (!this.ca || certificate.issuer !== this.ca.id) {
+      throw new Error('Only certificates issued by our own CA can be exported as X.509');
+    }
+    if (certificate.ca?.permittedSubjects || certificate.ca?.excludedSubjects) {
+      throw new Error('Subject prefix constraints have no X.509 equivalent');
+    }
+    if (certificate.extensions?.keyUsage?.includes('status-signing')) {
+      throw new Error('Status responder certificates have no X.509 equivalent');
+    }
+
+    // Unrestricted certificates may sign both chat messages and documents
+    const { keyUsage = DEFAULT_KEY_USAGE, displayName, organization, role } = certificate.extensions ?? {};
+    const idHash = new Uint8Array(await window.crypto.subtle.digest('SHA-256', stringToArrayBuffer(certificate.id)));
+    return this.signX509({
+      serialNumber: CertificateManager.x509Serial(idHash),
+      issuer: { commonName: this.ca.id, organization: this.ca.name },
+      subject: {
+        commonName: certificate.subject,
+        ...(organization && { organization }),
+        ...(role && { title: role }),
+        ...(displayName && { pseudonym: displayName })
+      },
+      notBefore: certificate.issuedAt,
+      notAfter: certificate.expiresAt,
+      publicKey: base64ToArrayBuffer(certificate.publicKey),
+      suite: certificate.suite ?? DEFAULT_CRYPTO_SUITE,
+      keyUsage: certificate.ca
+        ? ['keyCertSign', 'cRLSign']
+        : keyUsage.flatMap(usage => (usage === 'certificate-signing' || usage === 'status-signing' ? [] : [X509_KEY_USAGE[usage]])),
+      ...(certificate.ca && { basicConstraints: { ca: true, pathLength: certificate.ca.pathLength } })
+    });
+  }
+
+  /**
+   * Export our CA as a self-signed X.509 certificate, so peers and standard
+   * tools can use it as a trust anchor
+   */
+  async exportCAPem(): Promise<string> {
+    if (!this.ca) {
+      throw new Error('CA not initialized');
+    }
+
+    // Every export is a new certificate with its own validity, so a fresh serial
+    const name = { commonName: this.ca.id, organization: this.ca.name };
+    const now = Date.now();
+    return this.signX509({
+      serialNumber: CertificateManager.x509Serial(window.crypto.getRandomValues(new Uint8Array(16))),
+      issuer: name,
+      subject: name,
+      notBefore: now,
+      notAfter: now + (CA_PEM_VALIDITY_DAYS * 24 * 60 * 60 * 1000),
+      publicKey: base64ToArrayBuffer(this.ca.publicKey),
+      suite: this.ca.suite ?? DEFAULT_CRYPTO_SUITE,
+      keyUsage: ['keyCertSign', 'cRLSign'],
+      basicConstraints: { ca: true }
+    });
+  }
+
+  /**
+   * Read PEM certificates. The first is the end-entity certificate and any
+   * others become its chain, issuer first.
+   */
+  importCertificatePem(pem: string): Certificate {
+    const [certificate, ...chain] = X509.fromPem(pem).map(der => this.fromX509(der));
+    return chain.length > 0 ? { ...certificate, chain } : certificate;
+  }
+
+  /**
+   * Read a self-signed X.509 CA certificate as a CA that can be trusted
+   */
+  async importCAPem(pem: string): Promise<CertificateAuthority> {
+    const { fields, tbs, signature } = X509.decode(X509.fromPem(pem)[0]);
+    if (!fields.basicConstraints?.ca) {
+      throw new Error('Not a CA certificate');
+    }
+    if (fields.issuer.commonName !== fields.subject.commonName) {
+      throw new Error('Only self-signed CA certificates can be trust anchors');
+    }
+
+    const publicKey = arrayBufferToBase64(fields.publicKey);
+    if (!await this.verifyBytes(tbs, signature, publicKey, fields.suite)) {
+      throw new Error('CA certificate signature is invalid');
+    }
+
+    return {
+      id: fields.subject.commonName,
+      name: fields.subject.organization ?? fields.subject.commonName,
+      publicKey,
+      suite: fields.suite
+    };
+  }
+
+  // RFC 5280 serials are positive and at most 20 octets: 16 bytes, high bit clear
+  private static x509Serial(bytes: Uint8Array): Uint8Array {
+    const serial = bytes.slice(0, 16);
+    serial[0] &= 0x7f;
+    return serial;
+  }
+
+  private async signX509(fields: X509Fields): Promise<string> {
+    const suite = this.ca?.suite ?? DEFAULT_CRYPTO_SUITE;
+    const tbs = X509.encodeTbs(fields, suite);
+    const signature = base64ToArrayBuffer(await this.signCertificate(tbs));
+    return X509.toPem(X509.encodeCertificate(tbs, signature, suite));
+  }
+
+  // Our certificates' serials are a truncated hash of their ID, so they come
+  // back as 'x509-<hex>'. Earlier exports used the UTF-8 bytes of the ID.
+  private fromX509(der: Uint8Array): Certificate {
+    const { fields, signature } = X509.decode(der);
+    const serial = arrayBufferToString(fields.serialNumber);
+    const id = /^[\x20-\x7e]+$/.test(serial)
+      ? serial
+      : 'x509-' + Array.from(fields.serialNumber, byte => byte.toString(16).padStart(2, '0')).join('');
+
+    const constraints = fields.basicConstraints;
+    const keyUsage = (Object.keys(X509_KEY_USAGE) as (keyof typeof X509_KEY_USAGE)[])
+      .filter(usage => fields.keyUsage.includes(X509_KEY_USAGE[usage]));
+    const { organization, title, pseudonym } = fields.subject;
+    const extensions: CertificateExtensions = {
+      ...(keyUsage.length > 0 && { keyUsage }),
+      ...(pseudonym && { displayName: pseudonym }),
+      ...(organization && { organization }),
+      ...(title && { role: title })
+    };
+    return {
+      id,
+      subject: fields.subject.commonName,
+      publicKey: arrayBufferToBase64(fields.publicKey),
+      ...(fields.suite !== DEFAULT_CRYPTO_SUITE && { suite: fields.suite }),
+      issuer: fields.issuer.commonName,
+      issuedAt: fields.notBefore,
+      expiresAt: fields.notAfter,
+      ...(constraints?.ca && {
+        ca: constraints.pathLength !== undefined ? { pathLength: constraints.pathLength } : {}
+      }),
+      ...(Object.keys(extensions).length > 0 && { extensions }),
+      signature: arrayBufferToBase64(signature),
+      x509: arrayBufferToBase64(der)
+    };
+  }
+
+  // X.509 certificates are checked over their TBSCertificate, and their
+  // fields must be the ones that DER actually contains
+  private async verifySignedBy(
+    certificate: Certificate,
+    issuerPublicKey: string,
+    issuerSuite?: CryptoSuite
+  ): Promise<boolean> {
+    try {
+      if (certificate.x509) {
+        const der = base64ToArrayBuffer(certificate.x509);
+        const decoded = this.fromX509(der);
+        if (JSON.stringify(CertificateManager.signedFields(decoded)) !== JSON.stringify(CertificateManager.signedFields(certificate))) {
+          return false;
+        }
+        const { tbs, signature } = X509.decode(der);
+        return await this.verifyBytes(tbs, signature, issuerPublicKey, issuerSuite);
       }
 
-      const caPublicKey = await this.importPublicKey(this.ca.publicKey);
-      const certData = {
-        subject: certificate.subject,
-        publicKey: certificate.publicKey,
-        issuer: certificate.issuer,
-        issuedAt: certificate.issuedAt,
-        expiresAt: certificate.expiresAt
-      };
+      const data = CertificateManager.signedBytes(certificate);
+      return await this.verifyBytes(data, base64ToArrayBuffer(certificate.signature), issuerPublicKey, issuerSuite);
+    } catch (error) {
+      console.error('Certificate signature check failed:', error);
+      return false;
+    }
+  }
+
+  private async verifyBytes(
+    data: Uint8Array,
+    signature: Uint8Array,
+    publicKey: string,
+    suite?: CryptoSuite
+  ): Promise<boolean> {
+    try {
+      const key = await this.importPublicKey(publicKey, suite);
+      return await window.crypto.subtle.verify(CryptoSuites.signatureParams(key), key, signature, data);
+    } catch (error) {
+      console.error('Certificate signature check failed:', error);
+      return false;
+    }
+  }
+
+  // Only known usages, without empty attributes; end-entity keys cannot sign certificates
+  private checkExtensions(extensions: CertificateExtensions): CertificateExtensions {
+    const { keyUsage, ...attributes } = extensions;
+    if (keyUsage && (keyUsage.length === 0 || keyUsage.some(usage => !(usage in KEY_USAGE_LABELS)))) {
+      throw new Error('Key usage must name at least one known usage');
+    }
+    if (keyUsage?.includes('certificate-signing')) {
+      throw new Error('Use issueIntermediateCA for CA certificates');
+    }
+    if (keyUsage?.includes('status-signing')) {
+      throw new Error('Use issueResponderCertificate for status responder certificates');
+    }
+
+    const checked: CertificateExtensions = keyUsage ? { keyUsage: Array.from(new Set(keyUsage)) } : {};
+    for (const name of ['displayName', 'organization', 'role'] as const) {
+      const value = attributes[name]?.trim();
+      if (value && value.length > MAX_ATTRIBUTE_LENGTH) {
+        throw new Error(`Certificate ${name} is longer than ${MAX_ATTRIBUTE_LENGTH} characters`);
+      }
+      if (value) {
+        checked[name] = value;
+      }
+    }
+    return checked;
+  }
+
+  // Name constraints are matched against end-entity subjects by prefix
+  private subjectPermitted(subject: string, constraints?: CaConstraints): boolean {
+    if (!constraints) return true;
+
+    const { permittedSubjects, excludedSubjects } = constraints;
+    if (excludedSubjects?.some(prefix => subject.startsWith(prefix))) {
+      return false;
+    }
+    return !permittedSubjects || permittedSubjects.some(prefix => subject.startsWith(prefix));
+  }
+
+  /**
+   * Identify a certificate by a hash of the fields its CA signed. The ID is
+   * not signed, so revocations are matched on this instead.
+   */
+  async fingerprint(certificate: Certificate): Promise<string> {
+    const data = CertificateManager.signedBytes(certificate);
+    return arrayBufferToBase64(await window.crypto.subtle.digest('SHA-256', data));
+  }
+
+  /**
+   * Revoke a certificate issued by our CA and publish a new revocation list
+   */
+  async revokeCertificate(
+    certificate: Certificate,
+    reason: RevocationReason
+  ): Promise<CertificateRevocationList> {
+    if (!this.ca || certificate.issuer !== this.ca.id) {
+      throw new Error('Only certificates issued by our own CA can be revoked');
+    }
+
+    const current = this.revocationStore.getList(this.ca.id);
+    const fingerprint = await this.fingerprint(certificate);
+    const revoked = (current?.revoked ?? []).filter(entry => entry.fingerprint !== fingerprint);
+    revoked.push({ certificateId: certificate.id, fingerprint, reason, revokedAt: Date.now() });
 
-      const dataToVerify = JSON.stringify(certData);
-      const encoder = new TextEncoder();
-      const data = encoder.encode(dataToVerify);
-      const signature = base64ToArrayBuffer(certificate.signature);
+    const crl = await this.signRevocationList(revoked, (current?.sequence ?? 0) + 1);
+    this.revocationStore.set(crl);
+    return crl;
+  }
+
+  /**
+   * Our CA's current revocation list, reissued when missing or out of date
+   * so peers always receive a fresh, signed list even when it is empty
+   */
+  async getRevocationList(): Promise<CertificateRevocationList | null> {
+    if (!this.ca) return null;
+
+    const current = this.revocationStore.getList(this.ca.id);
+    // An offline CA key cannot reissue, so the last list is shared until the next ceremony use
+    if (current && (Date.now() < current.nextUpdate || !this.caPrivateKey)) {
+      return current;
+    }
+    if (!this.caPrivateKey) return null;
+
+    const crl = await this.signRevocationList(current?.revoked ?? [], (current?.sequence ?? 0) + 1);
+    this.revocationStore.set(crl);
+    return crl;
+  }
 
+  /**
+   * Store a peer CA's revocation list if it is signed by a trust anchor
+   * and newer than the one we have
+   */
+  async importRevocationList(crl: CertificateRevocationList): Promise<CrlImportResult> {
+    if (!CertificateManager.isWellFormedRevocationList(crl)) {
+      return 'invalid';
+    }
+
+    const anchor = this.trustStore.getAnchor(crl.issuer);
+    if (!anchor) {
+      return 'untrusted';
+    }
+
+    try {
+      const caPublicKey = await this.importPublicKey(anchor.publicKey, anchor.suite);
       const isValid = await window.crypto.subtle.verify(
-        {
-          name: 'ECDSA',
-          hash: 'SHA-256'
-        },
+        CryptoSuites.signatureParams(caPublicKey),
         caPublicKey,
-        signature,
-        data
+        base64ToArrayBuffer(crl.signature),
+        CertificateManager.revocationListBytes(crl)
       );
+      if (!isValid) {
+        return 'invalid';
+      }
+    } catch (error) {
+      console.error('Revocation list verification failed:', error);
+      return 'invalid';
+    }
 
-      // Check expiration
-      const now = Date.now();
-      const isNotExpired = now < certificate.expiresAt;
+    const current = this.revocationStore.getList(crl.issuer);
+    if (current && current.sequence >= crl.sequence) {
+      return 'stale';
+    }
 
-      return isValid && isNotExpired;
-    } catch (error) {
-      console.error('Certificate verification failed:', error);
-      return false;
+    this.revocationStore.set(crl);
+    return 'updated';
+  }
+
+  /**
+   * The revocation entry for a certificate, if its issuer has revoked it
+   */
+  async getRevocation(certificate: Certificate): Promise<RevokedCertificate | null> {
+    if (!this.revocationStore.getList(certificate.issuer)) {
+      return null;
     }
+    return this.revocationStore.findRevoked(certificate.issuer, await this.fingerprint(certificate));
+  }
+
+  private async signRevocationList(
+    revoked: RevokedCertificate[],
+    sequence: number
+  ): Promise<CertificateRevocationList> {
+    const issuedAt = Date.now();
+    const unsigned = {
+      issuer: this.ca!.id,
+      sequence,
+      issuedAt,
+      nextUpdate: issuedAt + (CRL_VALIDITY_DAYS * 24 * 60 * 60 * 1000),
+      revoked,
+      format: CANONICAL_SIGNATURE_FORMAT
+    };
+
+    const signature = await this.signCertificate(CertificateManager.revocationListBytes(unsigned));
+    return { ...unsigned, signature };
+  }
+
+  /**
+   * The bytes a revocation list signature covers. Legacy lists were signed
+   * as a JSON array in fixed field order.
+   */
+  static revocationListBytes(crl: Omit<CertificateRevocationList, 'signature'>): Uint8Array {
+    if (crl.format === CANONICAL_SIGNATURE_FORMAT) {
+      const { issuer, sequence, issuedAt, nextUpdate, revoked, format } = crl;
+      return CanonicalJson.encode({ issuer, sequence, issuedAt, nextUpdate, revoked, format });
+    }
+
+    return stringToArrayBuffer(JSON.stringify([
+      crl.issuer,
+      crl.sequence,
+      crl.issuedAt,
+      crl.nextUpdate,
+      crl.revoked.map(entry => [entry.certificateId, entry.fingerprint, entry.reason, entry.revokedAt])
+    ]));
+  }
+
+  /**
+   * Whether a revocation list has every field, with the right types
+   */
+  static isWellFormedRevocationList(crl: CertificateRevocationList): boolean {
+    return typeof crl?.issuer === 'string' &&
+      Number.isInteger(crl.sequence) &&
+      typeof crl.issuedAt === 'number' &&
+      typeof crl.nextUpdate === 'number' &&
+      typeof crl.signature === 'string' &&
+      (crl.format === undefined || crl.format === 1 || crl.format === CANONICAL_SIGNATURE_FORMAT) &&
+      Array.isArray(crl.revoked) &&
+      crl.revoked.every(entry =>
+        typeof entry?.certificateId === 'string' &&
+        typeof entry.fingerprint === 'string' &&
+        typeof entry.reason === 'string' &&
+        typeof entry.revokedAt === 'number'
+      );
+  }
+
+  // The certificate fields covered by the CA signature; constraints, the
+  // suite and extensions are left out when absent so older signatures are unchanged
+  private static signedFields(certificate: SignedCertificateFields) {
+    return {
+      subject: certificate.subject,
+      publicKey: certificate.publicKey,
+      issuer: certificate.issuer,
+      issuedAt: certificate.issuedAt,
+      expiresAt: certificate.expiresAt,
+      ca: certificate.ca,
+      format: certificate.format,
+      suite: certificate.suite,
+      extensions: certificate.extensions
+    };
+  }
+
+  /**
+   * The bytes a certificate's CA signature covers. Format 2 is canonical
+   * JSON; certificates without a format were signed as JSON.stringify
+   * output in the field order above.
+   */
+  static signedBytes(certificate: SignedCertificateFields): Uint8Array {
+    const fields = this.signedFields(certificate);
+    return certificate.format === CANONICAL_SIGNATURE_FORMAT
+      ? CanonicalJson.encode(fields)
+      : stringToArrayBuffer(JSON.stringify(fields));
   }
 
   /**
@@ -174,34 +845,28 @@ export class CertificateManager {
   }
 
   /**
-   * Import public key from base64
+   * Import a signing public key from base64
    */
-  async importPublicKey(keyData: string): Promise<CryptoKey> {
+  async importPublicKey(keyData: string, suite: CryptoSuite = DEFAULT_CRYPTO_SUITE): Promise<CryptoKey> {
     const binaryKey = base64ToArrayBuffer(keyData);
     return window.crypto.subtle.importKey(
       'raw',
       binaryKey,
-      {
-        name: 'ECDSA',
-        namedCurve: 'P-256'
-      },
+      CryptoSuites.algorithms(suite).signingKey,
       true,
       ['verify']
     );
   }
 
   /**
-   * Import private key from base64
+   * Import a signing private key from base64
    */
-  async importPrivateKey(keyData: string): Promise<CryptoKey> {
+  async importPrivateKey(keyData: string, suite: CryptoSuite = DEFAULT_CRYPTO_SUITE): Promise<CryptoKey> {
     const binaryKey = base64ToArrayBuffer(keyData);
     return window.crypto.subtle.importKey(
       'pkcs8',
       binaryKey,
-      {
-        name: 'ECDSA',
-        namedCurve: 'P-256'
-      },
+      CryptoSuites.algorithms(suite).signingKey,
       true,
       ['sign']
     );
@@ -214,10 +879,19 @@ export class CertificateManager {
     return this.ca?.publicKey || null;
   }
 
+  /**
+   * Get the CA's public information (never the private key) to share with peers
+   */
+  getCAInfo(): CertificateAuthority | null {
+    return this.ca;
+  }
+
   /**
    * Reset CA (for cleanup)
    */
   reset(): void {
     this.ca = null;
+    this.caPrivateKey = null;
+    this.trustStore.removeSelf();
   }
 }
\ No newline at end of file
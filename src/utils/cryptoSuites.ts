@@ -0,0 +1,103 @@
+import { CryptoSuite } from '../types';
+
+// Strongest first; negotiation picks the first suite both peers support
+export const CRYPTO_SUITE_PREFERENCE: CryptoSuite[] = ['x25519-ed25519', 'p256'];
+
+// Certificates, CAs and handshakes without a suite predate algorithm agility
+export const DEFAULT_CRYPTO_SUITE: CryptoSuite = 'p256';
+
+export const CRYPTO_SUITE_LABELS: Record<CryptoSuite, string> = {
+  'x25519-ed25519': 'X25519 / Ed25519',
+  p256: 'P-256 ECDH / ECDSA'
+};
+
+interface SuiteAlgorithms {
+  signingKey: EcKeyImportParams | Algorithm; // Generating and importing signing keys
+  signature: EcdsaParams | Algorithm;
+  keyAgreement: EcKeyImportParams | Algorithm;
+}
+
+const ALGORITHMS: Record<CryptoSuite, SuiteAlgorithms> = {
+  'x25519-ed25519': {
+    signingKey: { name: 'Ed25519' },
+    signature: { name: 'Ed25519' },
+    keyAgreement: { name: 'X25519' }
+  },
+  p256: {
+    signingKey: { name: 'ECDSA', namedCurve: 'P-256' },
+    signature: { name: 'ECDSA', hash: 'SHA-256' },
+    keyAgreement: { name: 'ECDH', namedCurve: 'P-256' }
+  }
+};
+
+/**
+ * WebCrypto parameters for each algorithm suite, and detection of the
+ * suites this browser implements. P-256 is available everywhere; the
+ * Curve25519 algorithms only in recent browsers.
+ */
+export class CryptoSuites {
+  private static supportedSuites: Promise<CryptoSuite[]> | null = null;
+
+  static algorithms(suite: CryptoSuite = DEFAULT_CRYPTO_SUITE): SuiteAlgorithms {
+    return ALGORITHMS[suite];
+  }
+
+  static isKnown(value: unknown): value is CryptoSuite {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ALGORITHMS, value);
+  }
+
+  /**
+   * The suite a signing or key agreement key belongs to
+   */
+  static ofKey(key: CryptoKey): CryptoSuite {
+    const name = key.algorithm.name;
+    return name === 'Ed25519' || name === 'X25519' ? 'x25519-ed25519' : 'p256';
+  }
+
+  /**
+   * Sign or verify parameters for a key, whichever suite it is from
+   */
+  static signatureParams(key: CryptoKey): EcdsaParams | Algorithm {
+    return ALGORITHMS[this.ofKey(key)].signature;
+  }
+
+  /**
+   * Suites this browser can generate keys for, strongest first. Probed
+   * once and cached.
+   */
+  static supported(): Promise<CryptoSuite[]> {
+    if (!this.supportedSuites) {
+      this.supportedSuites = Promise.all(
+        CRYPTO_SUITE_PREFERENCE.map(async suite => (await this.isImplemented(suite)) ? suite : null)
+      ).then(suites => suites.filter((suite): suite is CryptoSuite => suite !== null));
+    }
+    return this.supportedSuites;
+  }
+
+  /**
+   * The strongest suite this browser supports, for key agreement
+   */
+  static async preferred(): Promise<CryptoSuite> {
+    return (await this.supported())[0] ?? DEFAULT_CRYPTO_SUITE;
+  }
+
+  /**
+   * The strongest suite offered by the peer that we also support
+   */
+  static negotiate(offered: CryptoSuite[], supported: CryptoSuite[]): CryptoSuite | null {
+    return CRYPTO_SUITE_PREFERENCE.find(suite => offered.includes(suite) && supported.includes(suite)) ?? null;
+  }
+
+  private static async isImplemented(suite: CryptoSuite): Promise<boolean> {
+    if (suite === DEFAULT_CRYPTO_SUITE) return true;
+
+    const { signingKey, keyAgreement } = ALGORITHMS[suite];
+    try {
+      await window.crypto.subtle.generateKey(signingKey, false, ['sign', 'verify']);
+      await window.crypto.subtle.generateKey(keyAgreement, false, ['deriveBits']);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import { EncryptedData, KeyPair } from '../types';
+import { DoubleRatchet } from './doubleRatchet';
+import { arrayBufferToBase64 } from './encoding';
+
+const ECDH: EcKeyGenParams = { name: 'ECDH', namedCurve: 'P-256' };
+
+async function keyPair(): Promise<KeyPair> {
+  return await crypto.subtle.generateKey(ECDH, true, ['deriveBits']) as CryptoKeyPair;
+}
+
+async function publicKey(pair: KeyPair): Promise<string> {
+  return arrayBufferToBase64(await crypto.subtle.exportKey('raw', pair.publicKey));
+}
+
+async function session() {
+  const sharedSecret = crypto.getRandomValues(new Uint8Array(32));
+  const associatedData = new TextEncoder().encode('test-session');
+  const alicePair = await keyPair();
+  const bobPair = await keyPair();
+  const alice = await DoubleRatchet.initAsInitiator(sharedSecret.slice(), alicePair, await publicKey(bobPair), associatedData);
+  const bob = await DoubleRatchet.initAsResponder(sharedSecret.slice(), bobPair, await publicKey(alicePair), associatedData);
+  return { alice, bob };
+}
+
+async function encryptMany(ratchet: DoubleRatchet, count: number, label: string): Promise<EncryptedData[]> {
+  const messages: EncryptedData[] = [];
+  for (let i = 0; i < count; i++) {
+    messages.push(await ratchet.encrypt(`${label} ${i}`));
+  }
+  return messages;
+}
+
+// Bob answers so Alice performs a DH ratchet step and starts a new sending chain
+async function turn(alice: DoubleRatchet, bob: DoubleRatchet): Promise<void> {
+  expect(await alice.decrypt(await bob.encrypt('reply'))).toBe('reply');
+}
+
+describe('DoubleRatchet', () => {
+  it('exchanges messages in both directions across ratchet steps', async () => {
+    const { alice, bob } = await session();
+    expect(await alice.decrypt(await bob.encrypt('responder first'))).toBe('responder first');
+    for (let i = 0; i < 3; i++) {
+      expect(await bob.decrypt(await alice.encrypt(`ping ${i}`))).toBe(`ping ${i}`);
+      expect(await alice.decrypt(await bob.encrypt(`pong ${i}`))).toBe(`pong ${i}`);
+    }
+  });
+
+  it('decrypts messages delivered out of order within a chain', async () => {
+    const { alice, bob } = await session();
+    const [first, second, third] = await encryptMany(alice, 3, 'message');
+    expect(await bob.decrypt(third)).toBe('message 2');
+    expect(await bob.decrypt(first)).toBe('message 0');
+    expect(await bob.decrypt(second)).toBe('message 1');
+  });
+
+  it('decrypts messages from an earlier chain after a ratchet step', async () => {
+    const { alice, bob } = await session();
+    const [late, onTime] = await encryptMany(alice, 2, 'old chain');
+    expect(await bob.decrypt(onTime)).toBe('old chain 1');
+    await turn(alice, bob);
+
+    const [next] = await encryptMany(alice, 1, 'new chain');
+    expect(await bob.decrypt(next)).toBe('new chain 0');
+    expect(await bob.decrypt(late)).toBe('old chain 0');
+  });
+
+  it('uses a skipped message key only once', async () => {
+    const { alice, bob } = await session();
+    const [first, second] = await encryptMany(alice, 2, 'message');
+    await bob.decrypt(second);
+    await bob.decrypt(first);
+    await expect(bob.decrypt(first)).rejects.toThrow();
+    await expect(bob.decrypt(second)).rejects.toThrow();
+  });
+
+  it('skips at most MAX_SKIP message keys in one chain', async () => {
+    const { alice, bob } = await session();
+    const messages = await encryptMany(alice, 1002, 'message');
+
+    // n = 1001 would need 1001 skipped keys
+    await expect(bob.decrypt(messages[1001])).rejects.toThrow('Too many skipped messages');
+    // The rejected message left no trace; 1000 skipped keys are allowed
+    expect(await bob.decrypt(messages[1000])).toBe('message 1000');
+    expect(await bob.decrypt(messages[0])).toBe('message 0');
+    expect(await bob.decrypt(messages[1001])).toBe('message 1001');
+  });
+
+  it('evicts the oldest skipped keys beyond MAX_SKIPPED_KEYS', async () => {
+    const { alice, bob } = await session();
+    const oldest: EncryptedData[] = [];
+
+    // Three chains of 1000 skipped keys each; only 2000 are kept
+    for (let chain = 0; chain < 3; chain++) {
+      const messages = await encryptMany(alice, 1001, `chain ${chain}`);
+      expect(await bob.decrypt(messages[1000])).toBe(`chain ${chain} 1000`);
+      oldest.push(messages[0]);
+      await turn(alice, bob);
+    }
+
+    await expect(bob.decrypt(oldest[0])).rejects.toThrow();
+    expect(await bob.decrypt(oldest[1])).toBe('chain 1 0');
+    expect(await bob.decrypt(oldest[2])).toBe('chain 2 0');
+  }, 60000);
+
+  describe('leaves its state untouched when decryption fails', () => {
+    it('for a tampered ciphertext', async () => {
+      const { alice, bob } = await session();
+      const [message, next] = await encryptMany(alice, 2, 'message');
+      const tampered = { ...message, data: message.data.slice() };
+      tampered.data[0] ^= 0x01;
+      await expect(bob.decrypt(tampered)).rejects.toThrow();
+      expect(await bob.decrypt(message)).toBe('message 0');
+      expect(await bob.decrypt(next)).toBe('message 1');
+    });
+
+    it('for a tampered header', async () => {
+      const { alice, bob } = await session();
+      const [message] = await encryptMany(alice, 1, 'message');
+      await expect(bob.decrypt({ ...message, header: { ...message.header!, n: 5 } })).rejects.toThrow();
+      await expect(bob.decrypt({ ...message, header: undefined })).rejects.toThrow('Ratchet header required');
+      expect(await bob.decrypt(message)).toBe('message 0');
+    });
+
+    it('for a forged message under a new ratchet key', async () => {
+      const { alice, bob } = await session();
+      const [message] = await encryptMany(alice, 1, 'message');
+      const forged = { ...message, header: { dh: await publicKey(await keyPair()), pn: 0, n: 0 } };
+      await expect(bob.decrypt(forged)).rejects.toThrow();
+      expect(await bob.decrypt(message)).toBe('message 0');
+      await turn(alice, bob);
+    });
+
+    it('for a message from another session', async () => {
+      const { alice, bob } = await session();
+      const other = await session();
+      await expect(bob.decrypt(await other.alice.encrypt('intruder'))).rejects.toThrow();
+      expect(await bob.decrypt(await alice.encrypt('genuine'))).toBe('genuine');
+    });
+  });
+
+  it('mixes the PAKE key and ML-KEM secret into the shared secret', async () => {
+    const alicePair = await keyPair();
+    const bobPair = await keyPair();
+    const pakeKey = crypto.getRandomValues(new Uint8Array(16));
+    const kemSecret = crypto.getRandomValues(new Uint8Array(32));
+
+    const ours = await DoubleRatchet.deriveSharedSecret(alicePair.privateKey, bobPair.publicKey, pakeKey, kemSecret);
+    const theirs = await DoubleRatchet.deriveSharedSecret(bobPair.privateKey, alicePair.publicKey, pakeKey, kemSecret);
+    const withoutKem = await DoubleRatchet.deriveSharedSecret(alicePair.privateKey, bobPair.publicKey, pakeKey);
+    const dhOnly = await DoubleRatchet.deriveSharedSecret(alicePair.privateKey, bobPair.publicKey);
+
+    expect(ours).toEqual(theirs);
+    expect(ours).not.toEqual(withoutKem);
+    expect(withoutKem).not.toEqual(dhOnly);
+  });
+});
@@ -0,0 +1,429 @@
+import { CryptoSuite, EncryptedData, KeyPair, RatchetHeader } from '../types';
+import { arrayBufferToBase64, base64ToArrayBuffer, concatBytes, stringToArrayBuffer } from './encoding';
+import { CryptoSuites } from './cryptoSuites';
+
+// Maximum number of message keys skipped in a single chain
+const MAX_SKIP = 1000;
+// Maximum number of skipped message keys kept across all chains
+const MAX_SKIPPED_KEYS = 2000;
+
+const ROOT_INFO = 'cipher-ratchet-root';
+const MESSAGE_INFO = 'cipher-ratchet-message';
+const PAKE_INFO = 'cipher-ratchet-pake';
+const HYBRID_INFO = 'cipher-ratchet-hybrid';
+
+/**
+ * HKDF-SHA256 over raw bytes
+ */
+async function hkdf(
+  salt: Uint8Array,
+  inputKeyMaterial: Uint8Array,
+  info: string,
+  length: number
+): Promise<Uint8Array> {
+  const keyMaterial = await window.crypto.subtle.importKey(
+    'raw',
+    inputKeyMaterial,
+    'HKDF',
+    false,
+    ['deriveBits']
+  );
+
+  const bits = await window.crypto.subtle.deriveBits(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt,
+      info: stringToArrayBuffer(info)
+    },
+    keyMaterial,
+    length * 8
+  );
+
+  return new Uint8Array(bits);
+}
+
+/**
+ * HMAC-SHA256 over raw bytes
+ */
+async function hmac(key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  const hmacKey = await window.crypto.subtle.importKey(
+    'raw',
+    key,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return new Uint8Array(await window.crypto.subtle.sign('HMAC', hmacKey, data));
+}
+
+interface RatchetState {
+  sendingKeyPair: KeyPair;
+  sendingPublicKey: string;
+  receivingPublicKey: string | null;
+  rootKey: Uint8Array;
+  sendingChainKey: Uint8Array | null;
+  receivingChainKey: Uint8Array | null;
+  sendCount: number;
+  receiveCount: number;
+  previousSendCount: number;
+  skippedKeys: Map<string, Uint8Array>;
+}
+
+/**
+ * Double Ratchet session (Signal specification) over P-256 ECDH or X25519,
+ * HKDF/HMAC-SHA256 chains and AES-256-GCM.
+ *
+ * Each instance holds the state of exactly one conversation. Both sides
+ * start from the pairing handshake keys: the initiator reuses its handshake
+ * key pair as its first ratchet key, and the responder immediately performs
+ * a DH ratchet step with it, so either side can send first.
+ */
+export class DoubleRatchet {
+  // Operations run one at a time so concurrent messages cannot race on state
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private constructor(
+    private state: RatchetState,
+    private readonly associatedData: Uint8Array
+  ) {}
+
+  /**
+   * Derive the initial shared secret from an ECDH exchange, optionally
+   * mixing in the key agreed by the pairing PAKE and an ML-KEM shared secret.
+   * With both DH and KEM outputs in the input, the secret holds as long as
+   * either P-256 or ML-KEM does.
+   */
+  static async deriveSharedSecret(
+    privateKey: CryptoKey,
+    peerPublicKey: CryptoKey,
+    pakeKey?: Uint8Array,
+    kemSecret?: Uint8Array
+  ): Promise<Uint8Array> {
+    const sharedBits = await window.crypto.subtle.deriveBits(
+      {
+        name: privateKey.algorithm.name, // ECDH or X25519
+        public: peerPublicKey
+      },
+      privateKey,
+      256
+    );
+    const dhOutput = new Uint8Array(sharedBits);
+    if (!pakeKey && !kemSecret) {
+      return dhOutput;
+    }
+
+    const inputKeyMaterial = kemSecret ? concatBytes(dhOutput, kemSecret) : dhOutput;
+    const sharedSecret = await hkdf(
+      pakeKey ?? new Uint8Array(),
+      inputKeyMaterial,
+      kemSecret ? HYBRID_INFO : PAKE_INFO,
+      32
+    );
+    dhOutput.fill(0);
+    inputKeyMaterial.fill(0);
+    return sharedSecret;
+  }
+
+  /**
+   * Start a session as the side that answered the pairing request
+   */
+  static async initAsInitiator(
+    sharedSecret: Uint8Array,
+    ownKeyPair: KeyPair,
+    peerPublicKey: string,
+    associatedData: Uint8Array = new Uint8Array()
+  ): Promise<DoubleRatchet> {
+    const dhOutput = await this.dh(ownKeyPair, peerPublicKey);
+    const [rootKey, sendingChainKey] = await this.kdfRootKey(sharedSecret, dhOutput);
+
+    return new DoubleRatchet(
+      {
+        sendingKeyPair: ownKeyPair,
+        sendingPublicKey: await this.exportKey(ownKeyPair.publicKey),
+        receivingPublicKey: peerPublicKey,
+        rootKey,
+        sendingChainKey,
+        receivingChainKey: null,
+        sendCount: 0,
+        receiveCount: 0,
+        previousSendCount: 0,
+        skippedKeys: new Map()
+      },
+      associatedData
+    );
+  }
+
+  /**
+   * Start a session as the side that sent the pairing request
+   */
+  static async initAsResponder(
+    sharedSecret: Uint8Array,
+    ownKeyPair: KeyPair,
+    peerPublicKey: string,
+    associatedData: Uint8Array = new Uint8Array()
+  ): Promise<DoubleRatchet> {
+    const session = new DoubleRatchet(
+      {
+        sendingKeyPair: ownKeyPair,
+        sendingPublicKey: await this.exportKey(ownKeyPair.publicKey),
+        receivingPublicKey: null,
+        rootKey: sharedSecret,
+        sendingChainKey: null,
+        receivingChainKey: null,
+        sendCount: 0,
+        receiveCount: 0,
+        previousSendCount: 0,
+        skippedKeys: new Map()
+      },
+      associatedData
+    );
+
+    // The initiator's handshake key is its first ratchet key
+    session.state = await this.dhRatchet(session.state, peerPublicKey);
+    return session;
+  }
+
+  /**
+   * Encrypt a message and advance the sending chain
+   */
+  encrypt(plaintext: string): Promise<EncryptedData> {
+    return this.enqueue(() => this.encryptNext(plaintext));
+  }
+
+  /**
+   * Decrypt a message, performing a DH ratchet step or using a skipped
+   * message key as needed. State is only updated if decryption succeeds.
+   */
+  decrypt(encryptedData: EncryptedData): Promise<string> {
+    return this.enqueue(() => this.decryptNext(encryptedData));
+  }
+
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async encryptNext(plaintext: string): Promise<EncryptedData> {
+    const state = this.state;
+    if (!state.sendingChainKey) {
+      throw new Error('Sending chain not initialized');
+    }
+
+    const [chainKey, messageKey] = await DoubleRatchet.kdfChainKey(state.sendingChainKey);
+    const header: RatchetHeader = {
+      dh: state.sendingPublicKey,
+      pn: state.previousSendCount,
+      n: state.sendCount
+    };
+
+    const { key, iv } = await DoubleRatchet.messageCipher(messageKey);
+    const ciphertext = await window.crypto.subtle.encrypt(
+      {
+        name: 'AES-GCM',
+        iv,
+        additionalData: this.headerAssociatedData(header)
+      },
+      key,
+      stringToArrayBuffer(plaintext)
+    );
+
+    state.sendingChainKey = chainKey;
+    state.sendCount += 1;
+
+    return {
+      data: new Uint8Array(ciphertext),
+      iv,
+      header
+    };
+  }
+
+  private async decryptNext(encryptedData: EncryptedData): Promise<string> {
+    const header = encryptedData.header;
+    if (!header) {
+      throw new Error('Ratchet header required for decryption');
+    }
+
+    const skippedId = DoubleRatchet.skippedKeyId(header.dh, header.n);
+    const skippedKey = this.state.skippedKeys.get(skippedId);
+    if (skippedKey) {
+      const plaintext = await this.decryptWithKey(skippedKey, encryptedData.data, header);
+      this.state.skippedKeys.delete(skippedId);
+      return plaintext;
+    }
+
+    // Work on a copy so a forged or corrupted message cannot desync the session
+    let state: RatchetState = {
+      ...this.state,
+      skippedKeys: new Map(this.state.skippedKeys)
+    };
+
+    if (header.dh !== state.receivingPublicKey) {
+      state = await DoubleRatchet.skipMessageKeys(state, header.pn);
+      state = await DoubleRatchet.dhRatchet(state, header.dh);
+    }
+    state = await DoubleRatchet.skipMessageKeys(state, header.n);
+
+    const [chainKey, messageKey] = await DoubleRatchet.kdfChainKey(state.receivingChainKey!);
+    const plaintext = await this.decryptWithKey(messageKey, encryptedData.data, header);
+
+    state.receivingChainKey = chainKey;
+    state.receiveCount += 1;
+    this.state = state;
+    return plaintext;
+  }
+
+  /**
+   * Drop all key material held by this session
+   */
+  destroy(): void {
+    this.state.rootKey.fill(0);
+    this.state.sendingChainKey?.fill(0);
+    this.state.receivingChainKey?.fill(0);
+    this.state.skippedKeys.forEach(key => key.fill(0));
+    this.state.skippedKeys.clear();
+  }
+
+  private async decryptWithKey(
+    messageKey: Uint8Array,
+    data: Uint8Array,
+    header: RatchetHeader
+  ): Promise<string> {
+    const { key, iv } = await DoubleRatchet.messageCipher(messageKey);
+    const plaintext = await window.crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv,
+        additionalData: this.headerAssociatedData(header)
+      },
+      key,
+      data
+    );
+    return new TextDecoder().decode(plaintext);
+  }
+
+  private headerAssociatedData(header: RatchetHeader): Uint8Array {
+    return concatBytes(
+      this.associatedData,
+      stringToArrayBuffer(JSON.stringify([header.dh, header.pn, header.n]))
+    );
+  }
+
+  private static skippedKeyId(dh: string, n: number): string {
+    return `${dh}:${n}`;
+  }
+
+  /**
+   * Store message keys for messages of the current receiving chain that have
+   * not arrived yet, so they can be decrypted out of order
+   */
+  private static async skipMessageKeys(state: RatchetState, until: number): Promise<RatchetState> {
+    if (!state.receivingChainKey || !state.receivingPublicKey) {
+      return state;
+    }
+    if (until - state.receiveCount > MAX_SKIP) {
+      throw new Error('Too many skipped messages');
+    }
+
+    let chainKey = state.receivingChainKey;
+    let receiveCount = state.receiveCount;
+    while (receiveCount < until) {
+      const [nextChainKey, messageKey] = await this.kdfChainKey(chainKey);
+      state.skippedKeys.set(this.skippedKeyId(state.receivingPublicKey, receiveCount), messageKey);
+      chainKey = nextChainKey;
+      receiveCount += 1;
+    }
+
+    // Evict the oldest keys once the cache is full
+    while (state.skippedKeys.size > MAX_SKIPPED_KEYS) {
+      const oldest = state.skippedKeys.keys().next().value as string;
+      state.skippedKeys.delete(oldest);
+    }
+
+    return { ...state, receivingChainKey: chainKey, receiveCount };
+  }
+
+  private static async dhRatchet(state: RatchetState, peerPublicKey: string): Promise<RatchetState> {
+    const [receivingRoot, receivingChainKey] = await this.kdfRootKey(
+      state.rootKey,
+      await this.dh(state.sendingKeyPair, peerPublicKey)
+    );
+
+    // Ratchet keys stay in the suite the session was negotiated in
+    const sendingKeyPair = await this.generateRatchetKeyPair(CryptoSuites.ofKey(state.sendingKeyPair.privateKey));
+    const [rootKey, sendingChainKey] = await this.kdfRootKey(
+      receivingRoot,
+      await this.dh(sendingKeyPair, peerPublicKey)
+    );
+
+    return {
+      ...state,
+      sendingKeyPair,
+      sendingPublicKey: await this.exportKey(sendingKeyPair.publicKey),
+      receivingPublicKey: peerPublicKey,
+      rootKey,
+      sendingChainKey,
+      receivingChainKey,
+      previousSendCount: state.sendCount,
+      sendCount: 0,
+      receiveCount: 0
+    };
+  }
+
+  private static async kdfRootKey(
+    rootKey: Uint8Array,
+    dhOutput: Uint8Array
+  ): Promise<[Uint8Array, Uint8Array]> {
+    const output = await hkdf(rootKey, dhOutput, ROOT_INFO, 64);
+    return [output.slice(0, 32), output.slice(32)];
+  }
+
+  private static async kdfChainKey(chainKey: Uint8Array): Promise<[Uint8Array, Uint8Array]> {
+    const [nextChainKey, messageKey] = await Promise.all([
+      hmac(chainKey, new Uint8Array([0x02])),
+      hmac(chainKey, new Uint8Array([0x01]))
+    ]);
+    return [nextChainKey, messageKey];
+  }
+
+  private static async messageCipher(messageKey: Uint8Array): Promise<{ key: CryptoKey; iv: Uint8Array }> {
+    const output = await hkdf(new Uint8Array(32), messageKey, MESSAGE_INFO, 44);
+    const key = await window.crypto.subtle.importKey(
+      'raw',
+      output.slice(0, 32),
+      { name: 'AES-GCM' },
+      false,
+      ['encrypt', 'decrypt']
+    );
+    return { key, iv: output.slice(32) };
+  }
+
+  private static async dh(keyPair: KeyPair, peerPublicKey: string): Promise<Uint8Array> {
+    const peerKey = await window.crypto.subtle.importKey(
+      'raw',
+      base64ToArrayBuffer(peerPublicKey),
+      CryptoSuites.algorithms(CryptoSuites.ofKey(keyPair.privateKey)).keyAgreement,
+      false,
+      []
+    );
+    return this.deriveSharedSecret(keyPair.privateKey, peerKey);
+  }
+
+  private static async generateRatchetKeyPair(suite: CryptoSuite): Promise<KeyPair> {
+    const keyPair = await window.crypto.subtle.generateKey(
+      CryptoSuites.algorithms(suite).keyAgreement,
+      false,
+      ['deriveBits']
+    ) as CryptoKeyPair;
+
+    return {
+      publicKey: keyPair.publicKey,
+      privateKey: keyPair.privateKey
+    };
+  }
+
+  private static async exportKey(publicKey: CryptoKey): Promise<string> {
+    return arrayBufferToBase64(await window.crypto.subtle.exportKey('raw', publicKey));
+  }
+}
@@ -7,14 +7,14 @@ export function arrayBufferToBase64(buffer: ArrayBuffer): string {
   for (let i = 0; i < bytes.byteLength; i++) {
     binary += String.fromCharCode(bytes[i]);
   }
-  return window.btoa(binary);
+  return globalThis.btoa(binary);
 }
 
 /**
  * Convert Base64 string to ArrayBuffer
  */
 export function base64ToArrayBuffer(base64: string): Uint8Array {
-  const binaryString = window.atob(base64);
+  const binaryString = globalThis.atob(base64);
   const bytes = new Uint8Array(binaryString.length);
   for (let i = 0; i < binaryString.length; i++) {
     bytes[i] = binaryString.charCodeAt(i);
@@ -38,6 +38,19 @@ export function arrayBufferToString(buffer: ArrayBuffer): string {
   return decoder.decode(buffer);
 }
 
+/**
+ * Concatenate byte arrays
+ */
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
 /**
  * Generate a random ID
  */
@@ -62,4 +75,25 @@ export function secureWipe(data: any): void {
       }
     });
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Convert bytes to lowercase hex
+ */
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Convert hex to bytes
+ */
+export function hexToBytes(hex: string): Uint8Array {
+  if (hex.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(hex)) {
+    throw new Error('Invalid hex string');
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(2 * i, 2 * i + 2), 16);
+  }
+  return bytes;
+}
@@ -0,0 +1,218 @@
+import { Certificate, CertificateAuthority } from '../types';
+import { arrayBufferToBase64, arrayBufferToString, base64ToArrayBuffer, stringToArrayBuffer } from './encoding';
+import { CertificateManager } from './certificates';
+import { DigitalSigner } from './signing';
+import { IdentityMaterial } from './identityStore';
+import { CryptoSuites } from './cryptoSuites';
+
+const BACKUP_FORMAT = 'cipher-identity-backup';
+const BACKUP_VERSION = 1;
+const PBKDF2_ITERATIONS = 600000;
+
+interface BackupFile {
+  format: string;
+  version: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  data: string; // Encrypted BackupPayload (Base64)
+}
+
+interface BackupPayload {
+  username: string;
+  certificate: Certificate;
+  ca: CertificateAuthority;
+  signingPublicKey: string; // Raw, Base64
+  signingPrivateKey: string; // PKCS#8, Base64
+  caPrivateKey?: string; // PKCS#8, Base64; absent when the CA key is split into shares
+  exportedAt: number;
+}
+
+/**
+ * Password-encrypted identity backup files, for moving an identity between
+ * browsers. The header (format, version, KDF parameters) is authenticated
+ * as AES-GCM associated data.
+ */
+export class IdentityBackup {
+  static readonly fileName = 'cipher-identity-backup.json';
+
+  /**
+   * Serialize an identity with extractable private keys into a backup file
+   */
+  static async create(identity: IdentityMaterial, password: string): Promise<string> {
+    const payload: BackupPayload = {
+      username: identity.username,
+      certificate: identity.certificate,
+      ca: {
+        id: identity.ca.id,
+        name: identity.ca.name,
+        publicKey: identity.ca.publicKey,
+        ...(identity.ca.suite && { suite: identity.ca.suite })
+      },
+      signingPublicKey: arrayBufferToBase64(
+        await window.crypto.subtle.exportKey('raw', identity.signingKeyPair.publicKey)
+      ),
+      signingPrivateKey: arrayBufferToBase64(
+        await window.crypto.subtle.exportKey('pkcs8', identity.signingKeyPair.privateKey)
+      ),
+      ...(identity.caPrivateKey && {
+        caPrivateKey: arrayBufferToBase64(await window.crypto.subtle.exportKey('pkcs8', identity.caPrivateKey))
+      }),
+      exportedAt: Date.now()
+    };
+
+    const salt = window.crypto.getRandomValues(new Uint8Array(16));
+    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+    const header = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      kdf: { name: 'PBKDF2' as const, hash: 'SHA-256' as const, iterations: PBKDF2_ITERATIONS, salt: arrayBufferToBase64(salt) },
+      cipher: { name: 'AES-GCM' as const, iv: arrayBufferToBase64(iv) }
+    };
+
+    const key = await this.deriveKey(password, salt, PBKDF2_ITERATIONS);
+    const plaintext = stringToArrayBuffer(JSON.stringify(payload));
+    const data = await window.crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: this.associatedData(header) },
+      key,
+      plaintext
+    );
+    plaintext.fill(0);
+
+    const file: BackupFile = { ...header, data: arrayBufferToBase64(data) };
+    return JSON.stringify(file, null, 2);
+  }
+
+  /**
+   * Decrypt and validate a backup file. The restored private keys are
+   * extractable so the identity can be saved or backed up again.
+   */
+  static async restore(serialized: string, password: string): Promise<IdentityMaterial> {
+    let file: BackupFile;
+    try {
+      file = JSON.parse(serialized);
+    } catch {
+      throw new Error('Not an identity backup file');
+    }
+
+    if (file?.format !== BACKUP_FORMAT) {
+      throw new Error('Not an identity backup file');
+    }
+    if (file.version !== BACKUP_VERSION || file.kdf?.name !== 'PBKDF2' || file.cipher?.name !== 'AES-GCM') {
+      throw new Error('Unsupported backup version');
+    }
+
+    const key = await this.deriveKey(password, base64ToArrayBuffer(file.kdf.salt), file.kdf.iterations);
+    let payload: BackupPayload;
+    try {
+      const plaintext = await window.crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: base64ToArrayBuffer(file.cipher.iv),
+          additionalData: this.associatedData(file)
+        },
+        key,
+        base64ToArrayBuffer(file.data)
+      );
+      payload = JSON.parse(arrayBufferToString(plaintext));
+    } catch {
+      throw new Error('Incorrect password or damaged backup');
+    }
+
+    const signingParams = CryptoSuites.algorithms(payload.certificate.suite).signingKey;
+    const caParams = CryptoSuites.algorithms(payload.ca.suite).signingKey;
+    const identity: IdentityMaterial = {
+      username: payload.username,
+      certificate: payload.certificate,
+      ca: payload.ca,
+      signingKeyPair: {
+        publicKey: await window.crypto.subtle.importKey(
+          'raw',
+          base64ToArrayBuffer(payload.signingPublicKey),
+          signingParams,
+          true,
+          ['verify']
+        ),
+        privateKey: await window.crypto.subtle.importKey(
+          'pkcs8',
+          base64ToArrayBuffer(payload.signingPrivateKey),
+          signingParams,
+          true,
+          ['sign']
+        )
+      },
+      caPrivateKey: payload.caPrivateKey
+        ? await window.crypto.subtle.importKey(
+          'pkcs8',
+          base64ToArrayBuffer(payload.caPrivateKey),
+          caParams,
+          true,
+          ['sign']
+        )
+        : null
+    };
+
+    await this.validate(identity, payload);
+    return identity;
+  }
+
+  /**
+   * The keys, certificate and CA must all belong together
+   */
+  private static async validate(identity: IdentityMaterial, payload: BackupPayload): Promise<void> {
+    if (payload.signingPublicKey !== identity.certificate.publicKey) {
+      throw new Error('Backup certificate does not match its signing key');
+    }
+
+    const isIssued = await CertificateManager.getInstance().verifyIssuedBy(identity.certificate, identity.ca);
+    if (!isIssued) {
+      throw new Error('Backup certificate is not valid for its CA');
+    }
+
+    const probe = `cipher-backup-check:${Date.now()}`;
+    const signingOk = await DigitalSigner.verifySignature(
+      probe,
+      await DigitalSigner.signData(probe, identity.signingKeyPair.privateKey),
+      identity.signingKeyPair.publicKey
+    );
+
+    const caPublicKey = await CertificateManager.getInstance().importPublicKey(identity.ca.publicKey, identity.ca.suite);
+    const caOk = !identity.caPrivateKey || await DigitalSigner.verifySignature(
+      probe,
+      await DigitalSigner.signData(probe, identity.caPrivateKey),
+      caPublicKey
+    );
+
+    if (!signingOk || !caOk) {
+      throw new Error('Backup private keys do not match their public keys');
+    }
+  }
+
+  private static associatedData(header: Pick<BackupFile, 'format' | 'version' | 'kdf' | 'cipher'>): Uint8Array {
+    return stringToArrayBuffer(JSON.stringify([
+      header.format,
+      header.version,
+      header.kdf.name,
+      header.kdf.hash,
+      header.kdf.iterations,
+      header.kdf.salt
+    ]));
+  }
+
+  private static async deriveKey(password: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+    const keyMaterial = await window.crypto.subtle.importKey(
+      'raw',
+      stringToArrayBuffer(password),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    );
+
+    return window.crypto.subtle.deriveKey(
+      { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+      keyMaterial,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+}
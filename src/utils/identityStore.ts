@@ -0,0 +1,367 @@
+import { Certificate, CertificateAuthority, CryptoSuite, SigningKeyPair } from '../types';
+import { arrayBufferToBase64, base64ToArrayBuffer, stringToArrayBuffer } from './encoding';
+import { CryptoSuites } from './cryptoSuites';
+
+const DB_NAME = 'cipher-identity';
+const DB_VERSION = 1;
+const STORE_NAME = 'identity';
+const RECORD_KEY = 'current';
+const RECORD_VERSION = 1;
+const PBKDF2_ITERATIONS = 310000;
+
+// Private keys encrypted under a data key, which is wrapped by the passphrase key
+interface WrappedKeys {
+  salt: string;
+  iterations: number;
+  dataKey: string; // AES-GCM data key wrapped with AES-KW (Base64)
+  signingKey: { iv: string; data: string }; // PKCS#8, AES-GCM wrapped
+  caKey?: { iv: string; data: string }; // Absent when the CA key is split into shares
+}
+
+interface StoredIdentityRecord {
+  version: number;
+  username: string;
+  certificate: Certificate;
+  ca: CertificateAuthority; // Public info only
+  signingPublicKey: string; // Raw, Base64
+  createdAt: number;
+  // Exactly one of the following is set
+  keys?: { signingKey: CryptoKey; caKey: CryptoKey | null }; // Non-extractable
+  wrapped?: WrappedKeys;
+}
+
+export interface IdentityMaterial {
+  username: string;
+  certificate: Certificate;
+  ca: CertificateAuthority;
+  signingKeyPair: SigningKeyPair;
+  caPrivateKey: CryptoKey | null; // Null when the CA key is split into ceremony shares
+}
+
+// What can be shown before the identity is unlocked
+export interface StoredIdentityInfo {
+  username: string;
+  subject: string;
+  passphraseProtected: boolean;
+  createdAt: number;
+}
+
+/**
+ * Opt-in persistent identity kept in IndexedDB. Private keys are stored
+ * either as non-extractable CryptoKeys or, with a passphrase, wrapped under
+ * a PBKDF2-derived AES-KW key. Unwrapped keys are non-extractable unless
+ * they are being exported to a backup.
+ */
+export class IdentityStore {
+  private static instance: IdentityStore;
+  private record: StoredIdentityRecord | null = null;
+
+  static getInstance(): IdentityStore {
+    if (!IdentityStore.instance) {
+      IdentityStore.instance = new IdentityStore();
+    }
+    return IdentityStore.instance;
+  }
+
+  /**
+   * Read the stored identity, if any, without unlocking it
+   */
+  async load(): Promise<StoredIdentityInfo | null> {
+    this.record = await this.request<StoredIdentityRecord | undefined>('readonly', store => store.get(RECORD_KEY)) ?? null;
+    if (!this.record || this.record.version !== RECORD_VERSION) {
+      this.record = null;
+      return null;
+    }
+
+    return {
+      username: this.record.username,
+      subject: this.record.certificate.subject,
+      passphraseProtected: !!this.record.wrapped,
+      createdAt: this.record.createdAt
+    };
+  }
+
+  /**
+   * Load the keys of an identity stored without a passphrase
+   */
+  async open(): Promise<IdentityMaterial> {
+    const record = this.requireRecord();
+    if (!record.keys) {
+      throw new Error('Identity is protected by a passphrase');
+    }
+    return this.toMaterial(record, record.keys.signingKey, record.keys.caKey);
+  }
+
+  /**
+   * Unwrap a passphrase-protected identity. Throws if the passphrase is wrong.
+   * Extractable keys are only requested for writing a backup.
+   */
+  async unlock(passphrase: string, extractable: boolean = false): Promise<IdentityMaterial> {
+    const record = this.requireRecord();
+    if (!record.wrapped) {
+      if (extractable) {
+        throw new Error('Identity keys stored without a passphrase cannot be exported');
+      }
+      return this.open();
+    }
+
+    const { signingKey, caKey } = await this.unwrapPrivateKeys(record, record.wrapped, passphrase, extractable);
+    return this.toMaterial(record, signingKey, caKey);
+  }
+
+  /**
+   * Persist an identity. The private keys must be extractable so they can be
+   * re-imported as non-extractable or wrapped; the caller's copies are untouched.
+   */
+  async save(identity: IdentityMaterial, passphrase?: string): Promise<void> {
+    const record: StoredIdentityRecord = {
+      version: RECORD_VERSION,
+      username: identity.username,
+      certificate: identity.certificate,
+      ca: {
+        id: identity.ca.id,
+        name: identity.ca.name,
+        publicKey: identity.ca.publicKey,
+        ...(identity.ca.suite && { suite: identity.ca.suite })
+      },
+      signingPublicKey: arrayBufferToBase64(
+        await window.crypto.subtle.exportKey('raw', identity.signingKeyPair.publicKey)
+      ),
+      createdAt: Date.now()
+    };
+
+    const signingPkcs8 = new Uint8Array(
+      await window.crypto.subtle.exportKey('pkcs8', identity.signingKeyPair.privateKey)
+    );
+    const caPkcs8 = identity.caPrivateKey
+      ? new Uint8Array(await window.crypto.subtle.exportKey('pkcs8', identity.caPrivateKey))
+      : null;
+
+    try {
+      if (passphrase) {
+        record.wrapped = await this.wrapPrivateKeys(signingPkcs8, caPkcs8, passphrase);
+      } else {
+        record.keys = {
+          signingKey: await this.importSigningKey(signingPkcs8, CryptoSuites.ofKey(identity.signingKeyPair.privateKey), false),
+          caKey: identity.caPrivateKey && caPkcs8
+            ? await this.importSigningKey(caPkcs8, CryptoSuites.ofKey(identity.caPrivateKey), false)
+            : null
+        };
+      }
+    } finally {
+      signingPkcs8.fill(0);
+      caPkcs8?.fill(0);
+    }
+
+    await this.request('readwrite', store => store.put(record, RECORD_KEY));
+    this.record = record;
+  }
+
+  /**
+   * Replace the stored certificate, e.g. after a username change
+   */
+  async updateCertificate(certificate: Certificate, username: string): Promise<void> {
+    const record = this.requireRecord();
+    const updated = { ...record, certificate, username };
+    await this.request('readwrite', store => store.put(updated, RECORD_KEY));
+    this.record = updated;
+  }
+
+  /**
+   * Replace the stored signing key and its certificate, e.g. after revoking
+   * the old certificate. The new private key must be extractable.
+   */
+  async replaceSigningKey(pair: SigningKeyPair, certificate: Certificate, passphrase?: string): Promise<void> {
+    const record = this.requireRecord();
+    const signingPkcs8 = new Uint8Array(await window.crypto.subtle.exportKey('pkcs8', pair.privateKey));
+    const updated: StoredIdentityRecord = {
+      ...record,
+      certificate,
+      signingPublicKey: arrayBufferToBase64(await window.crypto.subtle.exportKey('raw', pair.publicKey))
+    };
+
+    try {
+      if (record.wrapped) {
+        const dataKey = await this.unwrapDataKey(record.wrapped, passphrase ?? '', ['encrypt']);
+        updated.wrapped = { ...record.wrapped, signingKey: await this.seal(dataKey, signingPkcs8) };
+      } else {
+        const signingKey = await this.importSigningKey(signingPkcs8, CryptoSuites.ofKey(pair.privateKey), false);
+        updated.keys = { ...record.keys!, signingKey };
+      }
+    } finally {
+      signingPkcs8.fill(0);
+    }
+
+    await this.request('readwrite', store => store.put(updated, RECORD_KEY));
+    this.record = updated;
+  }
+
+  isPassphraseProtected(): boolean {
+    return !!this.record?.wrapped;
+  }
+
+  async clear(): Promise<void> {
+    await this.request('readwrite', store => store.delete(RECORD_KEY));
+    this.record = null;
+  }
+
+  private requireRecord(): StoredIdentityRecord {
+    if (!this.record) {
+      throw new Error('No stored identity');
+    }
+    return this.record;
+  }
+
+  private async toMaterial(
+    record: StoredIdentityRecord,
+    signingKey: CryptoKey,
+    caKey: CryptoKey | null
+  ): Promise<IdentityMaterial> {
+    const publicKey = await window.crypto.subtle.importKey(
+      'raw',
+      base64ToArrayBuffer(record.signingPublicKey),
+      CryptoSuites.algorithms(record.certificate.suite).signingKey,
+      true,
+      ['verify']
+    );
+
+    return {
+      username: record.username,
+      certificate: record.certificate,
+      ca: record.ca,
+      signingKeyPair: { publicKey, privateKey: signingKey },
+      caPrivateKey: caKey
+    };
+  }
+
+  private importSigningKey(pkcs8: Uint8Array, suite: CryptoSuite, extractable: boolean): Promise<CryptoKey> {
+    return window.crypto.subtle.importKey('pkcs8', pkcs8, CryptoSuites.algorithms(suite).signingKey, extractable, ['sign']);
+  }
+
+  private async deriveWrappingKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+    const keyMaterial = await window.crypto.subtle.importKey(
+      'raw',
+      stringToArrayBuffer(passphrase),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    );
+
+    return window.crypto.subtle.deriveKey(
+      { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+      keyMaterial,
+      { name: 'AES-KW', length: 256 },
+      false,
+      ['wrapKey', 'unwrapKey']
+    );
+  }
+
+  // PKCS#8 keys are not a multiple of 8 bytes, so AES-KW wraps a data key
+  // and the data key wraps the private keys with AES-GCM
+  private async wrapPrivateKeys(
+    signingPkcs8: Uint8Array,
+    caPkcs8: Uint8Array | null,
+    passphrase: string
+  ): Promise<WrappedKeys> {
+    const salt = window.crypto.getRandomValues(new Uint8Array(16));
+    const wrappingKey = await this.deriveWrappingKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const dataKey = await window.crypto.subtle.generateKey(
+      { name: 'AES-GCM', length: 256 },
+      true,
+      ['encrypt', 'decrypt']
+    );
+
+    return {
+      salt: arrayBufferToBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      dataKey: arrayBufferToBase64(await window.crypto.subtle.wrapKey('raw', dataKey, wrappingKey, 'AES-KW')),
+      signingKey: await this.seal(dataKey, signingPkcs8),
+      ...(caPkcs8 && { caKey: await this.seal(dataKey, caPkcs8) })
+    };
+  }
+
+  private async seal(dataKey: CryptoKey, plaintext: Uint8Array): Promise<{ iv: string; data: string }> {
+    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+    const data = await window.crypto.subtle.encrypt({ name: 'AES-GCM', iv }, dataKey, plaintext);
+    return { iv: arrayBufferToBase64(iv), data: arrayBufferToBase64(data) };
+  }
+
+  private async unwrapDataKey(
+    wrapped: WrappedKeys,
+    passphrase: string,
+    usages: KeyUsage[]
+  ): Promise<CryptoKey> {
+    const wrappingKey = await this.deriveWrappingKey(
+      passphrase,
+      base64ToArrayBuffer(wrapped.salt),
+      wrapped.iterations
+    );
+
+    try {
+      return await window.crypto.subtle.unwrapKey(
+        'raw',
+        base64ToArrayBuffer(wrapped.dataKey),
+        wrappingKey,
+        'AES-KW',
+        { name: 'AES-GCM', length: 256 },
+        false,
+        usages
+      );
+    } catch {
+      // AES-KW's integrity check fails for any other passphrase
+      throw new Error('Incorrect passphrase');
+    }
+  }
+
+  // The certificate and CA record which suite each key belongs to
+  private async unwrapPrivateKeys(
+    record: StoredIdentityRecord,
+    wrapped: WrappedKeys,
+    passphrase: string,
+    extractable: boolean
+  ): Promise<{ signingKey: CryptoKey; caKey: CryptoKey | null }> {
+    const dataKey = await this.unwrapDataKey(wrapped, passphrase, ['unwrapKey']);
+
+    const open = (sealed: { iv: string; data: string }, suite?: CryptoSuite) => window.crypto.subtle.unwrapKey(
+      'pkcs8',
+      base64ToArrayBuffer(sealed.data),
+      dataKey,
+      { name: 'AES-GCM', iv: base64ToArrayBuffer(sealed.iv) },
+      CryptoSuites.algorithms(suite).signingKey,
+      extractable,
+      ['sign']
+    );
+
+    return {
+      signingKey: await open(wrapped.signingKey, record.certificate.suite),
+      caKey: wrapped.caKey ? await open(wrapped.caKey, record.ca.suite) : null
+    };
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.openDatabase();
+    try {
+      return await new Promise<T>((resolve, reject) => {
+        const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    } finally {
+      db.close();
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { Certificate, KeyRotation } from '../types';
+import { CANONICAL_SIGNATURE_FORMAT, CanonicalJson } from './canonicalJson';
+import { CertificateManager } from './certificates';
+import { DigitalSigner } from './signing';
+
+// Certificates are renewed once they are this close to expiring
+export const RENEWAL_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Signing key rotation: the old key signs a statement naming the renewed
+ * certificate, so a peer that pinned the old key can follow it to the new one
+ */
+export class KeyRotations {
+  static needsRenewal(certificate: Certificate, now: number = Date.now()): boolean {
+    return certificate.expiresAt - now <= RENEWAL_WINDOW_MS;
+  }
+
+  // When automatic renewal starts for a certificate
+  static renewalDate(certificate: Certificate): number {
+    return certificate.expiresAt - RENEWAL_WINDOW_MS;
+  }
+
+  static async create(
+    previous: Certificate,
+    previousPrivateKey: CryptoKey,
+    next: Certificate
+  ): Promise<KeyRotation> {
+    const unsigned = {
+      previous,
+      next,
+      rotatedAt: Date.now(),
+      format: CANONICAL_SIGNATURE_FORMAT
+    };
+    const signature = await DigitalSigner.signData(await this.signedPayload(unsigned), previousPrivateKey);
+    return { ...unsigned, signature };
+  }
+
+  /**
+   * Check that the previous key vouched for the next certificate, and that
+   * the renewal keeps the subject and issuer. The next certificate's own
+   * validity is checked by the caller.
+   */
+  static async verify(rotation: KeyRotation): Promise<boolean> {
+    const { previous, next } = rotation ?? {};
+    if (
+      !previous || !next ||
+      rotation.format !== CANONICAL_SIGNATURE_FORMAT ||
+      typeof rotation.signature !== 'string' ||
+      !Number.isFinite(rotation.rotatedAt)
+    ) {
+      return false;
+    }
+    if (
+      next.subject !== previous.subject ||
+      next.issuer !== previous.issuer ||
+      next.publicKey === previous.publicKey ||
+      rotation.rotatedAt > previous.expiresAt
+    ) {
+      return false;
+    }
+
+    try {
+      const previousKey = await CertificateManager.getInstance().importPublicKey(previous.publicKey, previous.suite);
+      return await DigitalSigner.verifySignature(await this.signedPayload(rotation), rotation.signature, previousKey);
+    } catch (error) {
+      console.error('Key rotation check failed:', error);
+      return false;
+    }
+  }
+
+  // Both certificates are named by the fingerprint of their signed fields
+  private static async signedPayload(rotation: Omit<KeyRotation, 'signature'>): Promise<string> {
+    const certificates = CertificateManager.getInstance();
+    return CanonicalJson.stringify({
+      previous: await certificates.fingerprint(rotation.previous),
+      next: await certificates.fingerprint(rotation.next),
+      rotatedAt: rotation.rotatedAt,
+      format: rotation.format
+    });
+  }
+}
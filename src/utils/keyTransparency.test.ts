@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Certificate, SignedTreeHead } from '../types';
+import { KeyTransparency } from './keyTransparency';
+
+// The in-process log and the monitor both keep their state in localStorage
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, value),
+  removeItem: (key: string) => storage.delete(key)
+});
+
+const MONITOR_KEY = 'cipher-transparency';
+
+let serial = 0;
+function certificate(subject: string): Certificate {
+  serial++;
+  return {
+    id: `cert-${serial}`,
+    subject,
+    publicKey: btoa(`key-${serial}`),
+    issuer: 'test-ca',
+    issuedAt: 1700000000000 + serial,
+    expiresAt: 1800000000000,
+    signature: btoa(`signature-${serial}`)
+  };
+}
+
+// Rewrite what the monitor remembers of the last tree head it verified
+function editMonitor(edit: (state: { logKey: string; treeHead: SignedTreeHead }) => void): void {
+  const state = JSON.parse(storage.get(MONITOR_KEY)!);
+  edit(state);
+  storage.set(MONITOR_KEY, JSON.stringify(state));
+}
+
+describe('KeyTransparency', () => {
+  const transparency = KeyTransparency.getInstance();
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    // Pin the log afresh, at a verified tree head with at least one entry
+    storage.delete(MONITOR_KEY);
+    await transparency.publish(certificate('setup'));
+    await transparency.check(certificate('setup'));
+  });
+
+  it('proves published certificates are in the log', async () => {
+    const cert = certificate('alice');
+    await transparency.publish(cert);
+    expect(await transparency.check(cert)).toBe('logged');
+    expect(await transparency.check({ ...cert, chain: [certificate('intermediate')] })).toBe('logged');
+  });
+
+  it('reports certificates that were never published', async () => {
+    expect(await transparency.check(certificate('mallory'))).toBe('not-logged');
+  });
+
+  it('does not find a certificate that differs from the logged one', async () => {
+    const cert = certificate('bob');
+    await transparency.publish(cert);
+    expect(await transparency.check({ ...cert, expiresAt: cert.expiresAt + 1 })).toBe('not-logged');
+  });
+
+  it('lists a subject’s logged certificates oldest first', async () => {
+    const first = certificate('carol');
+    const second = certificate('carol');
+    await transparency.publish(second);
+    await transparency.publish(first);
+    await transparency.publish(second);
+    const history = await transparency.history('carol');
+    expect(history.map(entry => entry.certificate.id)).toEqual([second.id, first.id]);
+    expect(history[0].index).toBeLessThan(history[1].index);
+  });
+
+  it('flags a log that shows a different tree of the same size', async () => {
+    editMonitor(state => {
+      state.treeHead.rootHash = '00'.repeat(32);
+    });
+    expect(await transparency.check(certificate('dave'))).toBe('inconsistent');
+  });
+
+  it('flags a log whose tree shrank since it was last seen', async () => {
+    editMonitor(state => {
+      state.treeHead.treeSize += 100;
+    });
+    expect(await transparency.check(certificate('erin'))).toBe('inconsistent');
+    await expect(transparency.history('erin')).rejects.toThrow('inconsistent');
+  });
+
+  it('flags a log whose signing key changed', async () => {
+    editMonitor(state => {
+      state.logKey = '04' + '00'.repeat(64);
+    });
+    expect(await transparency.check(certificate('frank'))).toBe('inconsistent');
+  });
+});
@@ -0,0 +1,158 @@
+import { Certificate, SignedTreeHead, TransparencyLog, TransparencyLogEntry, TransparencyStatus } from '../types';
+import { createTransparencyLog, TransparencyLogService } from '../transparency';
+import { MerkleTree } from './merkleTree';
+import { bytesToHex, hexToBytes } from './encoding';
+
+const STORAGE_KEY = 'cipher-transparency';
+
+export const TRANSPARENCY_STATUS_LABELS: Record<TransparencyStatus, string> = {
+  logged: 'published in the transparency log',
+  'not-logged': 'not found in the transparency log',
+  inconsistent: 'transparency log gave inconsistent answers',
+  unavailable: 'transparency log unreachable'
+};
+
+// What we last saw of the log
+interface MonitorState {
+  logKey: string; // Pinned on first use
+  treeHead: SignedTreeHead;
+}
+
+/**
+ * Client side of key transparency: publishes our certificates and checks
+ * peers' against the log. Tree heads must be signed by the pinned log key
+ * and consistent with the last one seen, so a log that rewrites history or
+ * shows clients different trees is caught.
+ */
+export class KeyTransparency {
+  private static instance: KeyTransparency;
+  // Tree heads are checked one at a time, each against the one before
+  private headQueue: Promise<SignedTreeHead | null> = Promise.resolve(null);
+
+  static getInstance(): KeyTransparency {
+    if (!KeyTransparency.instance) {
+      KeyTransparency.instance = new KeyTransparency(createTransparencyLog());
+    }
+    return KeyTransparency.instance;
+  }
+
+  private constructor(private readonly log: TransparencyLog) {}
+
+  publish(certificate: Certificate): Promise<TransparencyLogEntry> {
+    return this.log.publish(certificate);
+  }
+
+  /**
+   * Whether a certificate is in the log, proven against a verified tree head
+   */
+  async check(certificate: Certificate): Promise<TransparencyStatus> {
+    try {
+      const head = await this.latestTreeHead();
+      if (!head) return 'inconsistent';
+
+      const leafHash = await MerkleTree.hashLeaf(TransparencyLogService.leafData(certificate));
+      const proof = head.treeSize > 0 ? await this.log.proveInclusion(bytesToHex(leafHash), head.treeSize) : null;
+      if (!proof) return 'not-logged';
+
+      const included = await MerkleTree.verifyInclusion(leafHash, proof.leafIndex, head.treeSize, proof.path, head.rootHash);
+      return included ? 'logged' : 'inconsistent';
+    } catch (error) {
+      console.warn('Transparency log check failed:', error);
+      return 'unavailable';
+    }
+  }
+
+  /**
+   * Every certificate logged for a subject, oldest first. Entries the log
+   * cannot prove are in its tree are left out.
+   */
+  async history(subject: string): Promise<TransparencyLogEntry[]> {
+    // Entries first, so none is newer than the tree head they are proven against
+    const entries = await this.log.entriesFor(subject);
+    const head = await this.latestTreeHead();
+    if (!head) {
+      throw new Error('The transparency log gave inconsistent answers');
+    }
+
+    const proven = await Promise.all(entries.map(async entry => {
+      if (entry.certificate?.subject !== subject || entry.index >= head.treeSize) return false;
+      const leafHash = await MerkleTree.hashLeaf(TransparencyLogService.leafData(entry.certificate));
+      const proof = await this.log.proveInclusion(bytesToHex(leafHash), head.treeSize);
+      return !!proof && proof.leafIndex === entry.index &&
+        await MerkleTree.verifyInclusion(leafHash, proof.leafIndex, head.treeSize, proof.path, head.rootHash);
+    }));
+    return entries.filter((_, i) => proven[i]).sort((a, b) => a.index - b.index);
+  }
+
+  // The log's current tree head once verified, or null if the log misbehaved
+  private latestTreeHead(): Promise<SignedTreeHead | null> {
+    const run = this.headQueue.then(() => this.fetchTreeHead());
+    this.headQueue = run.catch(() => null);
+    return run;
+  }
+
+  private async fetchTreeHead(): Promise<SignedTreeHead | null> {
+    const [logKey, head] = await Promise.all([this.log.publicKey(), this.log.treeHead()]);
+    const previous = this.load();
+
+    if (previous && previous.logKey !== logKey) {
+      console.warn('Transparency log key changed');
+      return null;
+    }
+    if (!await this.verifyTreeHead(head, logKey)) {
+      console.warn('Transparency log tree head has a bad signature');
+      return null;
+    }
+    if (previous && !await this.isConsistent(previous.treeHead, head)) {
+      console.warn(`Transparency log tree of size ${head.treeSize} does not extend the one of size ${previous.treeHead.treeSize}`);
+      return null;
+    }
+
+    this.save({ logKey, treeHead: head });
+    return head;
+  }
+
+  private async verifyTreeHead(head: SignedTreeHead, logKey: string): Promise<boolean> {
+    try {
+      const key = await window.crypto.subtle.importKey(
+        'raw',
+        hexToBytes(logKey),
+        { name: 'ECDSA', namedCurve: 'P-256' },
+        false,
+        ['verify']
+      );
+      return await window.crypto.subtle.verify(
+        { name: 'ECDSA', hash: 'SHA-256' },
+        key,
+        hexToBytes(head.signature),
+        TransparencyLogService.treeHeadData(head)
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  // The new tree must contain the old one unchanged
+  private async isConsistent(previous: SignedTreeHead, head: SignedTreeHead): Promise<boolean> {
+    if (head.treeSize < previous.treeSize) return false;
+    if (head.treeSize === previous.treeSize) return head.rootHash === previous.rootHash;
+    if (previous.treeSize === 0) return true;
+
+    const proof = await this.log.proveConsistency(previous.treeSize, head.treeSize);
+    return MerkleTree.verifyConsistency(previous.treeSize, head.treeSize, proof.path, previous.rootHash, head.rootHash);
+  }
+
+  private load(): MonitorState | null {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error('Failed to load transparency log state:', error);
+      return null;
+    }
+  }
+
+  private save(state: MonitorState): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  }
+}
@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import { hexToBytes } from './encoding';
+import { MerkleTree } from './merkleTree';
+
+/*
+ * The eight-leaf reference tree used by the Certificate Transparency
+ * implementations, with its roots and proofs
+ */
+const LEAVES = ['', '00', '10', '2021', '3031', '40414243', '5051525354555657', '606162636465666768696a6b6c6d6e6f'];
+
+const ROOTS = [
+  '6e340b9cffb37a989ca544e6bb780a2c78901d3fb33738768511a30617afa01d',
+  'fac54203e7cc696cf0dfcb42c92a1d9dbaf70ad9e621f4bd8d98662f00e3c125',
+  'aeb6bcfe274b70a14fb067a5e5578264db0fa9b51af5e0ba159158f329e06e77',
+  'd37ee418976dd95753c1c73862b9398fa2a2cf9b4ff0fdfe8b30cd95209614b7',
+  '4e3bbb1f7b478dcfe71fb631631519a3bca12c9aefca1612bfce4c13a86264d4',
+  '76e67dadbcdf1e10e1b74ddc608abd2f98dfb16fbce75277b5232a127f2087ef',
+  'ddb89be403809e325750d3d263cd78929c2942b7942a34b77e122c9594a74c8c',
+  '5dc9da79a70659a9ad559cb701ded9a2ab9d823aad2f4960cfe370eff4604328'
+];
+
+const INCLUSION_PROOFS: [leafIndex: number, treeSize: number, path: string[]][] = [
+  [0, 1, []],
+  [0, 8, [
+    '96a296d224f285c67bee93c30f8a309157f0daa35dc5b87e410b78630a09cfc7',
+    '5f083f0a1a33ca076a95279832580db3e0ef4584bdff1f54c8a360f50de3031e',
+    '6b47aaf29ee3c2af9af889bc1fb9254dabd31177f16232dd6aab035ca39bf6e4'
+  ]],
+  [5, 8, [
+    'bc1a0643b12e4d2d7c77918f44e0f4f79a838b6cf9ec5b5c283e1f4d88599e6b',
+    'ca854ea128ed050b41b35ffc1b87b8eb2bde461e9e3b5596ece6b9d5975a0ae0',
+    'd37ee418976dd95753c1c73862b9398fa2a2cf9b4ff0fdfe8b30cd95209614b7'
+  ]],
+  [2, 3, ['fac54203e7cc696cf0dfcb42c92a1d9dbaf70ad9e621f4bd8d98662f00e3c125']],
+  [1, 5, [
+    '6e340b9cffb37a989ca544e6bb780a2c78901d3fb33738768511a30617afa01d',
+    '5f083f0a1a33ca076a95279832580db3e0ef4584bdff1f54c8a360f50de3031e',
+    'bc1a0643b12e4d2d7c77918f44e0f4f79a838b6cf9ec5b5c283e1f4d88599e6b'
+  ]]
+];
+
+const CONSISTENCY_PROOFS: [firstSize: number, secondSize: number, path: string[]][] = [
+  [1, 1, []],
+  [1, 8, [
+    '96a296d224f285c67bee93c30f8a309157f0daa35dc5b87e410b78630a09cfc7',
+    '5f083f0a1a33ca076a95279832580db3e0ef4584bdff1f54c8a360f50de3031e',
+    '6b47aaf29ee3c2af9af889bc1fb9254dabd31177f16232dd6aab035ca39bf6e4'
+  ]],
+  [6, 8, [
+    '0ebc5d3437fbe2db158b9f126a1d118e308181031d0a949f8dededebc558ef6a',
+    'ca854ea128ed050b41b35ffc1b87b8eb2bde461e9e3b5596ece6b9d5975a0ae0',
+    'd37ee418976dd95753c1c73862b9398fa2a2cf9b4ff0fdfe8b30cd95209614b7'
+  ]],
+  [2, 5, [
+    '5f083f0a1a33ca076a95279832580db3e0ef4584bdff1f54c8a360f50de3031e',
+    'bc1a0643b12e4d2d7c77918f44e0f4f79a838b6cf9ec5b5c283e1f4d88599e6b'
+  ]]
+];
+
+async function referenceTree(): Promise<MerkleTree> {
+  const tree = new MerkleTree();
+  for (const leaf of LEAVES) {
+    await tree.append(hexToBytes(leaf));
+  }
+  return tree;
+}
+
+const leafHash = (index: number) => MerkleTree.hashLeaf(hexToBytes(LEAVES[index]));
+
+// Flip one bit of the proof node at position i
+function tamper(path: string[], i: number): string[] {
+  return path.map((node, j) => (j === i ? (parseInt(node[0], 16) ^ 1).toString(16) + node.slice(1) : node));
+}
+
+describe('MerkleTree against the RFC 9162 reference tree', () => {
+  it('hashes the empty tree', async () => {
+    expect(await new MerkleTree().rootHash()).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+  });
+
+  it.each(ROOTS.map((root, i) => [i + 1, root]))('computes the root of size %i', async (size, root) => {
+    expect(await (await referenceTree()).rootHash(size as number)).toBe(root);
+  });
+
+  it.each(INCLUSION_PROOFS)('proves leaf %i in a tree of size %i', async (leafIndex, treeSize, path) => {
+    const tree = await referenceTree();
+    expect(await tree.inclusionProof(leafIndex, treeSize)).toEqual(path);
+    expect(await MerkleTree.verifyInclusion(await leafHash(leafIndex), leafIndex, treeSize, path, ROOTS[treeSize - 1])).toBe(true);
+  });
+
+  it.each(CONSISTENCY_PROOFS)('proves size %i is a prefix of size %i', async (firstSize, secondSize, path) => {
+    const tree = await referenceTree();
+    expect(await tree.consistencyProof(firstSize, secondSize)).toEqual(path);
+    expect(await MerkleTree.verifyConsistency(firstSize, secondSize, path, ROOTS[firstSize - 1], ROOTS[secondSize - 1])).toBe(true);
+  });
+
+  it('verifies every inclusion and consistency proof it produces', async () => {
+    const tree = await referenceTree();
+    for (let size = 1; size <= LEAVES.length; size++) {
+      for (let index = 0; index < size; index++) {
+        const path = await tree.inclusionProof(index, size);
+        expect(await MerkleTree.verifyInclusion(await leafHash(index), index, size, path, ROOTS[size - 1])).toBe(true);
+      }
+      for (let first = 1; first <= size; first++) {
+        const path = await tree.consistencyProof(first, size);
+        expect(await MerkleTree.verifyConsistency(first, size, path, ROOTS[first - 1], ROOTS[size - 1])).toBe(true);
+      }
+    }
+  });
+});
+
+describe('MerkleTree proof rejection', () => {
+  const [, , [leafIndex, treeSize, inclusionPath]] = INCLUSION_PROOFS;
+  const [, , [firstSize, secondSize, consistencyPath]] = CONSISTENCY_PROOFS;
+  const root = ROOTS[treeSize - 1];
+
+  it('rejects tampered inclusion proofs', async () => {
+    const leaf = await leafHash(leafIndex);
+    for (let i = 0; i < inclusionPath.length; i++) {
+      expect(await MerkleTree.verifyInclusion(leaf, leafIndex, treeSize, tamper(inclusionPath, i), root)).toBe(false);
+    }
+    expect(await MerkleTree.verifyInclusion(leaf, leafIndex, treeSize, inclusionPath.slice(0, -1), root)).toBe(false);
+    expect(await MerkleTree.verifyInclusion(leaf, leafIndex, treeSize, [...inclusionPath, root], root)).toBe(false);
+    expect(await MerkleTree.verifyInclusion(leaf, leafIndex, treeSize, inclusionPath, ROOTS[6])).toBe(false);
+    expect(await MerkleTree.verifyInclusion(await leafHash(4), leafIndex, treeSize, inclusionPath, root)).toBe(false);
+  });
+
+  it('rejects inclusion proofs for the wrong index or tree size', async () => {
+    const leaf = await leafHash(leafIndex);
+    expect(await MerkleTree.verifyInclusion(leaf, 4, treeSize, inclusionPath, root)).toBe(false);
+    expect(await MerkleTree.verifyInclusion(leaf, leafIndex, 7, inclusionPath, ROOTS[6])).toBe(false);
+    expect(await MerkleTree.verifyInclusion(leaf, leafIndex, 16, inclusionPath, root)).toBe(false);
+    expect(await MerkleTree.verifyInclusion(leaf, leafIndex, leafIndex, inclusionPath, root)).toBe(false);
+    expect(await MerkleTree.verifyInclusion(leaf, -1, treeSize, inclusionPath, root)).toBe(false);
+  });
+
+  it('rejects tampered consistency proofs', async () => {
+    const [firstRoot, secondRoot] = [ROOTS[firstSize - 1], ROOTS[secondSize - 1]];
+    for (let i = 0; i < consistencyPath.length; i++) {
+      expect(await MerkleTree.verifyConsistency(firstSize, secondSize, tamper(consistencyPath, i), firstRoot, secondRoot)).toBe(false);
+    }
+    expect(await MerkleTree.verifyConsistency(firstSize, secondSize, consistencyPath.slice(0, -1), firstRoot, secondRoot)).toBe(false);
+    expect(await MerkleTree.verifyConsistency(firstSize, secondSize, [...consistencyPath, secondRoot], firstRoot, secondRoot)).toBe(false);
+    expect(await MerkleTree.verifyConsistency(firstSize, secondSize, consistencyPath, ROOTS[4], secondRoot)).toBe(false);
+    expect(await MerkleTree.verifyConsistency(firstSize, secondSize, consistencyPath, firstRoot, ROOTS[6])).toBe(false);
+    expect(await MerkleTree.verifyConsistency(1, 1, [], ROOTS[0], ROOTS[1])).toBe(false);
+  });
+
+  it('rejects consistency proofs for the wrong tree sizes', async () => {
+    const [firstRoot, secondRoot] = [ROOTS[firstSize - 1], ROOTS[secondSize - 1]];
+    expect(await MerkleTree.verifyConsistency(5, secondSize, consistencyPath, firstRoot, secondRoot)).toBe(false);
+    expect(await MerkleTree.verifyConsistency(firstSize, 16, consistencyPath, firstRoot, secondRoot)).toBe(false);
+    expect(await MerkleTree.verifyConsistency(secondSize, firstSize, consistencyPath, secondRoot, firstRoot)).toBe(false);
+    expect(await MerkleTree.verifyConsistency(0, secondSize, consistencyPath, firstRoot, secondRoot)).toBe(false);
+  });
+
+  it('refuses to prove sizes the tree does not have', async () => {
+    const tree = await referenceTree();
+    await expect(tree.inclusionProof(8, 8)).rejects.toThrow(RangeError);
+    await expect(tree.inclusionProof(0, 9)).rejects.toThrow(RangeError);
+    await expect(tree.consistencyProof(0, 8)).rejects.toThrow(RangeError);
+    await expect(tree.consistencyProof(6, 5)).rejects.toThrow(RangeError);
+    await expect(tree.rootHash(9)).rejects.toThrow(RangeError);
+  });
+});
@@ -0,0 +1,209 @@
+import { bytesToHex, concatBytes, hexToBytes } from './encoding';
+
+// RFC 9162 domain separation, so a leaf can never pass for an interior node
+const LEAF_PREFIX = new Uint8Array([0x00]);
+const NODE_PREFIX = new Uint8Array([0x01]);
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await globalThis.crypto.subtle.digest('SHA-256', data));
+}
+
+function hashNode(left: Uint8Array, right: Uint8Array): Promise<Uint8Array> {
+  return sha256(concatBytes(NODE_PREFIX, left, right));
+}
+
+// Largest power of two smaller than n (n > 1)
+function splitPoint(n: number): number {
+  let k = 1;
+  while (k * 2 < n) k *= 2;
+  return k;
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+/**
+ * Append-only Merkle tree as specified for Certificate Transparency
+ * (RFC 9162, section 2.1). Hashes are SHA-256 and proofs are lists of hex
+ * node hashes. Runs wherever WebCrypto does, including the log server.
+ */
+export class MerkleTree {
+  private leaves: Uint8Array[] = [];
+  // Hashes of complete subtrees, keyed "start:end"; they never change once appended
+  private subtrees = new Map<string, Uint8Array>();
+
+  static hashLeaf(data: Uint8Array): Promise<Uint8Array> {
+    return sha256(concatBytes(LEAF_PREFIX, data));
+  }
+
+  get size(): number {
+    return this.leaves.length;
+  }
+
+  async append(data: Uint8Array): Promise<number> {
+    this.leaves.push(await MerkleTree.hashLeaf(data));
+    return this.leaves.length - 1;
+  }
+
+  /**
+   * Index of a leaf among the first treeSize leaves, or -1
+   */
+  indexOf(leafHash: Uint8Array, treeSize: number = this.size): number {
+    return this.leaves.slice(0, treeSize).findIndex(leaf => bytesEqual(leaf, leafHash));
+  }
+
+  /**
+   * Root hash of the tree made of the first treeSize leaves
+   */
+  async rootHash(treeSize: number = this.size): Promise<string> {
+    this.checkSize(treeSize);
+    return bytesToHex(await this.hashRange(0, treeSize));
+  }
+
+  /**
+   * Audit path from a leaf to the root of the first treeSize leaves
+   */
+  async inclusionProof(leafIndex: number, treeSize: number): Promise<string[]> {
+    this.checkSize(treeSize);
+    if (!Number.isInteger(leafIndex) || leafIndex < 0 || leafIndex >= treeSize) {
+      throw new RangeError(`Leaf ${leafIndex} is not in a tree of size ${treeSize}`);
+    }
+    return (await this.path(leafIndex, 0, treeSize)).map(bytesToHex);
+  }
+
+  /**
+   * Proof that the tree of size firstSize is a prefix of the tree of size secondSize
+   */
+  async consistencyProof(firstSize: number, secondSize: number): Promise<string[]> {
+    this.checkSize(secondSize);
+    if (!Number.isInteger(firstSize) || firstSize < 1 || firstSize > secondSize) {
+      throw new RangeError(`Cannot prove consistency from size ${firstSize} to ${secondSize}`);
+    }
+    return (await this.subproof(firstSize, 0, secondSize, true)).map(bytesToHex);
+  }
+
+  /**
+   * Check an audit path (RFC 9162, section 2.1.3.2)
+   */
+  static async verifyInclusion(
+    leafHash: Uint8Array,
+    leafIndex: number,
+    treeSize: number,
+    proof: string[],
+    rootHash: string
+  ): Promise<boolean> {
+    if (leafIndex < 0 || leafIndex >= treeSize) return false;
+
+    let fn = leafIndex;
+    let sn = treeSize - 1;
+    let r = leafHash;
+    for (const node of proof.map(hexToBytes)) {
+      if (sn === 0) return false;
+      if (fn % 2 === 1 || fn === sn) {
+        r = await hashNode(node, r);
+        while (fn % 2 === 0 && fn !== 0) {
+          fn >>= 1;
+          sn >>= 1;
+        }
+      } else {
+        r = await hashNode(r, node);
+      }
+      fn >>= 1;
+      sn >>= 1;
+    }
+    return sn === 0 && bytesToHex(r) === rootHash;
+  }
+
+  /**
+   * Check a consistency proof between two tree heads (RFC 9162, section 2.1.4.2)
+   */
+  static async verifyConsistency(
+    firstSize: number,
+    secondSize: number,
+    proof: string[],
+    firstRoot: string,
+    secondRoot: string
+  ): Promise<boolean> {
+    if (firstSize < 1 || firstSize > secondSize) return false;
+    if (firstSize === secondSize) {
+      return proof.length === 0 && firstRoot === secondRoot;
+    }
+
+    // A first tree that is a complete subtree is not repeated in the proof
+    const path = (firstSize & (firstSize - 1)) === 0 ? [hexToBytes(firstRoot), ...proof.map(hexToBytes)] : proof.map(hexToBytes);
+    if (path.length === 0) return false;
+
+    let fn = firstSize - 1;
+    let sn = secondSize - 1;
+    while (fn % 2 === 1) {
+      fn >>= 1;
+      sn >>= 1;
+    }
+
+    let fr = path[0];
+    let sr = path[0];
+    for (const node of path.slice(1)) {
+      if (sn === 0) return false;
+      if (fn % 2 === 1 || fn === sn) {
+        fr = await hashNode(node, fr);
+        sr = await hashNode(node, sr);
+        while (fn % 2 === 0 && fn !== 0) {
+          fn >>= 1;
+          sn >>= 1;
+        }
+      } else {
+        sr = await hashNode(sr, node);
+      }
+      fn >>= 1;
+      sn >>= 1;
+    }
+    return sn === 0 && bytesToHex(fr) === firstRoot && bytesToHex(sr) === secondRoot;
+  }
+
+  private checkSize(treeSize: number): void {
+    if (!Number.isInteger(treeSize) || treeSize < 0 || treeSize > this.size) {
+      throw new RangeError(`Tree size ${treeSize} is out of range (0-${this.size})`);
+    }
+  }
+
+  // MTH(D[start:end])
+  private async hashRange(start: number, end: number): Promise<Uint8Array> {
+    const n = end - start;
+    if (n === 0) return sha256(new Uint8Array(0));
+    if (n === 1) return this.leaves[start];
+
+    const key = `${start}:${end}`;
+    let hash = this.subtrees.get(key);
+    if (!hash) {
+      const k = splitPoint(n);
+      hash = await hashNode(await this.hashRange(start, start + k), await this.hashRange(start + k, end));
+      this.subtrees.set(key, hash);
+    }
+    return hash;
+  }
+
+  // PATH(m, D[start:end])
+  private async path(m: number, start: number, end: number): Promise<Uint8Array[]> {
+    const n = end - start;
+    if (n <= 1) return [];
+
+    const k = splitPoint(n);
+    return m < k
+      ? [...await this.path(m, start, start + k), await this.hashRange(start + k, end)]
+      : [...await this.path(m - k, start + k, end), await this.hashRange(start, start + k)];
+  }
+
+  // SUBPROOF(m, D[start:end], b)
+  private async subproof(m: number, start: number, end: number, complete: boolean): Promise<Uint8Array[]> {
+    const n = end - start;
+    if (m === n) {
+      return complete ? [] : [await this.hashRange(start, end)];
+    }
+
+    const k = splitPoint(n);
+    return m <= k
+      ? [...await this.subproof(m, start, start + k, complete), await this.hashRange(start + k, end)]
+      : [...await this.subproof(m - k, start + k, end, false), await this.hashRange(start, start + k)];
+  }
+}
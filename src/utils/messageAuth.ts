@@ -0,0 +1,59 @@
+import { MessageAuthMode } from '../types';
+import { arrayBufferToBase64, base64ToArrayBuffer, stringToArrayBuffer } from './encoding';
+
+const MAC_INFO = 'cipher-message-mac';
+
+export const DEFAULT_MESSAGE_AUTH_MODE: MessageAuthMode = 'signature';
+
+export const MESSAGE_AUTH_MODE_LABELS: Record<MessageAuthMode, string> = {
+  signature: 'Signed: your peer can prove to others what you wrote',
+  deniable: 'Deniable: authenticated with session MACs your peer could also have made'
+};
+
+export interface MessageMacKeys {
+  mac: (data: string) => Promise<string>; // With our direction's key (Base64)
+  verify: (data: string, mac: string) => Promise<boolean>; // With the peer's direction's key
+}
+
+async function hmacKey(raw: Uint8Array, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  return window.crypto.subtle.importKey('raw', raw, { name: 'HMAC', hash: 'SHA-256' }, false, [usage]);
+}
+
+/**
+ * Derive a MAC key for each direction of a session from its shared secret.
+ * Both peers can derive both keys, so a MAC convinces the peer that the
+ * message came through the session but proves nothing to anyone else:
+ * the peer could have made it too (off-the-record style deniability).
+ */
+export async function deriveMessageMacKeys(
+  sharedSecret: Uint8Array,
+  role: 'initiator' | 'responder'
+): Promise<MessageMacKeys> {
+  const keyMaterial = await window.crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveBits']);
+  const bytes = new Uint8Array(await window.crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(), info: stringToArrayBuffer(MAC_INFO) },
+    keyMaterial,
+    64 * 8
+  ));
+
+  const initiatorKey = bytes.slice(0, 32);
+  const responderKey = bytes.slice(32, 64);
+  const [ownKey, peerKey] = role === 'initiator' ? [initiatorKey, responderKey] : [responderKey, initiatorKey];
+  const signKey = await hmacKey(ownKey, 'sign');
+  const verifyKey = await hmacKey(peerKey, 'verify');
+  bytes.fill(0);
+  initiatorKey.fill(0);
+  responderKey.fill(0);
+
+  return {
+    mac: async (data: string) =>
+      arrayBufferToBase64(await window.crypto.subtle.sign('HMAC', signKey, stringToArrayBuffer(data))),
+    verify: async (data: string, mac: string) => {
+      try {
+        return await window.crypto.subtle.verify('HMAC', verifyKey, base64ToArrayBuffer(mac), stringToArrayBuffer(data));
+      } catch {
+        return false;
+      }
+    }
+  };
+}
@@ -0,0 +1,135 @@
+import { MessageEnvelope, MessageRejectionReason, MessageType } from '../types';
+import { CanonicalJson } from './canonicalJson';
+import { arrayBufferToBase64, stringToArrayBuffer } from './encoding';
+
+// Version 2 envelopes are signed as canonical JSON; version 1 is still accepted
+export const ENVELOPE_VERSION = 2;
+const SUPPORTED_ENVELOPE_VERSIONS = [1, ENVELOPE_VERSION];
+export const DEFAULT_MAX_CLOCK_SKEW_MS = 2 * 60 * 1000;
+
+// Sequence numbers this far behind the newest one are no longer tracked
+const REPLAY_WINDOW = 1000;
+
+/**
+ * Signed metadata for chat messages, so room, sender, order, time and type
+ * are authenticated together with the content
+ */
+export class MessageEnvelopes {
+  static async hashContent(content: string): Promise<string> {
+    const digest = await window.crypto.subtle.digest('SHA-256', stringToArrayBuffer(content));
+    return arrayBufferToBase64(digest);
+  }
+
+  static async create(
+    room: string,
+    sender: string,
+    seq: number,
+    type: MessageType,
+    content: string
+  ): Promise<MessageEnvelope> {
+    return {
+      version: ENVELOPE_VERSION,
+      room,
+      sender,
+      seq,
+      timestamp: Date.now(),
+      type,
+      contentHash: await this.hashContent(content)
+    };
+  }
+
+  /**
+   * The exact bytes that are signed, so the signature never depends on how
+   * an object happened to be built. Version 1 used a fixed-order array.
+   */
+  static serialize(envelope: MessageEnvelope): string {
+    if (envelope.version === ENVELOPE_VERSION) {
+      const { version, room, sender, seq, timestamp, type, contentHash } = envelope;
+      return CanonicalJson.stringify({ version, room, sender, seq, timestamp, type, contentHash });
+    }
+
+    return JSON.stringify([
+      envelope.version,
+      envelope.room,
+      envelope.sender,
+      envelope.seq,
+      envelope.timestamp,
+      envelope.type,
+      envelope.contentHash
+    ]);
+  }
+
+  /**
+   * Check that an envelope describes this content in this room from this
+   * sender; returns the reason it does not, or null
+   */
+  static async validate(
+    envelope: MessageEnvelope,
+    content: string,
+    room: string,
+    senderId: string
+  ): Promise<MessageRejectionReason | null> {
+    if (
+      !envelope ||
+      !SUPPORTED_ENVELOPE_VERSIONS.includes(envelope.version) ||
+      !Number.isSafeInteger(envelope.seq) ||
+      envelope.seq < 1 ||
+      !Number.isFinite(envelope.timestamp)
+    ) {
+      return 'malformed';
+    }
+    if (envelope.room !== room) {
+      return 'wrong-room';
+    }
+    if (envelope.sender !== senderId) {
+      return 'wrong-sender';
+    }
+    if (envelope.contentHash !== await this.hashContent(content)) {
+      return 'content-mismatch';
+    }
+    return null;
+  }
+}
+
+/**
+ * Per-conversation record of accepted sequence numbers. Messages may arrive
+ * out of order, so it keeps a window of seen numbers below the newest.
+ */
+export class ReplayGuard {
+  private seen = new Map<string, { highest: number; window: Set<number> }>();
+
+  constructor(private readonly maxClockSkewMs: number = DEFAULT_MAX_CLOCK_SKEW_MS) {}
+
+  /**
+   * Accept an envelope exactly once, inside the clock-skew window
+   */
+  accept(envelope: MessageEnvelope, now: number = Date.now()): MessageRejectionReason | null {
+    if (Math.abs(now - envelope.timestamp) > this.maxClockSkewMs) {
+      return 'clock-skew';
+    }
+
+    const record = this.seen.get(envelope.sender) ?? { highest: 0, window: new Set<number>() };
+    if (envelope.seq <= record.highest - REPLAY_WINDOW) {
+      return 'replay';
+    }
+    if (record.window.has(envelope.seq)) {
+      return 'duplicate';
+    }
+
+    record.window.add(envelope.seq);
+    if (envelope.seq > record.highest) {
+      record.highest = envelope.seq;
+      record.window.forEach(seq => {
+        if (seq <= record.highest - REPLAY_WINDOW) {
+          record.window.delete(seq);
+        }
+      });
+    }
+    this.seen.set(envelope.sender, record);
+    return null;
+  }
+
+  reset(): void {
+    this.seen.clear();
+  }
+}
@@ -0,0 +1,90 @@
+import { createHash } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import {
+  MlKem768,
+  ML_KEM_CIPHERTEXT_BYTES,
+  ML_KEM_DECAPSULATION_KEY_BYTES,
+  ML_KEM_ENCAPSULATION_KEY_BYTES
+} from './mlKem';
+import { Keccak } from './sha3';
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+
+// Deterministic inputs: SHAKE128 of the empty string, read in order
+function inputStream(): Keccak {
+  return Keccak.shake128().absorb(new Uint8Array());
+}
+
+describe('MlKem768 against FIPS 203', () => {
+  /*
+   * Accumulated vector from the C2SP CCTV ML-KEM tests, as run by Go's
+   * FIPS 203 implementation (TestAccumulated, short mode). Each iteration
+   * reads d || z, m and a random ciphertext from the input stream and
+   * absorbs ek, c, K and the implicit rejection key into one SHAKE128, so
+   * keyGen, encapsulation, decapsulation and implicit rejection are all
+   * covered by the published digest.
+   */
+  it('matches the accumulated vector over 100 iterations', () => {
+    const input = inputStream();
+    const output = Keccak.shake128();
+    for (let i = 0; i < 100; i++) {
+      const { encapsulationKey, decapsulationKey } = MlKem768.keygen(input.squeeze(64));
+      expect(encapsulationKey).toHaveLength(ML_KEM_ENCAPSULATION_KEY_BYTES);
+      expect(decapsulationKey).toHaveLength(ML_KEM_DECAPSULATION_KEY_BYTES);
+      output.absorb(encapsulationKey);
+
+      const { ciphertext, sharedSecret } = MlKem768.encapsulate(encapsulationKey, input.squeeze(32));
+      output.absorb(ciphertext).absorb(sharedSecret);
+      expect(MlKem768.decapsulate(ciphertext, decapsulationKey)).toEqual(sharedSecret);
+
+      output.absorb(MlKem768.decapsulate(input.squeeze(ML_KEM_CIPHERTEXT_BYTES), decapsulationKey));
+    }
+    expect(hex(output.squeeze(32))).toBe('1114b1b6699ed191734fa339376afa7e285c9e6acf6ff0177d346696ce564415');
+  });
+
+  it('derives the implicit rejection key as J(z || c)', () => {
+    const stream = inputStream();
+    for (let i = 0; i < 5; i++) {
+      const { decapsulationKey } = MlKem768.keygen(stream.squeeze(64));
+      const invalidCiphertext = stream.squeeze(ML_KEM_CIPHERTEXT_BYTES);
+      // z is the last 32 bytes of the decapsulation key
+      const z = decapsulationKey.subarray(ML_KEM_DECAPSULATION_KEY_BYTES - 32);
+      const expected = createHash('shake256', { outputLength: 32 }).update(z).update(invalidCiphertext).digest('hex');
+      expect(hex(MlKem768.decapsulate(invalidCiphertext, decapsulationKey))).toBe(expected);
+    }
+  });
+
+  it('rejects a tampered ciphertext implicitly', () => {
+    const stream = inputStream();
+    const { encapsulationKey, decapsulationKey } = MlKem768.keygen(stream.squeeze(64));
+    const { ciphertext, sharedSecret } = MlKem768.encapsulate(encapsulationKey, stream.squeeze(32));
+    const tampered = ciphertext.slice();
+    tampered[ML_KEM_CIPHERTEXT_BYTES - 1] ^= 0x01;
+    expect(hex(MlKem768.decapsulate(tampered, decapsulationKey))).not.toBe(hex(sharedSecret));
+  });
+});
+
+describe('MlKem768 input checks', () => {
+  const { encapsulationKey, decapsulationKey } = MlKem768.keygen(inputStream().squeeze(64));
+
+  it('rejects encapsulation keys with coefficients of q or more', () => {
+    const invalid = encapsulationKey.slice();
+    invalid[0] = 0xff;
+    invalid[1] |= 0x0f; // First coefficient 0xfff
+    expect(MlKem768.isValidEncapsulationKey(invalid)).toBe(false);
+    expect(() => MlKem768.encapsulate(invalid)).toThrow('Invalid ML-KEM encapsulation key');
+  });
+
+  it('rejects malformed lengths', () => {
+    expect(MlKem768.isValidEncapsulationKey(encapsulationKey.subarray(1))).toBe(false);
+    expect(() => MlKem768.keygen(new Uint8Array(32))).toThrow();
+    expect(() => MlKem768.encapsulate(encapsulationKey, new Uint8Array(31))).toThrow();
+    expect(() => MlKem768.decapsulate(new Uint8Array(ML_KEM_CIPHERTEXT_BYTES - 1), decapsulationKey)).toThrow();
+  });
+
+  it('rejects a decapsulation key whose embedded hash does not match', () => {
+    const corrupt = decapsulationKey.slice();
+    corrupt[ML_KEM_DECAPSULATION_KEY_BYTES - 33] ^= 0x01;
+    expect(() => MlKem768.decapsulate(new Uint8Array(ML_KEM_CIPHERTEXT_BYTES), corrupt)).toThrow('Corrupt');
+  });
+});
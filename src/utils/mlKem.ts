@@ -0,0 +1,331 @@
+import { Keccak, sha3_256, sha3_512, shake256 } from './sha3';
+import { concatBytes } from './encoding';
+
+// ML-KEM-768 parameters (FIPS 203, section 8)
+const N = 256;
+const Q = 3329;
+const K = 3;
+const ETA1 = 2;
+const ETA2 = 2;
+const DU = 10;
+const DV = 4;
+const ZETA = 17;
+
+const POLY_BYTES = 384; // 256 coefficients of 12 bits
+export const ML_KEM_ENCAPSULATION_KEY_BYTES = POLY_BYTES * K + 32;
+export const ML_KEM_DECAPSULATION_KEY_BYTES = POLY_BYTES * K * 2 + 96;
+export const ML_KEM_CIPHERTEXT_BYTES = 32 * (DU * K + DV);
+export const ML_KEM_SHARED_SECRET_BYTES = 32;
+
+type Poly = Int32Array;
+
+export interface MlKemKeyPair {
+  encapsulationKey: Uint8Array;
+  decapsulationKey: Uint8Array;
+}
+
+export interface MlKemEncapsulation {
+  ciphertext: Uint8Array;
+  sharedSecret: Uint8Array;
+}
+
+function mod(a: number): number {
+  const r = a % Q;
+  return r < 0 ? r + Q : r;
+}
+
+function power(base: number, exponent: number): number {
+  let result = 1;
+  for (let i = 0; i < exponent; i++) {
+    result = (result * base) % Q;
+  }
+  return result;
+}
+
+function bitReverse7(i: number): number {
+  let r = 0;
+  for (let b = 0; b < 7; b++) {
+    r |= ((i >> b) & 1) << (6 - b);
+  }
+  return r;
+}
+
+// ζ^BitRev7(i) for the NTT, ζ^(2·BitRev7(i)+1) for base-case multiplication
+const NTT_ZETAS = Array.from({ length: 128 }, (_, i) => power(ZETA, bitReverse7(i)));
+const GAMMAS = Array.from({ length: 128 }, (_, i) => power(ZETA, 2 * bitReverse7(i) + 1));
+const INVERSE_N = 3303; // 128⁻¹ mod q
+
+function ntt(f: Poly): Poly {
+  const a = f.slice();
+  let i = 1;
+  for (let len = 128; len >= 2; len >>= 1) {
+    for (let start = 0; start < N; start += 2 * len) {
+      const zeta = NTT_ZETAS[i++];
+      for (let j = start; j < start + len; j++) {
+        const t = (zeta * a[j + len]) % Q;
+        a[j + len] = mod(a[j] - t);
+        a[j] = (a[j] + t) % Q;
+      }
+    }
+  }
+  return a;
+}
+
+function inverseNtt(f: Poly): Poly {
+  const a = f.slice();
+  let i = 127;
+  for (let len = 2; len <= 128; len <<= 1) {
+    for (let start = 0; start < N; start += 2 * len) {
+      const zeta = NTT_ZETAS[i--];
+      for (let j = start; j < start + len; j++) {
+        const t = a[j];
+        a[j] = (t + a[j + len]) % Q;
+        a[j + len] = (zeta * mod(a[j + len] - t)) % Q;
+      }
+    }
+  }
+  for (let j = 0; j < N; j++) {
+    a[j] = (a[j] * INVERSE_N) % Q;
+  }
+  return a;
+}
+
+function multiplyNtts(f: Poly, g: Poly): Poly {
+  const h = new Int32Array(N);
+  for (let i = 0; i < 128; i++) {
+    const [a0, a1, b0, b1] = [f[2 * i], f[2 * i + 1], g[2 * i], g[2 * i + 1]];
+    h[2 * i] = (a0 * b0 + ((a1 * b1) % Q) * GAMMAS[i]) % Q;
+    h[2 * i + 1] = (a0 * b1 + a1 * b0) % Q;
+  }
+  return h;
+}
+
+function add(f: Poly, g: Poly): Poly {
+  return f.map((x, i) => (x + g[i]) % Q);
+}
+
+function subtract(f: Poly, g: Poly): Poly {
+  return f.map((x, i) => mod(x - g[i]));
+}
+
+function compress(f: Poly, d: number): Poly {
+  return f.map(x => Math.floor(((x << d) + (Q >> 1)) / Q) & ((1 << d) - 1));
+}
+
+function decompress(f: Poly, d: number): Poly {
+  return f.map(y => (Q * y + (1 << (d - 1))) >> d);
+}
+
+// Little-endian packing of d-bit coefficients
+function byteEncode(f: Poly, d: number): Uint8Array {
+  const out = new Uint8Array(32 * d);
+  let buffer = 0;
+  let bits = 0;
+  let position = 0;
+  for (const x of f) {
+    buffer |= x << bits;
+    bits += d;
+    while (bits >= 8) {
+      out[position++] = buffer & 0xff;
+      buffer >>>= 8;
+      bits -= 8;
+    }
+  }
+  return out;
+}
+
+function byteDecode(bytes: Uint8Array, d: number): Poly {
+  const f = new Int32Array(N);
+  const mask = (1 << d) - 1;
+  let buffer = 0;
+  let bits = 0;
+  let position = 0;
+  for (let i = 0; i < N; i++) {
+    while (bits < d) {
+      buffer |= bytes[position++] << bits;
+      bits += 8;
+    }
+    f[i] = buffer & mask;
+    buffer >>>= d;
+    bits -= d;
+  }
+  return d === 12 ? f.map(mod) : f;
+}
+
+function encodeVector(v: Poly[], d: number): Uint8Array {
+  return concatBytes(...v.map(f => byteEncode(f, d)));
+}
+
+function decodeVector(bytes: Uint8Array, d: number): Poly[] {
+  return Array.from({ length: K }, (_, i) => byteDecode(bytes.subarray(32 * d * i, 32 * d * (i + 1)), d));
+}
+
+// Rejection-sample a polynomial in NTT form from SHAKE128(ρ || j || i)
+function sampleNtt(rho: Uint8Array, j: number, i: number): Poly {
+  const xof = Keccak.shake128().absorb(concatBytes(rho, new Uint8Array([j, i])));
+  const a = new Int32Array(N);
+  let count = 0;
+  while (count < N) {
+    const c = xof.squeeze(3);
+    const d1 = c[0] | ((c[1] & 0x0f) << 8);
+    const d2 = (c[1] >> 4) | (c[2] << 4);
+    if (d1 < Q) a[count++] = d1;
+    if (d2 < Q && count < N) a[count++] = d2;
+  }
+  return a;
+}
+
+// Centred binomial distribution over PRF_η(s, b) = SHAKE256(s || b)
+function sampleCbd(seed: Uint8Array, nonce: number, eta: number): Poly {
+  const bytes = shake256(concatBytes(seed, new Uint8Array([nonce])), 64 * eta);
+  const bit = (index: number) => (bytes[index >> 3] >> (index & 7)) & 1;
+  const f = new Int32Array(N);
+  for (let i = 0; i < N; i++) {
+    let x = 0;
+    let y = 0;
+    for (let j = 0; j < eta; j++) {
+      x += bit(2 * i * eta + j);
+      y += bit(2 * i * eta + eta + j);
+    }
+    f[i] = mod(x - y);
+  }
+  return f;
+}
+
+// Â[i][j], or its transpose
+function sampleMatrix(rho: Uint8Array, transpose: boolean): Poly[][] {
+  return Array.from({ length: K }, (_, i) =>
+    Array.from({ length: K }, (_, j) => (transpose ? sampleNtt(rho, i, j) : sampleNtt(rho, j, i)))
+  );
+}
+
+function dot(a: Poly[], b: Poly[]): Poly {
+  return a.reduce((sum, f, i) => add(sum, multiplyNtts(f, b[i])), new Int32Array(N));
+}
+
+function pkeKeyGen(d: Uint8Array): { ek: Uint8Array; dk: Uint8Array } {
+  const g = sha3_512(concatBytes(d, new Uint8Array([K])));
+  const rho = g.slice(0, 32);
+  const sigma = g.slice(32);
+  const matrix = sampleMatrix(rho, false);
+
+  let nonce = 0;
+  const s = Array.from({ length: K }, () => ntt(sampleCbd(sigma, nonce++, ETA1)));
+  const e = Array.from({ length: K }, () => ntt(sampleCbd(sigma, nonce++, ETA1)));
+  const t = matrix.map((row, i) => add(dot(row, s), e[i]));
+
+  return { ek: concatBytes(encodeVector(t, 12), rho), dk: encodeVector(s, 12) };
+}
+
+function pkeEncrypt(ek: Uint8Array, message: Uint8Array, randomness: Uint8Array): Uint8Array {
+  const t = decodeVector(ek.subarray(0, POLY_BYTES * K), 12);
+  const rho = ek.subarray(POLY_BYTES * K);
+  const matrix = sampleMatrix(rho, true);
+
+  let nonce = 0;
+  const y = Array.from({ length: K }, () => ntt(sampleCbd(randomness, nonce++, ETA1)));
+  const e1 = Array.from({ length: K }, () => sampleCbd(randomness, nonce++, ETA2));
+  const e2 = sampleCbd(randomness, nonce, ETA2);
+
+  const u = matrix.map((row, i) => add(inverseNtt(dot(row, y)), e1[i]));
+  const mu = decompress(byteDecode(message, 1), 1);
+  const v = add(add(inverseNtt(dot(t, y)), e2), mu);
+
+  return concatBytes(
+    encodeVector(u.map(f => compress(f, DU)), DU),
+    byteEncode(compress(v, DV), DV)
+  );
+}
+
+function pkeDecrypt(dk: Uint8Array, ciphertext: Uint8Array): Uint8Array {
+  const u = decodeVector(ciphertext.subarray(0, 32 * DU * K), DU).map(f => decompress(f, DU));
+  const v = decompress(byteDecode(ciphertext.subarray(32 * DU * K), DV), DV);
+  const s = decodeVector(dk, 12);
+  const w = subtract(v, inverseNtt(dot(s, u.map(ntt))));
+  return byteEncode(compress(w, 1), 1);
+}
+
+function randomBytes(length: number): Uint8Array {
+  return window.crypto.getRandomValues(new Uint8Array(length));
+}
+
+/**
+ * ML-KEM-768 (FIPS 203), a lattice KEM at roughly AES-192 strength. Pure
+ * TypeScript as WebCrypto has no post-quantum algorithms. Seeds and the
+ * encapsulation message can be passed in for known-answer testing.
+ */
+export class MlKem768 {
+  static keygen(seed: Uint8Array = randomBytes(64)): MlKemKeyPair {
+    if (seed.length !== 64) {
+      throw new Error('ML-KEM seed must be 64 bytes');
+    }
+    const z = seed.slice(32);
+    const { ek, dk } = pkeKeyGen(seed.slice(0, 32));
+    return {
+      encapsulationKey: ek,
+      decapsulationKey: concatBytes(dk, ek, sha3_256(ek), z)
+    };
+  }
+
+  static encapsulate(encapsulationKey: Uint8Array, message: Uint8Array = randomBytes(32)): MlKemEncapsulation {
+    if (!this.isValidEncapsulationKey(encapsulationKey)) {
+      throw new Error('Invalid ML-KEM encapsulation key');
+    }
+    if (message.length !== 32) {
+      throw new Error('ML-KEM message must be 32 bytes');
+    }
+    const g = sha3_512(concatBytes(message, sha3_256(encapsulationKey)));
+    return {
+      ciphertext: pkeEncrypt(encapsulationKey, message, g.slice(32)),
+      sharedSecret: g.slice(0, 32)
+    };
+  }
+
+  /**
+   * Implicit rejection: a tampered ciphertext yields a pseudorandom secret
+   * rather than an error, so the peer's keys simply won't match
+   */
+  static decapsulate(ciphertext: Uint8Array, decapsulationKey: Uint8Array): Uint8Array {
+    if (ciphertext.length !== ML_KEM_CIPHERTEXT_BYTES) {
+      throw new Error('Invalid ML-KEM ciphertext length');
+    }
+    if (decapsulationKey.length !== ML_KEM_DECAPSULATION_KEY_BYTES) {
+      throw new Error('Invalid ML-KEM decapsulation key length');
+    }
+
+    const pkeKey = decapsulationKey.subarray(0, POLY_BYTES * K);
+    const ek = decapsulationKey.subarray(POLY_BYTES * K, POLY_BYTES * K + ML_KEM_ENCAPSULATION_KEY_BYTES);
+    const h = decapsulationKey.subarray(POLY_BYTES * K + ML_KEM_ENCAPSULATION_KEY_BYTES, ML_KEM_DECAPSULATION_KEY_BYTES - 32);
+    const z = decapsulationKey.subarray(ML_KEM_DECAPSULATION_KEY_BYTES - 32);
+    if (!this.bytesEqual(sha3_256(ek), h)) {
+      throw new Error('Corrupt ML-KEM decapsulation key');
+    }
+
+    const message = pkeDecrypt(pkeKey, ciphertext);
+    const g = sha3_512(concatBytes(message, h));
+    const rejection = shake256(concatBytes(z, ciphertext), 32);
+    const reencrypted = pkeEncrypt(ek, message, g.slice(32));
+
+    // Select without branching on the comparison
+    const mask = this.bytesEqual(ciphertext, reencrypted) ? 0xff : 0x00;
+    return g.slice(0, 32).map((byte, i) => (byte & mask) | (rejection[i] & ~mask));
+  }
+
+  // Modulus check from FIPS 203 section 7.2: every coefficient must be below q
+  static isValidEncapsulationKey(key: Uint8Array): boolean {
+    if (key.length !== ML_KEM_ENCAPSULATION_KEY_BYTES) {
+      return false;
+    }
+    const encoded = key.subarray(0, POLY_BYTES * K);
+    return this.bytesEqual(encodeVector(decodeVector(encoded, 12), 12), encoded);
+  }
+
+  private static bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) {
+      diff |= a[i] ^ b[i];
+    }
+    return diff === 0;
+  }
+}
@@ -0,0 +1,38 @@
+import { createECDH } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { G, N, add, bigIntToBytes, decodePoint, encodePoint, multiply, negate } from './p256';
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+
+describe('P-256 arithmetic', () => {
+  it.each([1n, 2n, 3n, 0xdeadbeefn, N - 1n, 0x2ee57912099d31560b3a44b1184b9b4866e904c49d12ac5042c97dca461b1a5fn])(
+    'multiplies G by %s like Node',
+    scalar => {
+      const ecdh = createECDH('prime256v1');
+      ecdh.setPrivateKey(Buffer.from(bigIntToBytes(scalar)));
+      expect(hex(encodePoint(multiply(G, scalar)!))).toBe(ecdh.getPublicKey('hex', 'uncompressed'));
+    }
+  );
+
+  it('reaches the point at infinity at the group order', () => {
+    expect(multiply(G, N)).toBeNull();
+    expect(add(G, negate(G))).toBeNull();
+    expect(add(multiply(G, 2n), negate(G))).toEqual(G);
+  });
+
+  it('decodes compressed and uncompressed points', () => {
+    const point = multiply(G, 7n)!;
+    const ecdh = createECDH('prime256v1');
+    ecdh.setPrivateKey(Buffer.from(bigIntToBytes(7n)));
+    expect(decodePoint(encodePoint(point))).toEqual(point);
+    expect(decodePoint(ecdh.getPublicKey(null, 'compressed'))).toEqual(point);
+  });
+
+  it('rejects points off the curve and unknown encodings', () => {
+    const offCurve = encodePoint(G);
+    offCurve[64] ^= 0x01;
+    expect(() => decodePoint(offCurve)).toThrow('not on P-256');
+    expect(() => decodePoint(encodePoint(G).subarray(0, 64))).toThrow('Unsupported point encoding');
+    expect(() => decodePoint(new Uint8Array([0x00]))).toThrow('Unsupported point encoding');
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Minimal NIST P-256 arithmetic on BigInt, for protocols WebCrypto cannot
+ * express (point addition with arbitrary points, e.g. SPAKE2).
+ *
+ * BigInt operations are not constant time; only use this with ephemeral
+ * per-pairing secrets.
+ */
+
+export const P = 0xffffffff00000001000000000000000000000000ffffffffffffffffffffffffn;
+export const N = 0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551n;
+const A = P - 3n;
+const B = 0x5ac635d8aa3a93e7b3ebbd55769886bc651d06b0cc53b0f63bce3c3e27d2604bn;
+
+export interface Point {
+  x: bigint;
+  y: bigint;
+}
+
+// The point at infinity is represented as null
+export type CurvePoint = Point | null;
+
+export const G: Point = {
+  x: 0x6b17d1f2e12c4247f8bce6e563a440f277037d812deb33a0f4a13945d898c296n,
+  y: 0x4fe342e2fe1a7f9b8ee7eb4a7c0f9e162bce33576b315ececbb6406837bf51f5n
+};
+
+export function mod(a: bigint, m: bigint = P): bigint {
+  const result = a % m;
+  return result >= 0n ? result : result + m;
+}
+
+function modPow(base: bigint, exponent: bigint, m: bigint = P): bigint {
+  let result = 1n;
+  let b = mod(base, m);
+  let e = exponent;
+  while (e > 0n) {
+    if (e & 1n) {
+      result = (result * b) % m;
+    }
+    b = (b * b) % m;
+    e >>= 1n;
+  }
+  return result;
+}
+
+function modInverse(a: bigint, m: bigint = P): bigint {
+  // Fermat's little theorem; both P and N are prime
+  return modPow(a, m - 2n, m);
+}
+
+export function isOnCurve(point: Point): boolean {
+  if (point.x < 0n || point.x >= P || point.y < 0n || point.y >= P) {
+    return false;
+  }
+  const left = mod(point.y * point.y);
+  const right = mod(point.x * point.x * point.x + A * point.x + B);
+  return left === right;
+}
+
+export function negate(point: CurvePoint): CurvePoint {
+  return point ? { x: point.x, y: mod(-point.y) } : null;
+}
+
+export function add(p1: CurvePoint, p2: CurvePoint): CurvePoint {
+  if (!p1) return p2;
+  if (!p2) return p1;
+
+  let slope: bigint;
+  if (p1.x === p2.x) {
+    if (mod(p1.y + p2.y) === 0n) {
+      return null;
+    }
+    slope = mod((3n * p1.x * p1.x + A) * modInverse(2n * p1.y));
+  } else {
+    slope = mod((p2.y - p1.y) * modInverse(mod(p2.x - p1.x)));
+  }
+
+  const x = mod(slope * slope - p1.x - p2.x);
+  const y = mod(slope * (p1.x - x) - p1.y);
+  return { x, y };
+}
+
+export function multiply(point: CurvePoint, scalar: bigint): CurvePoint {
+  let result: CurvePoint = null;
+  let addend = point;
+  let k = mod(scalar, N);
+  while (k > 0n) {
+    if (k & 1n) {
+      result = add(result, addend);
+    }
+    addend = add(addend, addend);
+    k >>= 1n;
+  }
+  return result;
+}
+
+export function bytesToBigInt(bytes: Uint8Array): bigint {
+  let result = 0n;
+  for (const byte of bytes) {
+    result = (result << 8n) | BigInt(byte);
+  }
+  return result;
+}
+
+export function bigIntToBytes(value: bigint, length: number = 32): Uint8Array {
+  const bytes = new Uint8Array(length);
+  let v = value;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = Number(v & 0xffn);
+    v >>= 8n;
+  }
+  return bytes;
+}
+
+/**
+ * Uniformly random scalar in [1, N - 1]
+ */
+export function randomScalar(): bigint {
+  for (;;) {
+    const candidate = bytesToBigInt(window.crypto.getRandomValues(new Uint8Array(32)));
+    if (candidate > 0n && candidate < N) {
+      return candidate;
+    }
+  }
+}
+
+/**
+ * SEC1 uncompressed encoding (0x04 || x || y)
+ */
+export function encodePoint(point: Point): Uint8Array {
+  const bytes = new Uint8Array(65);
+  bytes[0] = 0x04;
+  bytes.set(bigIntToBytes(point.x), 1);
+  bytes.set(bigIntToBytes(point.y), 33);
+  return bytes;
+}
+
+/**
+ * Decode a SEC1 compressed or uncompressed point, rejecting anything that
+ * is not on the curve
+ */
+export function decodePoint(bytes: Uint8Array): Point {
+  if (bytes.length === 65 && bytes[0] === 0x04) {
+    const point = {
+      x: bytesToBigInt(bytes.slice(1, 33)),
+      y: bytesToBigInt(bytes.slice(33))
+    };
+    if (!isOnCurve(point)) {
+      throw new Error('Point is not on P-256');
+    }
+    return point;
+  }
+
+  if (bytes.length === 33 && (bytes[0] === 0x02 || bytes[0] === 0x03)) {
+    const x = bytesToBigInt(bytes.slice(1));
+    const ySquared = mod(x * x * x + A * x + B);
+    // P ≡ 3 (mod 4), so the square root is a single exponentiation
+    let y = modPow(ySquared, (P + 1n) / 4n);
+    if (mod(y * y) !== ySquared) {
+      throw new Error('Point is not on P-256');
+    }
+    if ((y & 1n) !== BigInt(bytes[0] & 1)) {
+      y = mod(-y);
+    }
+    return { x, y };
+  }
+
+  throw new Error('Unsupported point encoding');
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { PaddingPolicy } from '../types';
+import { MessagePadding } from './padding';
+
+const utf8Length = (text: string) => new TextEncoder().encode(text).length;
+
+// Reference Padmé from the paper, on integer bit operations
+function referencePadme(length: number): number {
+  if (length < 2) return length;
+  const exponent = 31 - Math.clz32(length);
+  const exponentBits = 32 - Math.clz32(exponent);
+  const mask = (1 << (exponent - exponentBits)) - 1;
+  return (length + mask) & ~mask;
+}
+
+describe('Padmé', () => {
+  it.each([
+    [0, 0],
+    [1, 1],
+    [2, 2],
+    [3, 3],
+    [4, 4],
+    [5, 5],
+    [8, 8],
+    [9, 10],
+    [16, 16],
+    [17, 18],
+    [32, 32],
+    [33, 36],
+    [64, 64],
+    [65, 72],
+    [256, 256],
+    [257, 272],
+    [1024, 1024],
+    [1025, 1088],
+    [65536, 65536],
+    [65537, 67584],
+    [2 ** 20, 2 ** 20],
+    [2 ** 20 + 1, 2 ** 20 + 2 ** 15]
+  ])('pads %i bytes to %i', (length, expected) => {
+    expect(MessagePadding.padme(length)).toBe(expected);
+  });
+
+  it('matches the reference and stays within 12% overhead', () => {
+    for (let length = 0; length <= 70000; length++) {
+      const padded = MessagePadding.padme(length);
+      expect(padded).toBe(referencePadme(length));
+      expect(padded).toBeGreaterThanOrEqual(length);
+      expect(padded - length).toBeLessThanOrEqual(Math.max(0, 0.12 * length));
+    }
+  });
+});
+
+describe('MessagePadding', () => {
+  const policies: PaddingPolicy[] = ['padme', 'block', 'none'];
+  const texts = ['x', 'ab', '{"a":1}', 'é', '€'.repeat(300), 'x'.repeat(1024), 'x'.repeat(1025), '{"emoji":"🔐"}'];
+
+  it.each(policies)('round-trips text under the %s policy', policy => {
+    for (const text of texts) {
+      const padded = MessagePadding.pad(text, 'text', policy);
+      expect(utf8Length(padded)).toBe(MessagePadding.paddedLength(utf8Length(text), 'text', policy));
+      expect(MessagePadding.unpad(padded)).toBe(text);
+    }
+  });
+
+  it('pads media to whole 64 KiB chunks', () => {
+    expect(MessagePadding.paddedLength(1, 'image', 'padme')).toBe(65536);
+    expect(MessagePadding.paddedLength(65536, 'document', 'block')).toBe(65536);
+    expect(MessagePadding.paddedLength(65537, 'audio', 'padme')).toBe(131072);
+    expect(MessagePadding.unpad(MessagePadding.pad('{"file":1}', 'document', 'padme'))).toBe('{"file":1}');
+  });
+
+  it('pads text to 1 KiB blocks under the block policy', () => {
+    expect(MessagePadding.paddedLength(0, 'text', 'block')).toBe(1024);
+    expect(MessagePadding.paddedLength(1024, 'text', 'block')).toBe(1024);
+    expect(MessagePadding.paddedLength(1025, 'text', 'block')).toBe(2048);
+  });
+
+  it('refuses plaintext ending in NUL', () => {
+    expect(() => MessagePadding.pad('x\0', 'text', 'padme')).toThrow('must not end with NUL');
+  });
+
+  it('rejects malformed padding', () => {
+    // No policy pads 9 bytes to 11
+    expect(() => MessagePadding.unpad('x'.repeat(9) + '\0\0')).toThrow('Malformed padding');
+    // Padding must be one trailing run
+    expect(() => MessagePadding.unpad('x\0x' + '\0'.repeat(1021))).toThrow('Malformed padding');
+    expect(() => MessagePadding.unpad('x\0x')).toThrow('Malformed padding');
+    // Nothing but padding
+    expect(() => MessagePadding.unpad('\0'.repeat(1024))).toThrow('Malformed padding');
+    // One block too many
+    expect(() => MessagePadding.unpad('x' + '\0'.repeat(2047))).toThrow('Malformed padding');
+  });
+});
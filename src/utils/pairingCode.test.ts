@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { PairingCode } from './pairingCode';
+
+describe('PairingCode', () => {
+  it('generates formatted codes that parse back', () => {
+    for (let i = 0; i < 50; i++) {
+      const code = PairingCode.generate();
+      expect(code).toMatch(/^[0-9A-HJKMNP-TV-Z]{4}-[0-9A-HJKMNP-TV-Z]{4}-[0-9A-HJKMNP-TV-Z]{4}$/);
+      const parsed = PairingCode.parse(code)!;
+      expect(PairingCode.format(parsed.locator + parsed.secret)).toBe(code);
+    }
+  });
+
+  it('splits a code into its locator and secret', () => {
+    expect(PairingCode.parse('7K2M-QX4T-9PDA')).toEqual({ locator: '7K2M', secret: 'QX4T9PDA' });
+  });
+
+  it('formats in groups of four', () => {
+    expect(PairingCode.format('7k2mqx4t9pda')).toBe('7K2M-QX4T-9PDA');
+    expect(PairingCode.format('7K2')).toBe('7K2');
+    expect(PairingCode.format('')).toBe('');
+  });
+
+  it('accepts lowercase, spaces and missing separators', () => {
+    const expected = PairingCode.parse('7K2M-QX4T-9PDA');
+    expect(PairingCode.parse('7k2mqx4t9pda')).toEqual(expected);
+    expect(PairingCode.parse(' 7K2M QX4T 9PDA ')).toEqual(expected);
+    expect(PairingCode.parse('7K2M--QX4T-9PDA')).toEqual(expected);
+  });
+
+  it('maps Crockford look-alikes to digits', () => {
+    expect(PairingCode.normalize('OoIiLl')).toBe('001111');
+    expect(PairingCode.parse('7K2M-QX4T-9PDO')).toEqual(PairingCode.parse('7K2M-QX4T-9PD0'));
+    expect(PairingCode.parse('IL2M-QX4T-9PDA')).toEqual({ locator: '112M', secret: 'QX4T9PDA' });
+    expect(PairingCode.format('il2m-qx4t-9pdo')).toBe('112M-QX4T-9PD0');
+  });
+
+  it('rejects codes of the wrong length or with characters outside the alphabet', () => {
+    expect(PairingCode.parse('7K2M-QX4T-9PD')).toBeNull();
+    expect(PairingCode.parse('7K2M-QX4T-9PDA-0')).toBeNull();
+    expect(PairingCode.parse('')).toBeNull();
+    expect(PairingCode.parse('7K2M-QX4T-9PDU')).toBeNull();
+    expect(PairingCode.parse('7K2M-QX4T-9PD!')).toBeNull();
+  });
+});
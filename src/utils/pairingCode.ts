@@ -0,0 +1,58 @@
+// Crockford base32: no I, L, O or U, so codes survive being read aloud
+const ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const LOCATOR_LENGTH = 4;
+const SECRET_LENGTH = 8; // 40 bits, only ever used as the SPAKE2 password
+const GROUP_LENGTH = 4;
+
+export interface ParsedPairingCode {
+  locator: string; // Public: names the room on the transport
+  secret: string; // Private: authenticates the key exchange, never sent
+}
+
+function randomCharacters(length: number): string {
+  // 256 is a multiple of 32, so masking keeps the distribution uniform
+  const bytes = window.crypto.getRandomValues(new Uint8Array(length));
+  return Array.from(bytes, byte => ALPHABET[byte & 31]).join('');
+}
+
+/**
+ * Pairing codes are a room locator followed by a secret, shown in groups
+ * of four, e.g. "7K2M-QX4T-9PDA"
+ */
+export class PairingCode {
+  static generate(): string {
+    return this.format(randomCharacters(LOCATOR_LENGTH + SECRET_LENGTH));
+  }
+
+  static format(code: string): string {
+    return this.normalize(code).match(new RegExp(`.{1,${GROUP_LENGTH}}`, 'g'))?.join('-') ?? '';
+  }
+
+  /**
+   * Uppercase, drop separators and map look-alike characters
+   */
+  static normalize(code: string): string {
+    return code
+      .toUpperCase()
+      .replace(/[\s-]/g, '')
+      .replace(/O/g, '0')
+      .replace(/[IL]/g, '1');
+  }
+
+  /**
+   * Split a typed code into its locator and secret, or null if malformed
+   */
+  static parse(code: string): ParsedPairingCode | null {
+    const normalized = this.normalize(code);
+    if (normalized.length !== LOCATOR_LENGTH + SECRET_LENGTH) {
+      return null;
+    }
+    if (![...normalized].every(char => ALPHABET.includes(char))) {
+      return null;
+    }
+    return {
+      locator: normalized.slice(0, LOCATOR_LENGTH),
+      secret: normalized.slice(LOCATOR_LENGTH)
+    };
+  }
+}
@@ -0,0 +1,62 @@
+import { CertificateRevocationList, RevocationReason, RevokedCertificate } from '../types';
+
+const STORAGE_KEY = 'cipher-crls';
+
+export const REVOCATION_REASON_LABELS: Record<RevocationReason, string> = {
+  unspecified: 'no reason given',
+  'key-compromise': 'private key compromised',
+  'ca-compromise': 'issuing CA compromised',
+  'affiliation-changed': 'affiliation changed',
+  superseded: 'replaced by a newer certificate',
+  'cessation-of-operation': 'no longer in use'
+};
+
+/**
+ * The latest verified revocation list of each CA, persisted in localStorage.
+ * Lists are checked by CertificateManager before they are stored here.
+ */
+export class RevocationStore {
+  private static instance: RevocationStore;
+  private lists = new Map<string, CertificateRevocationList>();
+
+  static getInstance(): RevocationStore {
+    if (!RevocationStore.instance) {
+      RevocationStore.instance = new RevocationStore();
+    }
+    return RevocationStore.instance;
+  }
+
+  private constructor() {
+    this.load();
+  }
+
+  getList(issuerId: string): CertificateRevocationList | null {
+    return this.lists.get(issuerId) || null;
+  }
+
+  /**
+   * Find a certificate in its issuer's revocation list
+   */
+  findRevoked(issuerId: string, fingerprint: string): RevokedCertificate | null {
+    return this.lists.get(issuerId)?.revoked.find(entry => entry.fingerprint === fingerprint) || null;
+  }
+
+  set(crl: CertificateRevocationList): void {
+    this.lists.set(crl.issuer, crl);
+    this.save();
+  }
+
+  private load(): void {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      const lists: CertificateRevocationList[] = stored ? JSON.parse(stored) : [];
+      lists.forEach(crl => this.lists.set(crl.issuer, crl));
+    } catch (error) {
+      console.error('Failed to load revocation lists:', error);
+    }
+  }
+
+  private save(): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Array.from(this.lists.values())));
+  }
+}
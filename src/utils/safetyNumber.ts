@@ -0,0 +1,57 @@
+import { base64ToArrayBuffer, concatBytes, stringToArrayBuffer } from './encoding';
+
+const FINGERPRINT_VERSION = 0;
+const FINGERPRINT_ITERATIONS = 5200;
+const DIGIT_GROUPS_PER_PARTY = 6;
+
+export interface SafetyNumber {
+  digits: string[]; // Twelve five-digit groups, identical on both devices
+  visual: Uint8Array; // SHA-256 over the combined fingerprint, for the identicon
+}
+
+/**
+ * Iterated SHA-512 fingerprint of one identity key (Signal's numeric
+ * fingerprint construction), rendered as five-digit groups
+ */
+async function fingerprintGroups(publicKey: string): Promise<string[]> {
+  const key = base64ToArrayBuffer(publicKey);
+  const version = new Uint8Array([FINGERPRINT_VERSION, 0]);
+  let hash = concatBytes(version, key, stringToArrayBuffer('cipher-identity'));
+
+  for (let i = 0; i < FINGERPRINT_ITERATIONS; i++) {
+    hash = new Uint8Array(
+      await window.crypto.subtle.digest('SHA-512', concatBytes(hash, key))
+    );
+  }
+
+  const groups: string[] = [];
+  for (let i = 0; i < DIGIT_GROUPS_PER_PARTY; i++) {
+    const chunk = hash.slice(i * 5, i * 5 + 5);
+    // 40-bit big-endian integer, reduced to five digits
+    const value = chunk.reduce((acc, byte) => acc * 256 + byte, 0) % 100000;
+    groups.push(value.toString().padStart(5, '0'));
+  }
+  return groups;
+}
+
+/**
+ * Compute the safety number over both parties' identity keys. The two
+ * halves are ordered so both peers see exactly the same number.
+ */
+export async function computeSafetyNumber(
+  ownPublicKey: string,
+  peerPublicKey: string
+): Promise<SafetyNumber> {
+  const [own, peer] = await Promise.all([
+    fingerprintGroups(ownPublicKey),
+    fingerprintGroups(peerPublicKey)
+  ]);
+
+  const [first, second] = own.join('') <= peer.join('') ? [own, peer] : [peer, own];
+  const digits = [...first, ...second];
+  const visual = new Uint8Array(
+    await window.crypto.subtle.digest('SHA-256', stringToArrayBuffer(digits.join('')))
+  );
+
+  return { digits, visual };
+}
@@ -0,0 +1,70 @@
+import { createHash } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { Keccak, sha3_256, sha3_512, shake128, shake256 } from './sha3';
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+const ABC_448 = 'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq';
+
+// NIST FIPS 202 examples
+describe('SHA-3 known answers', () => {
+  it('SHA3-256', () => {
+    expect(hex(sha3_256(bytes('')))).toBe('a7ffc6f8bf1ed76651c14756a061d662f580ff4de43b49fa82d80a4b80f8434a');
+    expect(hex(sha3_256(bytes('abc')))).toBe('3a985da74fe225b2045c172d6bd390bd855f086e3e9d525b46bfe24511431532');
+    expect(hex(sha3_256(bytes(ABC_448)))).toBe('41c0dba2a9d6240849100376a8235e2c82e1b9998a999e21db32dd97496d3376');
+    expect(hex(sha3_256(bytes('a'.repeat(1000000))))).toBe('5c8875ae474a3634ba4fd55ec85bffd661f32aca75c6d699d0cdcb6c115891c1');
+  });
+
+  it('SHA3-512', () => {
+    expect(hex(sha3_512(bytes('')))).toBe(
+      'a69f73cca23a9ac5c8b567dc185a756e97c982164fe25859e0d1dcc1475c80a6' +
+      '15b2123af1f5f94c11e3e9402c3ac558f500199d95b6d3e301758586281dcd26'
+    );
+    expect(hex(sha3_512(bytes('abc')))).toBe(
+      'b751850b1a57168a5693cd924b6b096e08f621827444f70d884f5d0240d2712e' +
+      '10e116e9192af3c91a7ec57647e3934057340b4cf408d5a56592f8274eec53f0'
+    );
+    expect(hex(sha3_512(bytes(ABC_448)))).toBe(
+      '04a371e84ecfb5b8b77cb48610fca8182dd457ce6f326a0fd3d7ec2f1e91636d' +
+      'ee691fbe0c985302ba1b0d8dc78c086346b533b49c030d99a27daf1139d6e75e'
+    );
+  });
+
+  it('SHAKE128', () => {
+    expect(hex(shake128(bytes(''), 32))).toBe('7f9c2ba4e88f827d616045507605853ed73b8093f6efbc88eb1a6eacfa66ef26');
+    expect(hex(shake128(bytes('abc'), 32))).toBe('5881092dd818bf5cf8a3ddb793fbcba74097d5c526a6d35f97b83351940f2cc8');
+  });
+
+  it('SHAKE256', () => {
+    expect(hex(shake256(bytes(''), 64))).toBe(
+      '46b9dd2b0ba88d13233b3feb743eeb243fcd52ea62b81b82b50c27646ed5762f' +
+      'd75dc4ddd8c0f200cb05019d67b592f6fc821c49479ab48640292eacb3b7c4be'
+    );
+    expect(hex(shake256(bytes('abc'), 64))).toBe(
+      '483366601360a8771c6863080cc4114d8db44530f8f1e1ee4f94ea37e78b5739' +
+      'd5a15bef186a5386c75744c0527e1faa9f8726e462a12a4feb06bd8801e751e4'
+    );
+  });
+});
+
+describe('SHA-3 against Node', () => {
+  // Every length around the SHAKE128, SHA3-256/SHAKE256 and SHA3-512 rates
+  const input = Uint8Array.from({ length: 400 }, (_, i) => (i * 7 + 3) & 0xff);
+  const lengths = [0, 1, 71, 72, 73, 135, 136, 137, 167, 168, 169, 335, 336, 337, 400];
+
+  it.each(lengths)('hashes %i bytes', length => {
+    const data = input.subarray(0, length);
+    expect(hex(sha3_256(data))).toBe(createHash('sha3-256').update(data).digest('hex'));
+    expect(hex(sha3_512(data))).toBe(createHash('sha3-512').update(data).digest('hex'));
+    expect(hex(shake128(data, 500))).toBe(createHash('shake128', { outputLength: 500 }).update(data).digest('hex'));
+    expect(hex(shake256(data, 500))).toBe(createHash('shake256', { outputLength: 500 }).update(data).digest('hex'));
+  });
+
+  it('absorbs and squeezes incrementally', () => {
+    const sponge = Keccak.shake128().absorb(input.subarray(0, 100)).absorb(input.subarray(100));
+    const output = [sponge.squeeze(1), sponge.squeeze(167), sponge.squeeze(200)];
+    expect(output.map(hex).join('')).toBe(createHash('shake128', { outputLength: 368 }).update(input).digest('hex'));
+    expect(() => sponge.absorb(input)).toThrow();
+  });
+});
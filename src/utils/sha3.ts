@@ -0,0 +1,166 @@
+// FIPS 202 SHA-3 and SHAKE. WebCrypto has neither, and ML-KEM needs both.
+
+// Keccak-f[1600] round constants, as [low, high] 32-bit halves
+const ROUND_CONSTANTS: [number, number][] = [
+  [0x00000001, 0x00000000], [0x00008082, 0x00000000], [0x0000808a, 0x80000000], [0x80008000, 0x80000000],
+  [0x0000808b, 0x00000000], [0x80000001, 0x00000000], [0x80008081, 0x80000000], [0x00008009, 0x80000000],
+  [0x0000008a, 0x00000000], [0x00000088, 0x00000000], [0x80008009, 0x00000000], [0x8000000a, 0x00000000],
+  [0x8000808b, 0x00000000], [0x0000008b, 0x80000000], [0x00008089, 0x80000000], [0x00008003, 0x80000000],
+  [0x00008002, 0x80000000], [0x00000080, 0x80000000], [0x0000800a, 0x00000000], [0x8000000a, 0x80000000],
+  [0x80008081, 0x80000000], [0x00008080, 0x80000000], [0x80000001, 0x00000000], [0x80008008, 0x80000000]
+];
+
+// Rotation offsets for lane x + 5y
+const ROTATIONS = [
+  0, 1, 62, 28, 27,
+  36, 44, 6, 55, 20,
+  3, 10, 43, 25, 39,
+  41, 45, 15, 21, 8,
+  18, 2, 61, 56, 14
+];
+
+// Domain separation suffixes, with the first padding bit
+const SHA3_SUFFIX = 0x06;
+const SHAKE_SUFFIX = 0x1f;
+
+/**
+ * Keccak sponge. Lanes are stored as pairs of 32-bit words (low, high) and
+ * bytes are mapped little-endian, independent of the host's byte order.
+ */
+export class Keccak {
+  private state = new Uint32Array(50);
+  private offset = 0; // Byte position within the current block
+  private squeezing = false;
+
+  constructor(
+    private readonly rate: number, // Block size in bytes
+    private readonly suffix: number
+  ) {}
+
+  static shake128(): Keccak {
+    return new Keccak(168, SHAKE_SUFFIX);
+  }
+
+  static shake256(): Keccak {
+    return new Keccak(136, SHAKE_SUFFIX);
+  }
+
+  absorb(data: Uint8Array): this {
+    if (this.squeezing) {
+      throw new Error('Cannot absorb after squeezing');
+    }
+    for (const byte of data) {
+      this.xorByte(this.offset, byte);
+      if (++this.offset === this.rate) {
+        this.permute();
+        this.offset = 0;
+      }
+    }
+    return this;
+  }
+
+  squeeze(length: number): Uint8Array {
+    if (!this.squeezing) {
+      this.xorByte(this.offset, this.suffix);
+      this.xorByte(this.rate - 1, 0x80);
+      this.permute();
+      this.offset = 0;
+      this.squeezing = true;
+    }
+
+    const output = new Uint8Array(length);
+    for (let i = 0; i < length; i++) {
+      if (this.offset === this.rate) {
+        this.permute();
+        this.offset = 0;
+      }
+      output[i] = (this.state[this.offset >> 2] >>> (8 * (this.offset & 3))) & 0xff;
+      this.offset++;
+    }
+    return output;
+  }
+
+  private xorByte(position: number, byte: number): void {
+    this.state[position >> 2] ^= byte << (8 * (position & 3));
+  }
+
+  private permute(): void {
+    const s = this.state;
+    const c = new Uint32Array(10);
+    const b = new Uint32Array(50);
+
+    for (const [roundLow, roundHigh] of ROUND_CONSTANTS) {
+      // θ
+      for (let x = 0; x < 5; x++) {
+        c[2 * x] = s[2 * x] ^ s[2 * x + 10] ^ s[2 * x + 20] ^ s[2 * x + 30] ^ s[2 * x + 40];
+        c[2 * x + 1] = s[2 * x + 1] ^ s[2 * x + 11] ^ s[2 * x + 21] ^ s[2 * x + 31] ^ s[2 * x + 41];
+      }
+      for (let x = 0; x < 5; x++) {
+        const prev = (x + 4) % 5;
+        const next = (x + 1) % 5;
+        const dLow = c[2 * prev] ^ ((c[2 * next] << 1) | (c[2 * next + 1] >>> 31));
+        const dHigh = c[2 * prev + 1] ^ ((c[2 * next + 1] << 1) | (c[2 * next] >>> 31));
+        for (let y = 0; y < 25; y += 5) {
+          s[2 * (x + y)] ^= dLow;
+          s[2 * (x + y) + 1] ^= dHigh;
+        }
+      }
+
+      // ρ and π
+      for (let x = 0; x < 5; x++) {
+        for (let y = 0; y < 5; y++) {
+          const lane = x + 5 * y;
+          const target = y + 5 * ((2 * x + 3 * y) % 5);
+          const [low, high] = rotate(s[2 * lane], s[2 * lane + 1], ROTATIONS[lane]);
+          b[2 * target] = low;
+          b[2 * target + 1] = high;
+        }
+      }
+
+      // χ
+      for (let y = 0; y < 25; y += 5) {
+        for (let x = 0; x < 5; x++) {
+          const lane = 2 * (x + y);
+          const next = 2 * (((x + 1) % 5) + y);
+          const afterNext = 2 * (((x + 2) % 5) + y);
+          s[lane] = b[lane] ^ (~b[next] & b[afterNext]);
+          s[lane + 1] = b[lane + 1] ^ (~b[next + 1] & b[afterNext + 1]);
+        }
+      }
+
+      // ι
+      s[0] ^= roundLow;
+      s[1] ^= roundHigh;
+    }
+  }
+}
+
+// Rotate a 64-bit lane left
+function rotate(low: number, high: number, n: number): [number, number] {
+  if (n === 0) return [low, high];
+  if (n === 32) return [high, low];
+  if (n > 32) {
+    [low, high] = [high, low];
+    n -= 32;
+  }
+  return [
+    ((low << n) | (high >>> (32 - n))) >>> 0,
+    ((high << n) | (low >>> (32 - n))) >>> 0
+  ];
+}
+
+export function sha3_256(data: Uint8Array): Uint8Array {
+  return new Keccak(136, SHA3_SUFFIX).absorb(data).squeeze(32);
+}
+
+export function sha3_512(data: Uint8Array): Uint8Array {
+  return new Keccak(72, SHA3_SUFFIX).absorb(data).squeeze(64);
+}
+
+export function shake128(data: Uint8Array, length: number): Uint8Array {
+  return Keccak.shake128().absorb(data).squeeze(length);
+}
+
+export function shake256(data: Uint8Array, length: number): Uint8Array {
+  return Keccak.shake256().absorb(data).squeeze(length);
+}
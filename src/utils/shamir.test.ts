@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { SecretShare, Shamir } from './shamir';
+
+const secret = Uint8Array.from({ length: 32 }, (_, i) => (i * 37 + 11) & 0xff);
+
+// Every k-element subset of items
+function subsets<T>(items: T[], k: number): T[][] {
+  if (k === 0) return [[]];
+  return items.flatMap((item, i) => subsets(items.slice(i + 1), k - 1).map(rest => [item, ...rest]));
+}
+
+describe('Shamir', () => {
+  it('combines hand-computed shares over the AES field', () => {
+    // y = 0x42 + 0x57·x, with 0x57·0x83 = 0xc1 as in FIPS 197
+    const shares = [
+      { index: 0x01, data: new Uint8Array([0x42 ^ 0x57]) },
+      { index: 0x83, data: new Uint8Array([0x42 ^ 0xc1]) }
+    ];
+    expect(Shamir.combine(shares)).toEqual(new Uint8Array([0x42]));
+  });
+
+  it.each([[2, 2], [2, 3], [3, 5], [5, 5]])('rebuilds the secret from any %i of %i shares', (threshold, total) => {
+    const shares = Shamir.split(secret, threshold, total);
+    expect(shares.map(share => share.index)).toEqual(Array.from({ length: total }, (_, i) => i + 1));
+    for (let k = threshold; k <= total; k++) {
+      for (const subset of subsets(shares, k)) {
+        expect(Shamir.combine(subset)).toEqual(secret);
+        expect(Shamir.combine([...subset].reverse())).toEqual(secret);
+      }
+    }
+  });
+
+  it('does not rebuild the secret from one share fewer than the threshold', () => {
+    const shares = Shamir.split(secret, 3, 5);
+    for (const subset of subsets(shares, 2)) {
+      expect(Shamir.combine(subset)).not.toEqual(secret);
+    }
+  });
+
+  it('splits into as many as 255 shares', () => {
+    const shares = Shamir.split(secret, 2, 255);
+    expect(Shamir.combine([shares[0], shares[254]])).toEqual(secret);
+  });
+
+  it('rejects impossible thresholds', () => {
+    for (const [threshold, total] of [[1, 3], [4, 3], [2, 256], [2.5, 3], [0, 0]]) {
+      expect(() => Shamir.split(secret, threshold, total)).toThrow(RangeError);
+    }
+  });
+
+  it('rejects duplicate and malformed shares', () => {
+    const [first, second, third] = Shamir.split(secret, 3, 5);
+    const malformed: SecretShare[][] = [
+      [],
+      [first, first, second],
+      [first, { ...second, index: first.index }, third],
+      [first, second, { ...third, data: third.data.subarray(1) }],
+      [first, second, { ...third, index: 0 }],
+      [first, second, { ...third, index: 256 }],
+      [first, second, { ...third, index: 2.5 }]
+    ];
+    for (const shares of malformed) {
+      expect(() => Shamir.combine(shares)).toThrow(RangeError);
+    }
+  });
+});
@@ -0,0 +1,95 @@
+// Shamir secret sharing over GF(2^8), byte by byte, with the AES field
+// polynomial x^8 + x^4 + x^3 + x + 1
+
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+{
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = x;
+    LOG[x] = i;
+    // Multiply by the generator 3
+    x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0);
+  }
+  // Doubled so products never need a modulo
+  for (let i = 255; i < 510; i++) {
+    EXP[i] = EXP[i - 255];
+  }
+}
+
+function multiply(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+function divide(a: number, b: number): number {
+  if (b === 0) throw new RangeError('Division by zero');
+  return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]];
+}
+
+export interface SecretShare {
+  index: number; // x-coordinate, 1-255
+  data: Uint8Array; // One polynomial value per secret byte
+}
+
+/**
+ * Split a secret so that any threshold of the shares rebuild it and fewer
+ * reveal nothing about it
+ */
+export class Shamir {
+  static readonly maxShares = 255;
+
+  static split(secret: Uint8Array, threshold: number, total: number): SecretShare[] {
+    if (!Number.isInteger(threshold) || !Number.isInteger(total) || threshold < 2 || threshold > total || total > this.maxShares) {
+      throw new RangeError(`Cannot split into ${threshold}-of-${total} shares`);
+    }
+
+    // Random coefficients for every byte; the constant term is the secret
+    const coefficients = window.crypto.getRandomValues(new Uint8Array(secret.length * (threshold - 1)));
+    const shares: SecretShare[] = [];
+    for (let x = 1; x <= total; x++) {
+      const data = new Uint8Array(secret.length);
+      for (let i = 0; i < secret.length; i++) {
+        // Horner's rule, highest coefficient first
+        let y = 0;
+        for (let j = threshold - 2; j >= 0; j--) {
+          y = multiply(y, x) ^ coefficients[i * (threshold - 1) + j];
+        }
+        data[i] = multiply(y, x) ^ secret[i];
+      }
+      shares.push({ index: x, data });
+    }
+
+    coefficients.fill(0);
+    return shares;
+  }
+
+  /**
+   * Rebuild the secret by Lagrange interpolation at zero. Given fewer shares
+   * than the threshold this silently yields a wrong value, so callers must
+   * check the result.
+   */
+  static combine(shares: SecretShare[]): Uint8Array {
+    if (shares.length === 0) {
+      throw new RangeError('No shares to combine');
+    }
+    const length = shares[0].data.length;
+    const indices = new Set(shares.map(share => share.index));
+    if (indices.size !== shares.length || shares.some(share =>
+      share.data.length !== length || !Number.isInteger(share.index) || share.index < 1 || share.index > this.maxShares
+    )) {
+      throw new RangeError('Shares must have distinct indices and equal lengths');
+    }
+
+    // Lagrange basis polynomials evaluated at zero
+    const weights = shares.map((share, i) => shares.reduce(
+      (weight, other, j) => (i === j ? weight : multiply(weight, divide(other.index, other.index ^ share.index))),
+      1
+    ));
+
+    const secret = new Uint8Array(length);
+    for (let i = 0; i < length; i++) {
+      secret[i] = shares.reduce((value, share, s) => value ^ multiply(share.data[i], weights[s]), 0);
+    }
+    return secret;
+  }
+}
@@ -0,0 +1,93 @@
+import { ShortAuthString } from '../types';
+import { arrayBufferToBase64, base64ToArrayBuffer, concatBytes, stringToArrayBuffer } from './encoding';
+
+const SAS_INFO = 'cipher-sas';
+const CONFIRM_LABEL = 'cipher-sas-confirm';
+const EMOJI_COUNT = 4;
+
+// 64 symbols, so each one carries 6 bits
+const SAS_EMOJI: ShortAuthString['emoji'] = [
+  ['🐶', 'Dog'], ['🐱', 'Cat'], ['🦁', 'Lion'], ['🐎', 'Horse'],
+  ['🦄', 'Unicorn'], ['🐷', 'Pig'], ['🐘', 'Elephant'], ['🐰', 'Rabbit'],
+  ['🐼', 'Panda'], ['🐓', 'Rooster'], ['🐧', 'Penguin'], ['🐢', 'Turtle'],
+  ['🐟', 'Fish'], ['🐙', 'Octopus'], ['🦋', 'Butterfly'], ['🌷', 'Flower'],
+  ['🌳', 'Tree'], ['🌵', 'Cactus'], ['🍄', 'Mushroom'], ['🌏', 'Globe'],
+  ['🌙', 'Moon'], ['☁️', 'Cloud'], ['🔥', 'Fire'], ['🍌', 'Banana'],
+  ['🍎', 'Apple'], ['🍓', 'Strawberry'], ['🌽', 'Corn'], ['🍕', 'Pizza'],
+  ['🎂', 'Cake'], ['❤️', 'Heart'], ['😀', 'Smiley'], ['🤖', 'Robot'],
+  ['🎩', 'Hat'], ['👓', 'Glasses'], ['🔧', 'Spanner'], ['🎅', 'Santa'],
+  ['👍', 'Thumbs up'], ['☂️', 'Umbrella'], ['⌛', 'Hourglass'], ['⏰', 'Clock'],
+  ['🎁', 'Gift'], ['💡', 'Light bulb'], ['📕', 'Book'], ['✏️', 'Pencil'],
+  ['📎', 'Paperclip'], ['✂️', 'Scissors'], ['🔒', 'Lock'], ['🔑', 'Key'],
+  ['🔨', 'Hammer'], ['☎️', 'Telephone'], ['🏁', 'Flag'], ['🚂', 'Train'],
+  ['🚲', 'Bicycle'], ['✈️', 'Aeroplane'], ['🚀', 'Rocket'], ['🏆', 'Trophy'],
+  ['⚽', 'Ball'], ['🎸', 'Guitar'], ['🎺', 'Trumpet'], ['🔔', 'Bell'],
+  ['⚓', 'Anchor'], ['🎧', 'Headphones'], ['📁', 'Folder'], ['📌', 'Pin']
+].map(([symbol, name]) => ({ symbol, name }));
+
+export type SasRole = 'joiner' | 'creator';
+
+export interface SasExchange {
+  sas: ShortAuthString;
+  confirmation: string; // Our MAC, sent once our user confirms (Base64)
+  verifyPeer: (confirmation: string) => Promise<boolean>;
+}
+
+async function hmacKey(raw: Uint8Array, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  return window.crypto.subtle.importKey('raw', raw, { name: 'HMAC', hash: 'SHA-256' }, false, [usage]);
+}
+
+/**
+ * Derive the short authenticated string from the PAKE session key and the
+ * handshake transcript. A relay that ran separate handshakes with each side
+ * ends up with different session keys, so the two screens would disagree.
+ * Also derives per-side keys for authenticating the users' confirmations.
+ */
+export async function deriveShortAuthString(
+  sessionKey: Uint8Array,
+  transcript: Uint8Array,
+  role: SasRole
+): Promise<SasExchange> {
+  const keyMaterial = await window.crypto.subtle.importKey('raw', sessionKey, 'HKDF', false, ['deriveBits']);
+  const bytes = new Uint8Array(await window.crypto.subtle.deriveBits(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new Uint8Array(),
+      info: concatBytes(stringToArrayBuffer(SAS_INFO), transcript)
+    },
+    keyMaterial,
+    (3 + 4 + 32 + 32) * 8
+  ));
+
+  // 24 bits, six per emoji
+  const emojiBits = (bytes[0] << 16) | (bytes[1] << 8) | bytes[2];
+  const emoji = Array.from({ length: EMOJI_COUNT }, (_, i) =>
+    SAS_EMOJI[(emojiBits >> (18 - i * 6)) & 0x3f]
+  );
+  const number = new DataView(bytes.buffer, 3, 4).getUint32(0) % 1000000;
+  const digits = number.toString().padStart(6, '0');
+
+  const joinerKey = bytes.slice(7, 39);
+  const creatorKey = bytes.slice(39, 71);
+  const [ownKey, peerKey] = role === 'joiner' ? [joinerKey, creatorKey] : [creatorKey, joinerKey];
+  const label = stringToArrayBuffer(CONFIRM_LABEL);
+
+  const confirmation = arrayBufferToBase64(
+    await window.crypto.subtle.sign('HMAC', await hmacKey(ownKey, 'sign'), label)
+  );
+  const peerVerifyKey = await hmacKey(peerKey, 'verify');
+  bytes.fill(0);
+
+  return {
+    sas: { emoji, digits },
+    confirmation,
+    verifyPeer: async (peerConfirmation: string) => {
+      try {
+        return await window.crypto.subtle.verify('HMAC', peerVerifyKey, base64ToArrayBuffer(peerConfirmation), label);
+      } catch {
+        return false;
+      }
+    }
+  };
+}
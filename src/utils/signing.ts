@@ -1,4 +1,7 @@
 import { arrayBufferToBase64, base64ToArrayBuffer } from './encoding';
+import { CANONICAL_SIGNATURE_FORMAT, CanonicalJson } from './canonicalJson';
+import { CryptoSuites } from './cryptoSuites';
+import { CertificateManager } from './certificates';
 import { SigningKeyPair, DocumentSignature, Certificate } from '../types';
 
 /**
@@ -6,17 +9,14 @@ import { SigningKeyPair, DocumentSignature, Certificate } from '../types';
  */
 export class DigitalSigner {
   /**
-   * Sign data with ECDSA private key
+   * Sign data with an ECDSA or Ed25519 private key
    */
   static async signData(data: string, privateKey: CryptoKey): Promise<string> {
     const encoder = new TextEncoder();
     const dataBuffer = encoder.encode(data);
 
     const signature = await window.crypto.subtle.sign(
-      {
-        name: 'ECDSA',
-        hash: 'SHA-256'
-      },
+      CryptoSuites.signatureParams(privateKey),
       privateKey,
       dataBuffer
     );
@@ -25,7 +25,7 @@ export class DigitalSigner {
   }
 
   /**
-   * Verify data signature with ECDSA public key
+   * Verify data signature with an ECDSA or Ed25519 public key
    */
   static async verifySignature(
     data: string,
@@ -38,10 +38,7 @@ export class DigitalSigner {
       const signatureBuffer = base64ToArrayBuffer(signature);
 
       return await window.crypto.subtle.verify(
-        {
-          name: 'ECDSA',
-          hash: 'SHA-256'
-        },
+        CryptoSuites.signatureParams(publicKey),
         publicKey,
         signatureBuffer,
         dataBuffer
@@ -62,26 +59,48 @@ export class DigitalSigner {
   }
 
   /**
-   * Sign a document
+   * Sign a document with a key whose certificate allows document signing
    */
   static async signDocument(
     file: File,
     privateKey: CryptoKey,
     certificate: Certificate
   ): Promise<DocumentSignature> {
-    const documentHash = await this.hashDocument(file);
-    const signature = await this.signData(documentHash, privateKey);
+    if (!CertificateManager.allowsKeyUsage(certificate, 'document-signing')) {
+      throw new Error('This certificate is not for signing documents');
+    }
 
-    return {
-      documentHash,
-      signature,
+    const unsigned = {
+      documentHash: await this.hashDocument(file),
       certificate,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      format: CANONICAL_SIGNATURE_FORMAT
     };
+    const signature = await this.signData(this.signedPayload(unsigned), privateKey);
+
+    return { ...unsigned, signature };
+  }
+
+  /**
+   * What a document signature covers. Legacy signatures cover only the hash;
+   * format 2 also binds the signing time and the signer's key.
+   */
+  private static signedPayload(documentSignature: Omit<DocumentSignature, 'signature'>): string {
+    if (documentSignature.format !== CANONICAL_SIGNATURE_FORMAT) {
+      return documentSignature.documentHash;
+    }
+
+    return CanonicalJson.stringify({
+      documentHash: documentSignature.documentHash,
+      timestamp: documentSignature.timestamp,
+      signerKey: documentSignature.certificate.publicKey,
+      format: documentSignature.format
+    });
   }
 
   /**
-   * Verify a document signature
+   * Verify a document signature. Signatures by certificates that do not
+   * allow document signing are rejected.
    */
   static async verifyDocumentSignature(
     file: File,
@@ -89,6 +108,10 @@ export class DigitalSigner {
     publicKey: CryptoKey
   ): Promise<boolean> {
     try {
+      if (!CertificateManager.allowsKeyUsage(documentSignature.certificate, 'document-signing')) {
+        return false;
+      }
+
       // Verify the document hash matches
       const currentHash = await this.hashDocument(file);
       if (currentHash !== documentSignature.documentHash) {
@@ -97,7 +120,7 @@ export class DigitalSigner {
 
       // Verify the signature
       return await this.verifySignature(
-        documentSignature.documentHash,
+        this.signedPayload(documentSignature),
         documentSignature.signature,
         publicKey
       );
@@ -113,7 +136,7 @@ export class DigitalSigner {
   static createSignatureFile(documentSignature: DocumentSignature): Blob {
     const signatureData = {
       version: '1.0',
-      algorithm: 'ECDSA-SHA256',
+      algorithm: documentSignature.certificate.suite === 'x25519-ed25519' ? 'Ed25519' : 'ECDSA-SHA256',
       ...documentSignature
     };
 
@@ -135,7 +158,8 @@ export class DigitalSigner {
           documentHash: data.documentHash,
           signature: data.signature,
           certificate: data.certificate,
-          timestamp: data.timestamp || Date.now()
+          timestamp: data.timestamp || Date.now(),
+          ...(data.format !== undefined && { format: data.format })
         };
       }
       
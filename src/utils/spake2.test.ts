@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { Spake2, Spake2Identities } from './spake2';
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+const base64 = (hexString: string) => Buffer.from(hexString, 'hex').toString('base64');
+
+// RFC 9382 Appendix B, SPAKE2-P256-SHA256-HKDF-HMAC, A = "server", B = "client"
+const RFC_9382 = {
+  identities: { a: 'server', b: 'client' } as Spake2Identities,
+  w: 0x2ee57912099d31560b3a44b1184b9b4866e904c49d12ac5042c97dca461b1a5fn,
+  x: 0x43dd0fd7215bdcb482879fca3220c6a968e66d70b1356cac18bb26c84a78d729n,
+  y: 0xdcb60106f276b02606d8ef0a328c02e4b629f84f89786af5befb0bc75b6e66ben,
+  pA: '04a56fa807caaa53a4d28dbb9853b9815c61a411118a6fe516a8798434751470f9' +
+    '010153ac33d0d5f2047ffdb1a3e42c9b4e6be662766e1eeb4116988ede5f912c',
+  pB: '0406557e482bd03097ad0cbaa5df82115460d951e3451962f1eaf4367a420676d0' +
+    '9857ccbc522686c83d1852abfa8ed6e4a1155cf8f1543ceca528afb591a1e0b7',
+  Ke: '0e0672dc86f8e45565d338b0540abe69',
+  macA: '58ad4aa88e0b60d5061eb6b5dd93e80d9c4f00d127c65b3b35b1b5281fee38f0',
+  macB: 'd3e2e547f1ae04f2dbdbf0fc4b79f8ecff2dff314b5d32fe9fcef2fb26dc459b'
+};
+
+const NO_ASSOCIATED_DATA = new Uint8Array();
+
+describe('Spake2 against RFC 9382', () => {
+  const a = Spake2.fromScalars('A', RFC_9382.w, RFC_9382.x, RFC_9382.identities);
+  const b = Spake2.fromScalars('B', RFC_9382.w, RFC_9382.y, RFC_9382.identities);
+
+  it('computes pA and pB', () => {
+    expect(hex(a.message)).toBe(RFC_9382.pA);
+    expect(hex(b.message)).toBe(RFC_9382.pB);
+  });
+
+  it('derives Ke and the confirmation MACs for A', async () => {
+    const result = await a.finish(base64(RFC_9382.pB), NO_ASSOCIATED_DATA);
+    expect(hex(result.sessionKey)).toBe(RFC_9382.Ke);
+    expect(result.confirmation).toBe(base64(RFC_9382.macA));
+    expect(await result.verifyPeer(base64(RFC_9382.macB))).toBe(true);
+    expect(await result.verifyPeer(base64(RFC_9382.macA))).toBe(false);
+  });
+
+  it('derives Ke and the confirmation MACs for B', async () => {
+    const result = await b.finish(base64(RFC_9382.pA), NO_ASSOCIATED_DATA);
+    expect(hex(result.sessionKey)).toBe(RFC_9382.Ke);
+    expect(result.confirmation).toBe(base64(RFC_9382.macB));
+    expect(await result.verifyPeer(base64(RFC_9382.macA))).toBe(true);
+  });
+});
+
+describe('Spake2 pairing', () => {
+  async function exchange(joinerCode: string, creatorCode: string, joinerData = 'offer', creatorData = 'offer') {
+    const [joiner, creator] = await Promise.all([
+      Spake2.start('A', joinerCode, 'ROOM'),
+      Spake2.start('B', creatorCode, 'ROOM')
+    ]);
+    const encoder = new TextEncoder();
+    const joinerResult = await joiner.finish(creator.messageBase64, encoder.encode(joinerData));
+    const creatorResult = await creator.finish(joiner.messageBase64, encoder.encode(creatorData));
+    return { joinerResult, creatorResult };
+  }
+
+  it('agrees on a session key when both sides use the same code', async () => {
+    const { joinerResult, creatorResult } = await exchange('QX4T9PDA', 'QX4T9PDA');
+    expect(joinerResult.sessionKey).toEqual(creatorResult.sessionKey);
+    expect(await joinerResult.verifyPeer(creatorResult.confirmation)).toBe(true);
+    expect(await creatorResult.verifyPeer(joinerResult.confirmation)).toBe(true);
+  });
+
+  it('fails key confirmation with a wrong code', async () => {
+    const { joinerResult, creatorResult } = await exchange('QX4T9PDA', 'QX4T9PDB');
+    expect(joinerResult.sessionKey).not.toEqual(creatorResult.sessionKey);
+    expect(await joinerResult.verifyPeer(creatorResult.confirmation)).toBe(false);
+    expect(await creatorResult.verifyPeer(joinerResult.confirmation)).toBe(false);
+  });
+
+  it('fails key confirmation when the associated data differs', async () => {
+    const { joinerResult, creatorResult } = await exchange('QX4T9PDA', 'QX4T9PDA', 'offer', 'swapped offer');
+    expect(await joinerResult.verifyPeer(creatorResult.confirmation)).toBe(false);
+    expect(await creatorResult.verifyPeer(joinerResult.confirmation)).toBe(false);
+  });
+
+  it('rejects malformed peer messages and confirmations', async () => {
+    const joiner = Spake2.fromScalars('A', RFC_9382.w, RFC_9382.x);
+    const offCurve = Buffer.from(RFC_9382.pB, 'hex');
+    offCurve[64] ^= 0x01;
+    await expect(joiner.finish(offCurve.toString('base64'), NO_ASSOCIATED_DATA)).rejects.toThrow('not on P-256');
+
+    const result = await joiner.finish(base64(RFC_9382.pB), NO_ASSOCIATED_DATA);
+    expect(await result.verifyPeer('not base64!')).toBe(false);
+    expect(await result.verifyPeer('')).toBe(false);
+  });
+});
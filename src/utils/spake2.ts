@@ -0,0 +1,203 @@
+import {
+  G,
+  N,
+  CurvePoint,
+  Point,
+  add,
+  bigIntToBytes,
+  bytesToBigInt,
+  decodePoint,
+  encodePoint,
+  multiply,
+  negate,
+  randomScalar
+} from './p256';
+import { arrayBufferToBase64, base64ToArrayBuffer, concatBytes, stringToArrayBuffer } from './encoding';
+
+// RFC 9382 fixed points for P-256, in SEC1 compressed form
+const M = decodePoint(hexToBytes('02886e2f97ace46e55ba9dd7242579f2993b64e16ef3dcab95afd497333d8fa12f'));
+const N_POINT = decodePoint(hexToBytes('03d8bbd6c639c62937b04d997f38c3770719c629d7014d49a24b4f98baa1292b49'));
+
+const PASSWORD_ITERATIONS = 100000;
+
+// Party identities bound into the transcript: A is the joiner, B the creator
+const IDENTITIES: Spake2Identities = { a: 'cipher-joiner', b: 'cipher-creator' };
+
+function hexToBytes(hex: string): Uint8Array {
+  return new Uint8Array((hex.match(/../g) ?? []).map(byte => parseInt(byte, 16)));
+}
+
+// 8-byte little-endian length prefix, as in the RFC 9382 transcript
+function lengthPrefixed(bytes: Uint8Array): Uint8Array {
+  const prefix = new Uint8Array(8);
+  new DataView(prefix.buffer).setUint32(0, bytes.length, true);
+  return concatBytes(prefix, bytes);
+}
+
+async function hmac(key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  const hmacKey = await window.crypto.subtle.importKey(
+    'raw',
+    key,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return new Uint8Array(await window.crypto.subtle.sign('HMAC', hmacKey, data));
+}
+
+/**
+ * Constant-time comparison of two MACs
+ */
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
+export type Spake2Role = 'A' | 'B';
+
+export interface Spake2Identities {
+  a: string;
+  b: string;
+}
+
+export interface Spake2Result {
+  sessionKey: Uint8Array; // Ke: mixed into the session secret
+  confirmation: string; // Our key confirmation MAC (Base64)
+  verifyPeer: (confirmation: string) => Promise<boolean>;
+}
+
+/**
+ * SPAKE2 (RFC 9382) over P-256 with SHA-256, HKDF and HMAC.
+ *
+ * The pairing code's secret part is the password. Someone who only watches
+ * the exchange learns nothing that lets them test password guesses offline,
+ * and an active attacker gets one guess per pairing attempt. The caller's
+ * associated data is bound into the key confirmation, so the handshake keys
+ * and certificates exchanged alongside cannot be swapped.
+ */
+export class Spake2 {
+  private constructor(
+    private readonly role: Spake2Role,
+    private readonly w: bigint,
+    private readonly x: bigint,
+    private readonly identities: Spake2Identities,
+    readonly message: Uint8Array
+  ) {}
+
+  /**
+   * Derive the password scalar w from the code secret, salted per room
+   */
+  static async passwordScalar(password: string, context: string): Promise<bigint> {
+    const keyMaterial = await window.crypto.subtle.importKey(
+      'raw',
+      stringToArrayBuffer(password),
+      'PBKDF2',
+      false,
+      ['deriveBits']
+    );
+
+    // 320 bits so the reduction mod N is unbiased
+    const bits = await window.crypto.subtle.deriveBits(
+      {
+        name: 'PBKDF2',
+        hash: 'SHA-256',
+        salt: stringToArrayBuffer(`cipher-spake2:${context}`),
+        iterations: PASSWORD_ITERATIONS
+      },
+      keyMaterial,
+      320
+    );
+
+    return bytesToBigInt(new Uint8Array(bits)) % N;
+  }
+
+  /**
+   * Start an exchange. A (the joiner) blinds with M, B (the creator) with N.
+   */
+  static async start(role: Spake2Role, password: string, context: string): Promise<Spake2> {
+    return this.fromScalars(role, await this.passwordScalar(password, context), randomScalar());
+  }
+
+  /**
+   * Start an exchange from a given password scalar and ephemeral scalar,
+   * as the RFC 9382 test vectors do
+   */
+  static fromScalars(role: Spake2Role, w: bigint, x: bigint, identities: Spake2Identities = IDENTITIES): Spake2 {
+    const blind = role === 'A' ? M : N_POINT;
+    const point = add(multiply(G, x), multiply(blind, w));
+    if (!point) {
+      throw new Error('SPAKE2 produced the identity point');
+    }
+    return new Spake2(role, w, x, identities, encodePoint(point));
+  }
+
+  get messageBase64(): string {
+    return arrayBufferToBase64(this.message);
+  }
+
+  /**
+   * Process the peer's message and derive the shared key and confirmations
+   */
+  async finish(peerMessage: string, associatedData: Uint8Array): Promise<Spake2Result> {
+    const peerBytes = base64ToArrayBuffer(peerMessage);
+    const peerPoint: Point = decodePoint(peerBytes);
+
+    // Remove the peer's blinding: K = x * (peer - w * blind)
+    const peerBlind = this.role === 'A' ? N_POINT : M;
+    const unblinded: CurvePoint = add(peerPoint, negate(multiply(peerBlind, this.w)));
+    const shared = multiply(unblinded, this.x);
+    if (!shared) {
+      throw new Error('SPAKE2 produced the identity point');
+    }
+
+    const [pA, pB] = this.role === 'A' ? [this.message, peerBytes] : [peerBytes, this.message];
+    const transcript = concatBytes(
+      lengthPrefixed(stringToArrayBuffer(this.identities.a)),
+      lengthPrefixed(stringToArrayBuffer(this.identities.b)),
+      lengthPrefixed(pA),
+      lengthPrefixed(pB),
+      lengthPrefixed(encodePoint(shared)),
+      lengthPrefixed(bigIntToBytes(this.w))
+    );
+
+    const hash = new Uint8Array(await window.crypto.subtle.digest('SHA-256', transcript));
+    const sessionKey = hash.slice(0, 16);
+    const authKey = hash.slice(16);
+
+    // KcA || KcB, 128 bits each
+    const keyMaterial = await window.crypto.subtle.importKey('raw', authKey, 'HKDF', false, ['deriveBits']);
+    const confirmationKeys = new Uint8Array(await window.crypto.subtle.deriveBits(
+      {
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: new Uint8Array(),
+        info: concatBytes(stringToArrayBuffer('ConfirmationKeys'), associatedData)
+      },
+      keyMaterial,
+      256
+    ));
+
+    const [ownKey, peerKey] = this.role === 'A'
+      ? [confirmationKeys.slice(0, 16), confirmationKeys.slice(16)]
+      : [confirmationKeys.slice(16), confirmationKeys.slice(0, 16)];
+
+    const confirmation = arrayBufferToBase64(await hmac(ownKey, transcript));
+    const expected = await hmac(peerKey, transcript);
+
+    return {
+      sessionKey,
+      confirmation,
+      verifyPeer: async (peerConfirmation: string) => {
+        try {
+          return equalBytes(base64ToArrayBuffer(peerConfirmation), expected);
+        } catch {
+          return false;
+        }
+      }
+    };
+  }
+}
@@ -0,0 +1,163 @@
+import { CertificateAuthority, TrustAnchor, TrustSource } from '../types';
+import { CryptoSuites } from './cryptoSuites';
+
+const STORAGE_KEY = 'cipher-trust-anchors';
+const EXPORT_VERSION = 1;
+
+export type TofuResult = 'trusted' | 'added' | 'conflict';
+
+/**
+ * Trust store of CA public keys used to verify peer certificates.
+ *
+ * Anchors are persisted in localStorage, except our own CA which is
+ * registered again each session and only kept in memory.
+ */
+export class TrustStore {
+  private static instance: TrustStore;
+  private anchors = new Map<string, TrustAnchor>();
+
+  static getInstance(): TrustStore {
+    if (!TrustStore.instance) {
+      TrustStore.instance = new TrustStore();
+    }
+    return TrustStore.instance;
+  }
+
+  private constructor() {
+    this.load();
+  }
+
+  /**
+   * Look up the anchor for a certificate issuer
+   */
+  getAnchor(issuerId: string): TrustAnchor | null {
+    return this.anchors.get(issuerId) || null;
+  }
+
+  listAnchors(): TrustAnchor[] {
+    return Array.from(this.anchors.values()).sort((a, b) => a.addedAt - b.addedAt);
+  }
+
+  /**
+   * Register our own CA for the current session
+   */
+  addSelf(ca: CertificateAuthority): void {
+    this.set(ca, 'self');
+  }
+
+  /**
+   * Explicitly trust a CA, replacing any existing key for its ID
+   */
+  pin(ca: CertificateAuthority): TrustAnchor {
+    return this.set(ca, 'pinned');
+  }
+
+  /**
+   * Trust a peer's issuer the first time it is seen. A known issuer ID
+   * presented with a different key is a conflict and is never replaced.
+   */
+  trustOnFirstUse(ca: CertificateAuthority): TofuResult {
+    const existing = this.anchors.get(ca.id);
+    if (existing) {
+      return existing.publicKey === ca.publicKey ? 'trusted' : 'conflict';
+    }
+
+    this.set(ca, 'tofu');
+    return 'added';
+  }
+
+  remove(issuerId: string): void {
+    this.anchors.delete(issuerId);
+    this.save();
+  }
+
+  /**
+   * Drop our own session CA (for cleanup)
+   */
+  removeSelf(): void {
+    this.anchors.forEach((anchor, id) => {
+      if (anchor.source === 'self') {
+        this.anchors.delete(id);
+      }
+    });
+  }
+
+  /**
+   * Serialize all anchors, including our own CA, for sharing
+   */
+  export(): string {
+    const anchors = this.listAnchors().map(({ id, name, publicKey, suite }) => ({ id, name, publicKey, suite }));
+    return JSON.stringify({ version: EXPORT_VERSION, anchors }, null, 2);
+  }
+
+  /**
+   * Import anchors from an exported file. Returns the number imported;
+   * anchors that conflict with a pinned key are skipped.
+   */
+  import(serialized: string): number {
+    const parsed = JSON.parse(serialized);
+    if (parsed?.version !== EXPORT_VERSION || !Array.isArray(parsed.anchors)) {
+      throw new Error('Unsupported trust anchor file');
+    }
+
+    let imported = 0;
+    for (const entry of parsed.anchors) {
+      if (typeof entry?.id !== 'string' || typeof entry?.publicKey !== 'string') {
+        continue;
+      }
+
+      const ca: CertificateAuthority = { id: entry.id, name: entry.name || entry.id, publicKey: entry.publicKey };
+      if (CryptoSuites.isKnown(entry.suite)) {
+        ca.suite = entry.suite;
+      }
+      if (this.importCA(ca)) {
+        imported++;
+      }
+    }
+    return imported;
+  }
+
+  /**
+   * Import a single CA, e.g. from an X.509 certificate. Returns false if it
+   * conflicts with a pinned or otherwise explicitly trusted key.
+   */
+  importCA(ca: CertificateAuthority): boolean {
+    const existing = this.anchors.get(ca.id);
+    if (existing && existing.source !== 'tofu' && existing.publicKey !== ca.publicKey) {
+      console.warn('Skipping imported anchor that conflicts with a trusted key:', ca.id);
+      return false;
+    }
+
+    this.set(ca, 'imported');
+    return true;
+  }
+
+  private set(ca: CertificateAuthority, source: TrustSource): TrustAnchor {
+    const anchor: TrustAnchor = {
+      id: ca.id,
+      name: ca.name,
+      publicKey: ca.publicKey,
+      ...(ca.suite && { suite: ca.suite }),
+      source,
+      addedAt: Date.now()
+    };
+    this.anchors.set(ca.id, anchor);
+    this.save();
+    return anchor;
+  }
+
+  private load(): void {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      const anchors: TrustAnchor[] = stored ? JSON.parse(stored) : [];
+      anchors.forEach(anchor => this.anchors.set(anchor.id, anchor));
+    } catch (error) {
+      console.error('Failed to load trust anchors:', error);
+    }
+  }
+
+  private save(): void {
+    const persistent = this.listAnchors().filter(anchor => anchor.source !== 'self');
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(persistent));
+  }
+}
@@ -0,0 +1,61 @@
+import { Certificate, PeerVerificationStatus } from '../types';
+
+const STORAGE_KEY = 'cipher-verified-peers';
+
+interface VerifiedPeer {
+  publicKey: string;
+  verifiedAt: number;
+}
+
+/**
+ * Persisted record of peers whose safety number was confirmed out of band,
+ * keyed by certificate subject
+ */
+export class VerifiedPeers {
+  private static instance: VerifiedPeers;
+  private peers: Record<string, VerifiedPeer> = {};
+
+  static getInstance(): VerifiedPeers {
+    if (!VerifiedPeers.instance) {
+      VerifiedPeers.instance = new VerifiedPeers();
+    }
+    return VerifiedPeers.instance;
+  }
+
+  private constructor() {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      this.peers = stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Failed to load verified peers:', error);
+    }
+  }
+
+  /**
+   * A verified peer presenting a different key is reported as 'changed'
+   */
+  getStatus(certificate: Certificate): PeerVerificationStatus {
+    const record = this.peers[certificate.subject];
+    if (!record) {
+      return 'unverified';
+    }
+    return record.publicKey === certificate.publicKey ? 'verified' : 'changed';
+  }
+
+  markVerified(certificate: Certificate): void {
+    this.peers[certificate.subject] = {
+      publicKey: certificate.publicKey,
+      verifiedAt: Date.now()
+    };
+    this.save();
+  }
+
+  clear(subject: string): void {
+    delete this.peers[subject];
+    this.save();
+  }
+
+  private save(): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.peers));
+  }
+}
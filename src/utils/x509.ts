@@ -0,0 +1,284 @@
+import { CryptoSuite } from '../types';
+import { Asn1Element, Der, Tag } from './asn1';
+import { arrayBufferToBase64, base64ToArrayBuffer, concatBytes } from './encoding';
+
+const OID = {
+  ecPublicKey: '1.2.840.10045.2.1',
+  prime256v1: '1.2.840.10045.3.1.7',
+  ecdsaWithSHA256: '1.2.840.10045.4.3.2',
+  ed25519: '1.3.101.112',
+  commonName: '2.5.4.3',
+  organizationName: '2.5.4.10',
+  title: '2.5.4.12',
+  pseudonym: '2.5.4.65',
+  keyUsage: '2.5.29.15',
+  basicConstraints: '2.5.29.19'
+};
+
+// KeyUsage bit positions (RFC 5280 section 4.2.1.3)
+export type X509KeyUsage = 'digitalSignature' | 'contentCommitment' | 'keyCertSign' | 'cRLSign';
+
+const KEY_USAGE_BITS: Record<X509KeyUsage, number> = {
+  digitalSignature: 0,
+  contentCommitment: 1, // Formerly nonRepudiation
+  keyCertSign: 5,
+  cRLSign: 6
+};
+
+export interface X509Name {
+  commonName: string;
+  organization?: string;
+  title?: string;
+  pseudonym?: string;
+}
+
+// The parts of a certificate this app reads and writes
+export interface X509Fields {
+  serialNumber: Uint8Array;
+  issuer: X509Name;
+  subject: X509Name;
+  notBefore: number;
+  notAfter: number;
+  publicKey: Uint8Array; // Uncompressed P-256 point or raw Ed25519 key
+  suite: CryptoSuite; // Of the public key
+  keyUsage: X509KeyUsage[];
+  basicConstraints?: { ca: boolean; pathLength?: number };
+}
+
+export interface DecodedX509 {
+  fields: X509Fields;
+  tbs: Uint8Array; // TBSCertificate as received, for signature checks
+  signature: Uint8Array; // Raw r || s or Ed25519 signature, as WebCrypto expects
+  signatureSuite: CryptoSuite;
+}
+
+const PEM_HEADER = '-----BEGIN CERTIFICATE-----';
+const PEM_FOOTER = '-----END CERTIFICATE-----';
+
+/**
+ * X.509 v3 encoding and decoding for P-256 / ecdsa-with-SHA256 and Ed25519
+ * (RFC 8410) certificates. Signing is left to the caller, which signs the
+ * TBSCertificate bytes with the issuer's key.
+ */
+export class X509 {
+  static encodeTbs(fields: X509Fields, signatureSuite: CryptoSuite): Uint8Array {
+    const extensions = [
+      this.extension(OID.keyUsage, true, this.encodeKeyUsage(fields.keyUsage))
+    ];
+    if (fields.basicConstraints) {
+      const { ca, pathLength } = fields.basicConstraints;
+      extensions.push(this.extension(
+        OID.basicConstraints,
+        true,
+        Der.sequence(
+          ...(ca ? [Der.boolean(true)] : []),
+          ...(ca && pathLength !== undefined ? [Der.integer(pathLength)] : [])
+        )
+      ));
+    }
+
+    return Der.sequence(
+      Der.explicit(0, Der.integer(2)), // v3
+      Der.integer(fields.serialNumber),
+      this.signatureAlgorithm(signatureSuite),
+      this.encodeName(fields.issuer),
+      Der.sequence(Der.time(fields.notBefore), Der.time(fields.notAfter)),
+      this.encodeName(fields.subject),
+      Der.sequence(
+        fields.suite === 'x25519-ed25519'
+          ? Der.sequence(Der.oid(OID.ed25519))
+          : Der.sequence(Der.oid(OID.ecPublicKey), Der.oid(OID.prime256v1)),
+        Der.bitString(fields.publicKey)
+      ),
+      Der.explicit(3, Der.sequence(...extensions))
+    );
+  }
+
+  /**
+   * Wrap a signed TBSCertificate into a full certificate
+   */
+  static encodeCertificate(tbs: Uint8Array, rawSignature: Uint8Array, signatureSuite: CryptoSuite): Uint8Array {
+    // Ed25519 signatures are stored as they are
+    const signature = signatureSuite === 'x25519-ed25519' ? rawSignature : this.signatureToDer(rawSignature);
+    return Der.sequence(tbs, this.signatureAlgorithm(signatureSuite), Der.bitString(signature));
+  }
+
+  static decode(der: Uint8Array): DecodedX509 {
+    const certificate = Der.decode(der);
+    Der.expectTag(certificate, Tag.SEQUENCE);
+    const [tbs, signatureAlgorithm, signatureValue] = certificate.children;
+    if (!tbs || !signatureAlgorithm || !signatureValue) {
+      throw new Error('Malformed certificate');
+    }
+    const signatureOid = Der.readOid(signatureAlgorithm.children[0]);
+    if (signatureOid !== OID.ecdsaWithSHA256 && signatureOid !== OID.ed25519) {
+      throw new Error('Only ecdsa-with-SHA256 and Ed25519 certificates are supported');
+    }
+
+    const signatureBytes = Der.readBitString(signatureValue).bytes;
+    return {
+      fields: this.decodeTbs(tbs),
+      tbs: tbs.bytes,
+      signature: signatureOid === OID.ed25519 ? signatureBytes : this.signatureFromDer(signatureBytes),
+      signatureSuite: signatureOid === OID.ed25519 ? 'x25519-ed25519' : 'p256'
+    };
+  }
+
+  static toPem(der: Uint8Array): string {
+    const lines = arrayBufferToBase64(der).match(/.{1,64}/g) ?? [];
+    return [PEM_HEADER, ...lines, PEM_FOOTER, ''].join('\n');
+  }
+
+  /**
+   * Every certificate in a PEM bundle, in order
+   */
+  static fromPem(pem: string): Uint8Array[] {
+    const blocks = pem.match(/-----BEGIN CERTIFICATE-----[\s\S]*?-----END CERTIFICATE-----/g) ?? [];
+    if (blocks.length === 0) {
+      throw new Error('No PEM certificate found');
+    }
+
+    return blocks.map(block => base64ToArrayBuffer(
+      block.replace(PEM_HEADER, '').replace(PEM_FOOTER, '').replace(/\s+/g, '')
+    ));
+  }
+
+  private static decodeTbs(tbs: Asn1Element): X509Fields {
+    Der.expectTag(tbs, Tag.SEQUENCE);
+    const items = [...tbs.children];
+
+    // version is [0] EXPLICIT and only present for v2 and v3
+    if (items[0]?.tag === 0xa0) {
+      const version = Der.readInteger(items.shift()!.children[0]);
+      if (version !== 2n) {
+        throw new Error('Only X.509 v3 certificates are supported');
+      }
+    }
+
+    const [serial, , issuer, validity, subject, spki, ...rest] = items;
+    if (!serial || !issuer || !validity || !subject || !spki) {
+      throw new Error('Malformed TBSCertificate');
+    }
+
+    const [algorithm, keyBits] = spki.children;
+    const keyOid = Der.readOid(algorithm.children[0]);
+    const isP256 = keyOid === OID.ecPublicKey && Der.readOid(algorithm.children[1]) === OID.prime256v1;
+    if (!isP256 && keyOid !== OID.ed25519) {
+      throw new Error('Only P-256 and Ed25519 public keys are supported');
+    }
+
+    const fields: X509Fields = {
+      serialNumber: Der.readUnsigned(serial),
+      issuer: this.decodeName(issuer),
+      subject: this.decodeName(subject),
+      notBefore: Der.readTime(validity.children[0]),
+      notAfter: Der.readTime(validity.children[1]),
+      publicKey: Der.readBitString(keyBits).bytes,
+      suite: isP256 ? 'p256' : 'x25519-ed25519',
+      keyUsage: []
+    };
+
+    const extensions = rest.find(item => item.tag === 0xa3)?.children[0]?.children ?? [];
+    for (const extension of extensions) {
+      const oid = Der.readOid(extension.children[0]);
+      const value = Der.decode(extension.children[extension.children.length - 1].value);
+
+      if (oid === OID.keyUsage) {
+        fields.keyUsage = this.decodeKeyUsage(value);
+      } else if (oid === OID.basicConstraints) {
+        const [ca, pathLength] = value.children;
+        const isCa = ca?.tag === Tag.BOOLEAN && Der.readBoolean(ca);
+        const lengthElement = ca?.tag === Tag.INTEGER ? ca : pathLength;
+        fields.basicConstraints = {
+          ca: isCa,
+          ...(isCa && lengthElement && { pathLength: Number(Der.readInteger(lengthElement)) })
+        };
+      }
+    }
+
+    return fields;
+  }
+
+  // Most general attribute first, common name last
+  private static encodeName(name: X509Name): Uint8Array {
+    const attribute = (oid: string, value: string) => Der.set(Der.sequence(Der.oid(oid), Der.utf8String(value)));
+    return Der.sequence(
+      ...(name.organization ? [attribute(OID.organizationName, name.organization)] : []),
+      ...(name.title ? [attribute(OID.title, name.title)] : []),
+      ...(name.pseudonym ? [attribute(OID.pseudonym, name.pseudonym)] : []),
+      attribute(OID.commonName, name.commonName)
+    );
+  }
+
+  private static decodeName(name: Asn1Element): X509Name {
+    const known = [OID.commonName, OID.organizationName, OID.title, OID.pseudonym];
+    const values = new Map<string, string>();
+    for (const rdn of name.children) {
+      for (const attribute of rdn.children) {
+        const oid = Der.readOid(attribute.children[0]);
+        if (known.includes(oid)) {
+          values.set(oid, Der.readString(attribute.children[1]));
+        }
+      }
+    }
+
+    const commonName = values.get(OID.commonName);
+    if (!commonName) {
+      throw new Error('Certificate name has no common name');
+    }
+    const organization = values.get(OID.organizationName);
+    const title = values.get(OID.title);
+    const pseudonym = values.get(OID.pseudonym);
+    return {
+      commonName,
+      ...(organization && { organization }),
+      ...(title && { title }),
+      ...(pseudonym && { pseudonym })
+    };
+  }
+
+  private static extension(oid: string, critical: boolean, value: Uint8Array): Uint8Array {
+    return Der.sequence(
+      Der.oid(oid),
+      ...(critical ? [Der.boolean(true)] : []),
+      Der.octetString(value)
+    );
+  }
+
+  // Named bit list: DER drops trailing zero bits
+  private static encodeKeyUsage(usages: X509KeyUsage[]): Uint8Array {
+    const bits = usages.map(usage => KEY_USAGE_BITS[usage]);
+    const highest = Math.max(...bits);
+    const bytes = new Uint8Array(Math.floor(highest / 8) + 1);
+    bits.forEach(bit => {
+      bytes[Math.floor(bit / 8)] |= 0x80 >> (bit % 8);
+    });
+    return Der.bitString(bytes, 7 - (highest % 8));
+  }
+
+  private static decodeKeyUsage(element: Asn1Element): X509KeyUsage[] {
+    const { bytes } = Der.readBitString(element);
+    return (Object.keys(KEY_USAGE_BITS) as X509KeyUsage[]).filter(usage => {
+      const bit = KEY_USAGE_BITS[usage];
+      return !!(bytes[Math.floor(bit / 8)] & (0x80 >> (bit % 8)));
+    });
+  }
+
+  private static signatureAlgorithm(suite: CryptoSuite): Uint8Array {
+    return Der.sequence(Der.oid(suite === 'x25519-ed25519' ? OID.ed25519 : OID.ecdsaWithSHA256));
+  }
+
+  // WebCrypto signs as r || s; X.509 wants SEQUENCE { r INTEGER, s INTEGER }
+  private static signatureToDer(raw: Uint8Array): Uint8Array {
+    return Der.sequence(Der.integer(raw.slice(0, 32)), Der.integer(raw.slice(32)));
+  }
+
+  private static signatureFromDer(der: Uint8Array): Uint8Array {
+    const [r, s] = Der.decode(der).children;
+    const pad = (bytes: Uint8Array) => {
+      if (bytes.length > 32) throw new Error('Malformed ECDSA signature');
+      return concatBytes(new Uint8Array(32 - bytes.length), bytes);
+    };
+    return concatBytes(pad(Der.readUnsigned(r)), pad(Der.readUnsigned(s)));
+  }
+}
@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_RELAY_URL?: string;
+  readonly VITE_TRANSPORT?: 'broadcast' | 'memory' | 'socket' | 'webrtc';
+  readonly VITE_TRANSPARENCY_LOG_URL?: string;
+  readonly VITE_STATUS_RESPONDER_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
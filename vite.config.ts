@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
@@ -28,6 +29,9 @@ export default defineConfig({
       'Cross-Origin-Opener-Policy': 'same-origin'
     }
   },
+  test: {
+    setupFiles: ['src/test/setup.ts']
+  },
   preview: {
     headers: {
       'Cross-Origin-Embedder-Policy': 'require-corp',